@@ -1,7 +1,14 @@
 'use server';
 
 import { PrismaClient } from '@prisma/client';
-import type { PaymentFrequency } from '@/types';
+import { sumMoney } from '@/lib/math';
+import {
+  toBorrowerData,
+  toLiabilityData,
+  toQualifyingSnapshotData,
+  toSegmentData
+} from '@/lib/db/mappers';
+import type { Borrower, Liability, MortgageSegment, PaymentFrequency } from '@/types';
 
 const prisma = new PrismaClient();
 
@@ -11,14 +18,21 @@ export interface SaveCalculationInput {
   clientEmail: string;
   clientPhone?: string;
   grossAnnualIncome: number;
-  monthlyDebts: number;
+  monthlyDebts: number; // Qualifying figure the assessment used
+  liabilities?: Liability[]; // Replaces the client's saved liabilities when given
+  borrowers?: Borrower[]; // Replaces the client's saved borrowers when given
 
   // Mortgage data
   principal: number;
   interestRate: number;
   amortizationYears: number;
+  termYears?: number;
+  startDate?: Date;
   paymentFrequency: PaymentFrequency;
   mortgageType?: 'fixed' | 'variable' | 'mixed';
+  segments?: MortgageSegment[]; // Components of a mixed mortgage
+  policyVersion?: string; // Qualification policy version the result was produced under
+  assessedAt?: Date;
 }
 
 export interface SaveCalculationResult {
@@ -36,6 +50,10 @@ export async function saveCalculation(
   input: SaveCalculationInput
 ): Promise<SaveCalculationResult> {
   try {
+    // Itemized debts are qualified per assessment (kept in the mortgage's
+    // snapshot), so the client only stores a directly entered figure
+    const clientMonthlyDebts = input.liabilities?.length ? null : input.monthlyDebts;
+
     // Check if client exists by email
     let client = await prisma.client.findUnique({
       where: { email: input.clientEmail }
@@ -49,7 +67,19 @@ export async function saveCalculation(
           name: input.clientName,
           phone: input.clientPhone || '',
           grossAnnualIncome: input.grossAnnualIncome,
-          monthlyDebts: input.monthlyDebts
+          monthlyDebts: clientMonthlyDebts,
+          ...(input.liabilities && {
+            liabilities: {
+              deleteMany: {},
+              create: input.liabilities.map(toLiabilityData)
+            }
+          }),
+          ...(input.borrowers && {
+            borrowers: {
+              deleteMany: {},
+              create: input.borrowers.map(toBorrowerData)
+            }
+          })
         }
       });
     } else {
@@ -60,20 +90,45 @@ export async function saveCalculation(
           email: input.clientEmail,
           phone: input.clientPhone || '',
           grossAnnualIncome: input.grossAnnualIncome,
-          monthlyDebts: input.monthlyDebts
+          monthlyDebts: clientMonthlyDebts,
+          ...(input.liabilities && {
+            liabilities: { create: input.liabilities.map(toLiabilityData) }
+          }),
+          ...(input.borrowers && {
+            borrowers: { create: input.borrowers.map(toBorrowerData) }
+          })
         }
       });
     }
 
+    // The principal of a mixed mortgage is the total of its segments
+    const principal = input.segments?.length
+      ? sumMoney(input.segments.map(segment => segment.principal))
+      : input.principal;
+
     // Create mortgage record
     const mortgage = await prisma.mortgage.create({
       data: {
         clientId: client.id,
-        principal: input.principal,
+        principal,
         interestRate: input.interestRate,
         amortizationYears: input.amortizationYears,
+        termYears: input.termYears ?? 5,
+        startDate: input.startDate ?? new Date(),
         paymentFrequency: input.paymentFrequency,
-        mortgageType: input.mortgageType || 'fixed'
+        mortgageType: input.segments?.length ? 'mixed' : input.mortgageType || 'fixed',
+        policyVersion: input.policyVersion ?? null,
+        assessedAt: input.assessedAt ?? new Date(),
+        // Re-opening the file re-assesses it with these, not the client's current figures
+        qualifyingSnapshot: toQualifyingSnapshotData({
+          grossAnnualIncome: input.grossAnnualIncome,
+          monthlyDebts: input.monthlyDebts,
+          borrowers: input.borrowers ?? [],
+          liabilities: input.liabilities ?? []
+        }),
+        ...(input.segments && {
+          segments: { create: input.segments.map(toSegmentData) }
+        })
       }
     });
 
@@ -1,8 +1,106 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { PrismaClient } from '@prisma/client';
+import { calculateQualifyingIncome } from '@/lib/math';
+import { toBorrowerData, toLiabilityData } from '@/lib/db/mappers';
+import type { IncomeSourceType, LiabilityType } from '@/types';
 
 const prisma = new PrismaClient();
 
+const LIABILITY_TYPES: LiabilityType[] = [
+  'credit-card',
+  'line-of-credit',
+  'auto-loan',
+  'student-loan',
+  'personal-loan',
+  'support-payment',
+  'other'
+];
+
+/**
+ * Validate a liabilities payload
+ * Returns an error message, or null if every entry is valid
+ */
+function validateLiabilities(liabilities: unknown): string | null {
+  if (!Array.isArray(liabilities)) {
+    return 'Liabilities must be an array';
+  }
+
+  for (const liability of liabilities) {
+    if (!LIABILITY_TYPES.includes(liability?.type)) {
+      return 'Each liability needs a valid type';
+    }
+    if (typeof liability.balance !== 'number' || liability.balance < 0) {
+      return 'Each liability needs a valid balance';
+    }
+    if (typeof liability.monthlyPayment !== 'number' || liability.monthlyPayment < 0) {
+      return 'Each liability needs a valid monthly payment';
+    }
+    if (
+      liability.limit !== undefined &&
+      liability.limit !== null &&
+      (typeof liability.limit !== 'number' || liability.limit < 0)
+    ) {
+      return 'Liability limits must be non-negative numbers';
+    }
+    if (
+      liability.interestRate !== undefined &&
+      liability.interestRate !== null &&
+      (typeof liability.interestRate !== 'number' || liability.interestRate < 0)
+    ) {
+      return 'Liability interest rates must be non-negative numbers';
+    }
+    // Stored as an integer column
+    if (
+      liability.remainingPayments !== undefined &&
+      liability.remainingPayments !== null &&
+      (!Number.isInteger(liability.remainingPayments) || liability.remainingPayments < 0)
+    ) {
+      return 'Remaining payments must be a whole number';
+    }
+  }
+
+  return null;
+}
+
+const INCOME_SOURCE_TYPES: IncomeSourceType[] = [
+  'salaried',
+  'hourly',
+  'bonus-commission',
+  'self-employed',
+  'pension',
+  'rental',
+  'child-benefit'
+];
+
+/**
+ * Validate a borrowers payload
+ * Returns an error message, or null if every borrower and income source is valid
+ */
+function validateBorrowers(borrowers: unknown): string | null {
+  if (!Array.isArray(borrowers)) {
+    return 'Borrowers must be an array';
+  }
+
+  for (const borrower of borrowers) {
+    if (!borrower?.name) {
+      return 'Each borrower needs a name';
+    }
+    if (!Array.isArray(borrower.incomeSources)) {
+      return 'Each borrower needs a list of income sources';
+    }
+    for (const source of borrower.incomeSources) {
+      if (!INCOME_SOURCE_TYPES.includes(source?.type)) {
+        return 'Each income source needs a valid type';
+      }
+      if (typeof source.annualAmount !== 'number' || source.annualAmount < 0) {
+        return 'Each income source needs a valid annual amount';
+      }
+    }
+  }
+
+  return null;
+}
+
 /**
  * GET /api/clients
  * Retrieve all clients
@@ -11,7 +109,9 @@ export async function GET() {
   try {
     const clients = await prisma.client.findMany({
       include: {
-        mortgages: true
+        mortgages: { include: { segments: true } },
+        liabilities: true,
+        borrowers: { include: { incomeSources: true } }
       },
       orderBy: {
         createdAt: 'desc'
@@ -41,7 +141,8 @@ export async function GET() {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { name, email, phone, grossAnnualIncome, monthlyDebts } = body;
+    const { name, email, phone, liabilities, borrowers } = body;
+    let { grossAnnualIncome, monthlyDebts } = body;
 
     // Validation
     if (!name || !email) {
@@ -51,6 +152,19 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (borrowers !== undefined) {
+      const borrowerError = validateBorrowers(borrowers);
+      if (borrowerError) {
+        return NextResponse.json(
+          { error: borrowerError },
+          { status: 400 }
+        );
+      }
+
+      // The qualifying income is derived from the borrowers' income sources
+      grossAnnualIncome = calculateQualifyingIncome(borrowers).totalQualifyingIncome;
+    }
+
     if (typeof grossAnnualIncome !== 'number' || grossAnnualIncome < 0) {
       return NextResponse.json(
         { error: 'Valid gross annual income is required' },
@@ -58,7 +172,19 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (typeof monthlyDebts !== 'number' || monthlyDebts < 0) {
+    if (liabilities !== undefined) {
+      const liabilityError = validateLiabilities(liabilities);
+      if (liabilityError) {
+        return NextResponse.json(
+          { error: liabilityError },
+          { status: 400 }
+        );
+      }
+
+      // Itemized debts are qualified per assessment under the mortgage's
+      // policy, so no single figure is stored
+      monthlyDebts = null;
+    } else if (typeof monthlyDebts !== 'number' || monthlyDebts < 0) {
       return NextResponse.json(
         { error: 'Valid monthly debts amount is required' },
         { status: 400 }
@@ -84,7 +210,17 @@ export async function POST(request: NextRequest) {
         email,
         phone: phone || '',
         grossAnnualIncome,
-        monthlyDebts
+        monthlyDebts,
+        ...(liabilities && {
+          liabilities: { create: liabilities.map(toLiabilityData) }
+        }),
+        ...(borrowers && {
+          borrowers: { create: borrowers.map(toBorrowerData) }
+        })
+      },
+      include: {
+        liabilities: true,
+        borrowers: { include: { incomeSources: true } }
       }
     });
 
@@ -112,7 +248,8 @@ export async function POST(request: NextRequest) {
 export async function PUT(request: NextRequest) {
   try {
     const body = await request.json();
-    const { id, name, email, phone, grossAnnualIncome, monthlyDebts } = body;
+    const { id, name, email, phone, liabilities, borrowers } = body;
+    let { grossAnnualIncome, monthlyDebts } = body;
 
     if (!id) {
       return NextResponse.json(
@@ -133,7 +270,31 @@ export async function PUT(request: NextRequest) {
       );
     }
 
-    // Update client
+    if (liabilities !== undefined) {
+      const liabilityError = validateLiabilities(liabilities);
+      if (liabilityError) {
+        return NextResponse.json(
+          { error: liabilityError },
+          { status: 400 }
+        );
+      }
+
+      monthlyDebts = null;
+    }
+
+    if (borrowers !== undefined) {
+      const borrowerError = validateBorrowers(borrowers);
+      if (borrowerError) {
+        return NextResponse.json(
+          { error: borrowerError },
+          { status: 400 }
+        );
+      }
+
+      grossAnnualIncome = calculateQualifyingIncome(borrowers).totalQualifyingIncome;
+    }
+
+    // Update client (liability and borrower lists replace the existing ones)
     const updatedClient = await prisma.client.update({
       where: { id },
       data: {
@@ -141,7 +302,23 @@ export async function PUT(request: NextRequest) {
         ...(email && { email }),
         ...(phone !== undefined && { phone }),
         ...(grossAnnualIncome !== undefined && { grossAnnualIncome }),
-        ...(monthlyDebts !== undefined && { monthlyDebts })
+        ...(monthlyDebts !== undefined && { monthlyDebts }),
+        ...(liabilities && {
+          liabilities: {
+            deleteMany: {},
+            create: liabilities.map(toLiabilityData)
+          }
+        }),
+        ...(borrowers && {
+          borrowers: {
+            deleteMany: {},
+            create: borrowers.map(toBorrowerData)
+          }
+        })
+      },
+      include: {
+        liabilities: true,
+        borrowers: { include: { incomeSources: true } }
       }
     });
 
@@ -190,7 +367,7 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
-    // Delete client (will cascade delete mortgages due to schema)
+    // Delete client (will cascade delete mortgages, liabilities and borrowers due to schema)
     await prisma.client.delete({
       where: { id }
     });
@@ -1,8 +1,56 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { PrismaClient } from '@prisma/client';
+import {
+  getPolicyProfile,
+  getPolicyVersion,
+  isPolicyInEffect,
+  resolveQualifyingFigures,
+  sumMoney
+} from '@/lib/math';
+import { toQualifyingSnapshotData, toSegmentData } from '@/lib/db/mappers';
+import type { MortgageSegment, MortgageSegmentType } from '@/types';
 
 const prisma = new PrismaClient();
 
+const SEGMENT_TYPES: MortgageSegmentType[] = ['fixed', 'variable', 'heloc'];
+
+/**
+ * Validate the segments of a mixed mortgage
+ * Returns an error message, or null when every segment is valid
+ */
+function validateSegments(segments: unknown): string | null {
+  if (!Array.isArray(segments) || segments.length === 0) {
+    return 'A mixed mortgage needs at least one segment';
+  }
+
+  for (const segment of segments) {
+    if (!SEGMENT_TYPES.includes(segment?.type)) {
+      return 'Each segment needs a valid type';
+    }
+    if (typeof segment.principal !== 'number' || segment.principal < 0) {
+      return 'Each segment needs a valid principal';
+    }
+    if (typeof segment.annualRate !== 'number' || segment.annualRate < 0) {
+      return 'Each segment needs a valid interest rate';
+    }
+    if (
+      segment.type !== 'heloc' &&
+      (!Number.isInteger(segment.amortizationYears) || segment.amortizationYears <= 0)
+    ) {
+      return 'Each amortizing segment needs a whole number of amortization years';
+    }
+    if (
+      segment.termYears !== undefined &&
+      segment.termYears !== null &&
+      (!Number.isInteger(segment.termYears) || segment.termYears <= 0)
+    ) {
+      return 'Segment terms must be a whole number of years';
+    }
+  }
+
+  return null;
+}
+
 /**
  * POST /api/mortgages
  * Create a new mortgage calculation and save to database
@@ -12,12 +60,17 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const {
       clientId,
-      principal,
       interestRate,
       amortizationYears,
+      termYears,
+      startDate,
       paymentFrequency,
-      mortgageType
+      mortgageType,
+      policyVersion,
+      assessedAt,
+      segments
     } = body;
+    let { principal } = body;
 
     // Validation
     if (!clientId) {
@@ -27,6 +80,29 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (segments !== undefined && mortgageType !== undefined && mortgageType !== 'mixed') {
+      return NextResponse.json(
+        { error: 'Only a mixed mortgage can have segments' },
+        { status: 400 }
+      );
+    }
+
+    // Sending segments makes the mortgage a mixed mortgage
+    const isMixed = mortgageType === 'mixed' || segments !== undefined;
+
+    if (isMixed) {
+      const segmentError = validateSegments(segments);
+      if (segmentError) {
+        return NextResponse.json(
+          { error: segmentError },
+          { status: 400 }
+        );
+      }
+
+      // The principal of a mixed mortgage is the total of its segments
+      principal = sumMoney((segments as MortgageSegment[]).map(segment => segment.principal));
+    }
+
     if (typeof principal !== 'number' || principal <= 0) {
       return NextResponse.json(
         { error: 'Valid principal amount is required' },
@@ -41,9 +117,68 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Terms and amortizations are stored as whole years
+    if (
+      amortizationYears !== undefined &&
+      (!Number.isInteger(amortizationYears) || amortizationYears < 1)
+    ) {
+      return NextResponse.json(
+        { error: 'Amortization must be a whole number of years' },
+        { status: 400 }
+      );
+    }
+
+    if (
+      termYears !== undefined &&
+      (!Number.isInteger(termYears) || termYears < 1 || termYears > 10)
+    ) {
+      return NextResponse.json(
+        { error: 'Term must be a whole number of years between 1 and 10' },
+        { status: 400 }
+      );
+    }
+
+    if (startDate !== undefined && Number.isNaN(new Date(startDate).getTime())) {
+      return NextResponse.json(
+        { error: 'Valid start date is required' },
+        { status: 400 }
+      );
+    }
+
+    if (assessedAt !== undefined && Number.isNaN(new Date(assessedAt).getTime())) {
+      return NextResponse.json(
+        { error: 'Valid assessment date is required' },
+        { status: 400 }
+      );
+    }
+
+    const assessmentDate = assessedAt ? new Date(assessedAt) : new Date();
+
+    if (policyVersion !== undefined) {
+      const policy = getPolicyVersion(policyVersion);
+      if (!policy) {
+        return NextResponse.json(
+          { error: 'Unknown policy version' },
+          { status: 400 }
+        );
+      }
+
+      // A stored version must be the one in effect on the assessment date
+      if (!isPolicyInEffect(policy, assessmentDate)) {
+        return NextResponse.json(
+          { error: 'Policy version was not in effect on the assessment date' },
+          { status: 400 }
+        );
+      }
+    }
+
     // Check if client exists
     const client = await prisma.client.findUnique({
-      where: { id: clientId }
+      where: { id: clientId },
+      include: {
+        liabilities: true,
+        borrowers: { include: { incomeSources: true } }
+      }
     });
 
     if (!client) {
@@ -53,6 +188,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Qualify the client's current figures under this mortgage's policy
+    const policy =
+      (policyVersion && getPolicyVersion(policyVersion)) || getPolicyProfile('standard', assessmentDate);
+    const qualifying = resolveQualifyingFigures(
+      client.borrowers.length ? client.borrowers : client.grossAnnualIncome,
+      client.liabilities.length ? client.liabilities : client.monthlyDebts ?? 0,
+      policy
+    );
+
     // Create mortgage
     const mortgage = await prisma.mortgage.create({
       data: {
@@ -60,11 +204,26 @@ export async function POST(request: NextRequest) {
         principal,
         interestRate,
         amortizationYears: amortizationYears || 25,
+        termYears: termYears || 5,
+        startDate: startDate ? new Date(startDate) : new Date(),
         paymentFrequency: paymentFrequency || 'monthly',
-        mortgageType: mortgageType || 'fixed'
+        mortgageType: isMixed ? 'mixed' : mortgageType || 'fixed',
+        policyVersion: policyVersion ?? null,
+        assessedAt: assessmentDate,
+        // Assessed against the client's figures as they stand today
+        qualifyingSnapshot: toQualifyingSnapshotData({
+          grossAnnualIncome: qualifying.annualIncome,
+          monthlyDebts: qualifying.monthlyDebts,
+          borrowers: client.borrowers,
+          liabilities: client.liabilities
+        }),
+        ...(segments && {
+          segments: { create: (segments as MortgageSegment[]).map(toSegmentData) }
+        })
       },
       include: {
-        client: true
+        client: true,
+        segments: true
       }
     });
 
@@ -97,7 +256,8 @@ export async function GET(request: NextRequest) {
     const mortgages = await prisma.mortgage.findMany({
       where: clientId ? { clientId } : undefined,
       include: {
-        client: true
+        client: true,
+        segments: true
       },
       orderBy: {
         createdAt: 'desc'
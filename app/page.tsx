@@ -5,15 +5,40 @@ import MortgageCalculatorForm, { type MortgageFormData } from '@/components/form
 import AffordabilityResults from '@/components/dashboard/AffordabilityResults';
 import AIPanel from '@/components/dashboard/AIPanel';
 import ClientSidebar from '@/components/dashboard/ClientSidebar';
+import ClosingCostsPanel from '@/components/dashboard/ClosingCostsPanel';
 import SensitivityChart from '@/components/charts/SensitivityChart';
+import SensitivityHeatmap from '@/components/charts/SensitivityHeatmap';
 import AmortizationChart from '@/components/charts/AmortizationChart';
 import AmortizationComparisonChart from '@/components/charts/AmortizationComparisonChart';
+import RateBreakevenChart from '@/components/charts/RateBreakevenChart';
+import RentVsBuyChart from '@/components/charts/RentVsBuyChart';
+import FrequencyComparisonTable from '@/components/dashboard/FrequencyComparisonTable';
+import RenewalRiskPanel from '@/components/dashboard/RenewalRiskPanel';
+import InvestmentPropertyResults from '@/components/dashboard/InvestmentPropertyResults';
+import MixedMortgageResults from '@/components/dashboard/MixedMortgageResults';
+import CostOfBorrowingDisclosure from '@/components/dashboard/CostOfBorrowingDisclosure';
 import {
   calculateAffordability,
   performStressTest,
   generateSensitivityAnalysis,
+  generateSensitivityGrid,
+  generateGridAxisValues,
   generateYearlyAmortizationSummary,
-  compareAmortizationPeriods
+  compareAmortizationPeriods,
+  comparePaymentFrequencies,
+  simulateRenewalRisk,
+  calculateRateBreakeven,
+  compareRentVsBuy,
+  analyzeInvestmentProperty,
+  analyzeMixedMortgage,
+  calculateMortgageInsurance,
+  calculateClosingCosts,
+  generateBorrowingCostDisclosure,
+  calculateInterestAdjustment,
+  getInterestAdjustmentDate,
+  getPolicyProfile,
+  getPolicyVersion,
+  checkPolicyEligibility
 } from '@/lib/math';
 import { saveCalculation } from '@/app/actions/saveCalculation';
 import type {
@@ -21,17 +46,43 @@ import type {
   StressTestResult,
   PaymentFrequency,
   SensitivityDataPoint,
-  DocumentAnalysis
+  SensitivityGrid,
+  GoalSeekScenario,
+  DocumentAnalysis,
+  PrepaymentOptions,
+  MortgageInsuranceResult,
+  ClosingCostResult,
+  BorrowingCostDisclosure,
+  FrequencyComparison,
+  RenewalRiskResult,
+  RateBreakevenResult,
+  RentVsBuyResult,
+  InvestmentPropertyResult,
+  MixedMortgageResult,
+  YearlyAmortizationSummary,
+  AmortizationPeriodComparison
 } from '@/types';
 
 export default function Home() {
   const [results, setResults] = useState<{
     affordability: AffordabilityResult;
-    stressTest: StressTestResult;
+    stressTest?: StressTestResult; // Single-rate mortgages only
+    mixedMortgage?: MixedMortgageResult;
     sensitivityData: SensitivityDataPoint[];
-    amortizationData: any[];
-    comparisonData: any[];
-    formData: any;
+    sensitivityGrids: SensitivityGrid[];
+    amortizationData: YearlyAmortizationSummary[];
+    prepaymentAmortizationData?: YearlyAmortizationSummary[];
+    comparisonData: AmortizationPeriodComparison[];
+    frequencyComparison: FrequencyComparison[];
+    renewalRisk: RenewalRiskResult;
+    rateBreakeven?: RateBreakevenResult;
+    rentVsBuy?: RentVsBuyResult;
+    investmentProperty?: InvestmentPropertyResult;
+    insurance?: MortgageInsuranceResult;
+    closingCosts: ClosingCostResult;
+    disclosure?: BorrowingCostDisclosure;
+    policyViolations: string[];
+    formData: MortgageFormData;
   } | null>(null);
 
   const [clientInfo, setClientInfo] = useState({
@@ -40,7 +91,8 @@ export default function Home() {
     phone: ''
   });
 
-  const [currentFormData, setCurrentFormData] = useState<any>(null);
+  // The form data plus the schedule start, kept for saving
+  const [currentFormData, setCurrentFormData] = useState<(MortgageFormData & { startDate?: Date }) | null>(null);
   const [isSaving, setIsSaving] = useState(false);
   const [saveMessage, setSaveMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
   const [refreshClients, setRefreshClients] = useState(0);
@@ -73,36 +125,127 @@ export default function Home() {
     }
   };
 
-  const handleCalculate = (formData: {
-    principal: number;
-    interestRate: number;
-    amortizationYears: number;
-    frequency: PaymentFrequency;
-    grossAnnualIncome: number;
-    monthlyDebts: number;
-  }) => {
-    // Store form data for later save
-    setCurrentFormData(formData);
+  const handleCalculate = (input: MortgageFormData) => {
+    // A pinned version (re-opened file) reproduces the original rules exactly;
+    // otherwise use the profile version in effect on the "as of" date
+    const policy =
+      (input.policyVersion && getPolicyVersion(input.policyVersion)) ||
+      getPolicyProfile(input.policyId, input.policyAsOf ? new Date(input.policyAsOf) : new Date());
 
-    // Calculate affordability
-    const affordability = calculateAffordability(
-      formData.principal,
-      formData.interestRate,
+    // Purchase price and down payment, when given, determine the insured principal
+    const insurance = input.purchasePrice
+      ? calculateMortgageInsurance(
+          input.purchasePrice,
+          input.downPayment ?? 0,
+          input.province,
+          policy.insuredPriceCap
+        )
+      : undefined;
+    const formData = insurance
+      ? { ...input, principal: insurance.insuredPrincipal, policyVersion: policy.version }
+      : { ...input, policyVersion: policy.version };
+    // Borrower and liability lists take precedence over the single figures
+    const income = formData.borrowers?.length ? formData.borrowers : formData.grossAnnualIncome;
+    const debts = formData.liabilities?.length ? formData.liabilities : formData.monthlyDebts;
+    const policyViolations = checkPolicyEligibility(
       formData.amortizationYears,
-      formData.frequency,
-      formData.grossAnnualIncome,
-      formData.monthlyDebts
+      insurance?.ltv,
+      policy,
+      input.isFirstTimeBuyer
     );
 
-    // Perform stress test
-    const stressTest = performStressTest(
-      formData.principal,
-      formData.interestRate,
-      formData.amortizationYears,
-      formData.frequency,
-      formData.grossAnnualIncome,
-      formData.monthlyDebts
-    );
+    // Stub-period interest from funding to the interest adjustment date (IAD);
+    // the regular schedule starts on the IAD
+    const fundingDate = input.fundingDate ? new Date(`${input.fundingDate}T00:00:00`) : undefined;
+    const interestAdjustment = fundingDate
+      ? calculateInterestAdjustment(
+          formData.principal,
+          formData.interestRate,
+          fundingDate,
+          getInterestAdjustmentDate(fundingDate, formData.frequency)
+        )
+      : undefined;
+
+    // Cash to close: without a purchase price, treat the mortgage amount as the price
+    const closingCosts = calculateClosingCosts({
+      purchasePrice: input.purchasePrice || formData.principal,
+      province: input.province ?? 'ON',
+      downPayment: insurance ? insurance.downPayment : 0,
+      isFirstTimeBuyer: input.isFirstTimeBuyer,
+      isToronto: input.isToronto,
+      premiumTax: insurance?.premiumTax,
+      interestAdjustment: interestAdjustment?.amount
+    });
+
+    // Cost-of-borrowing disclosure over the term; the premium is disclosed
+    // separately from the amount borrowed. Nothing to disclose when nothing
+    // is borrowed (e.g. the down payment covers the price)
+    const disclosurePrincipal = insurance ? insurance.baseMortgage : formData.principal;
+    const disclosure = disclosurePrincipal > 0 ? generateBorrowingCostDisclosure({
+      principal: disclosurePrincipal,
+      annualRate: formData.interestRate,
+      amortizationYears: formData.amortizationYears,
+      termYears: Math.min(formData.termYears ?? 5, formData.amortizationYears),
+      frequency: formData.frequency,
+      fundingDate: fundingDate ?? new Date(),
+      fees: {
+        appraisalFee: formData.appraisalFee,
+        brokerFee: formData.brokerFee,
+        insurancePremium: insurance?.premium
+      }
+    }) : undefined;
+
+    // A mixed mortgage qualifies on the combined payment of its segments, each
+    // stress tested at its own qualifying rate
+    const mixedMortgage = formData.segments?.length
+      ? analyzeMixedMortgage({
+          segments: formData.segments,
+          frequency: formData.frequency,
+          grossAnnualIncome: income,
+          monthlyDebts: debts,
+          policy
+        })
+      : undefined;
+
+    // Calculate affordability
+    const affordability = mixedMortgage
+      ? mixedMortgage.affordability
+      : calculateAffordability(
+          formData.principal,
+          formData.interestRate,
+          formData.amortizationYears,
+          formData.frequency,
+          income,
+          debts,
+          0,
+          0,
+          0,
+          policy
+        );
+
+    // Store form data for later save, with the qualifying figures actually used
+    setCurrentFormData({
+      ...formData,
+      grossAnnualIncome: affordability.grossAnnualIncome,
+      monthlyDebts: affordability.monthlyDebts,
+      startDate: interestAdjustment?.interestAdjustmentDate
+    });
+
+    // Perform stress test (per segment for a mixed mortgage, above)
+    const stressTest = mixedMortgage
+      ? undefined
+      : performStressTest(
+          formData.principal,
+          formData.interestRate,
+          formData.amortizationYears,
+          formData.frequency,
+          income,
+          debts,
+          0,
+          0,
+          0,
+          policy
+        );
 
     // Generate sensitivity analysis data
     const sensitivityData = generateSensitivityAnalysis(
@@ -112,6 +255,62 @@ export default function Home() {
       formData.frequency
     );
 
+    // Two-way grids showing where the client stops qualifying
+    const gridScenario: GoalSeekScenario = {
+      principal: formData.principal,
+      ...(input.purchasePrice && {
+        purchasePrice: input.purchasePrice,
+        downPayment: input.downPayment ?? 0,
+        province: input.province
+      }),
+      annualRate: formData.interestRate,
+      amortizationYears: formData.amortizationYears,
+      frequency: formData.frequency,
+      grossAnnualIncome: affordability.grossAnnualIncome,
+      monthlyDebts: affordability.monthlyDebts
+    };
+    const rateAxis = {
+      variable: 'annualRate' as const,
+      values: generateGridAxisValues(formData.interestRate, 0.5, 4, 0.5)
+    };
+    const incomeStep = Math.max(5000, Math.round(affordability.grossAnnualIncome / 10 / 5000) * 5000);
+    const sensitivityGrids = [
+      generateSensitivityGrid({
+        scenario: gridScenario,
+        x: rateAxis,
+        y: {
+          variable: 'amortizationYears',
+          values: generateGridAxisValues(formData.amortizationYears, 5, 2, 5)
+        },
+        policy
+      }),
+      generateSensitivityGrid({
+        scenario: gridScenario,
+        x: rateAxis,
+        y: {
+          variable: 'grossAnnualIncome',
+          values: generateGridAxisValues(affordability.grossAnnualIncome, incomeStep, 3, incomeStep)
+        },
+        policy
+      }),
+      ...(input.purchasePrice
+        ? [
+            generateSensitivityGrid({
+              scenario: gridScenario,
+              x: {
+                variable: 'purchasePrice',
+                values: generateGridAxisValues(input.purchasePrice, 25000, 4, 25000)
+              },
+              y: {
+                variable: 'downPayment',
+                values: generateGridAxisValues(input.downPayment ?? 0, 10000, 3)
+              },
+              policy
+            })
+          ]
+        : [])
+    ];
+
     // Generate amortization schedule
     const amortizationData = generateYearlyAmortizationSummary(
       formData.principal,
@@ -120,6 +319,21 @@ export default function Home() {
       formData.frequency
     );
 
+    // Re-run the schedule with prepayments when any were entered
+    const prepayments: PrepaymentOptions = {
+      ...(formData.annualLumpSum && { annualLumpSum: { amount: formData.annualLumpSum } }),
+      ...(formData.paymentIncrease && { paymentIncrease: formData.paymentIncrease })
+    };
+    const prepaymentAmortizationData = Object.keys(prepayments).length > 0
+      ? generateYearlyAmortizationSummary(
+          formData.principal,
+          formData.interestRate,
+          formData.amortizationYears,
+          formData.frequency,
+          prepayments
+        )
+      : undefined;
+
     // Compare different amortization periods
     const comparisonData = compareAmortizationPeriods(
       formData.principal,
@@ -127,12 +341,93 @@ export default function Home() {
       formData.frequency
     );
 
+    // Compare all payment frequencies (true payoff for accelerated payments)
+    const frequencyComparison = comparePaymentFrequencies(
+      formData.principal,
+      formData.interestRate,
+      formData.amortizationYears,
+      interestAdjustment?.interestAdjustmentDate
+    );
+
+    // Probabilistic view of payments at each renewal
+    const renewalRisk = simulateRenewalRisk({
+      principal: formData.principal,
+      annualRate: formData.interestRate,
+      amortizationYears: formData.amortizationYears,
+      frequency: formData.frequency,
+      termYears: formData.termYears ?? 5,
+      comfortLimit: formData.paymentComfortLimit || undefined
+    });
+
+    // Fixed vs. variable over the term, with prime held at today's rate
+    const breakevenStart = interestAdjustment?.interestAdjustmentDate ?? new Date();
+    const rateBreakeven = formData.primeRate
+      ? calculateRateBreakeven({
+          principal: formData.principal,
+          amortizationYears: formData.amortizationYears,
+          frequency: formData.frequency,
+          termYears: formData.termYears ?? 5,
+          fixedRate: formData.interestRate,
+          primeRatePath: [{ date: breakevenStart, primeRate: formData.primeRate }],
+          discountToPrime: formData.variableDiscount ?? 0,
+          startDate: breakevenStart
+        })
+      : undefined;
+
+    // Net worth from buying vs. renting and investing the down payment
+    const rentVsBuy = input.purchasePrice && formData.monthlyRent
+      ? compareRentVsBuy({
+          purchasePrice: input.purchasePrice,
+          downPayment: input.downPayment ?? 0,
+          province: input.province,
+          annualRate: formData.interestRate,
+          amortizationYears: formData.amortizationYears,
+          frequency: formData.frequency,
+          closingCosts: closingCosts.totalClosingCosts,
+          monthlyRent: formData.monthlyRent,
+          startDate: interestAdjustment?.interestAdjustmentDate,
+          policy
+        })
+      : undefined;
+
+    // Cash flow and qualification when the purchase is a rental
+    const investmentProperty = input.purchasePrice && formData.rentalUnits?.length
+      ? analyzeInvestmentProperty({
+          purchasePrice: input.purchasePrice,
+          downPayment: input.downPayment ?? 0,
+          annualRate: formData.interestRate,
+          amortizationYears: formData.amortizationYears,
+          frequency: formData.frequency,
+          units: formData.rentalUnits,
+          vacancyPercent: formData.vacancyPercent,
+          operatingExpenses: formData.operatingExpenses,
+          managementFeePercent: formData.managementFeePercent,
+          closingCosts: closingCosts.totalClosingCosts,
+          rentalMethod: formData.rentalMethod,
+          grossAnnualIncome: income,
+          monthlyDebts: debts,
+          policy
+        })
+      : undefined;
+
     setResults({
       affordability,
       stressTest,
+      mixedMortgage,
       sensitivityData,
+      sensitivityGrids,
       amortizationData,
+      prepaymentAmortizationData,
       comparisonData,
+      frequencyComparison,
+      renewalRisk,
+      rateBreakeven,
+      rentVsBuy,
+      investmentProperty,
+      insurance,
+      closingCosts,
+      disclosure,
+      policyViolations,
       formData
     });
   };
@@ -156,11 +451,18 @@ export default function Home() {
         clientPhone: clientInfo.phone,
         grossAnnualIncome: currentFormData.grossAnnualIncome,
         monthlyDebts: currentFormData.monthlyDebts,
+        liabilities: currentFormData.liabilities,
+        borrowers: currentFormData.borrowers,
         principal: currentFormData.principal,
         interestRate: currentFormData.interestRate,
         amortizationYears: currentFormData.amortizationYears,
+        termYears: currentFormData.termYears,
+        startDate: currentFormData.startDate,
         paymentFrequency: currentFormData.frequency,
-        mortgageType: 'fixed'
+        mortgageType: currentFormData.segments?.length ? 'mixed' : currentFormData.mortgageType ?? 'fixed',
+        segments: currentFormData.segments?.length ? currentFormData.segments : undefined,
+        policyVersion: currentFormData.policyVersion,
+        assessedAt: currentFormData.policyAsOf ? new Date(currentFormData.policyAsOf) : new Date()
       });
 
       if (result.success) {
@@ -197,13 +499,23 @@ export default function Home() {
     // If client has mortgages, load the latest one
     if (client.mortgages && client.mortgages.length > 0) {
       const mortgage = client.mortgages[0];
+      // Re-assess with the figures the file was saved with; older files
+      // without a snapshot fall back to the client's current figures
+      const qualifying = mortgage.qualifyingSnapshot ?? client;
       handleCalculate({
         principal: mortgage.principal,
         interestRate: mortgage.interestRate,
         amortizationYears: mortgage.amortizationYears,
+        termYears: mortgage.termYears,
+        mortgageType: mortgage.mortgageType,
+        segments: mortgage.segments?.length ? mortgage.segments : undefined,
         frequency: mortgage.paymentFrequency as PaymentFrequency,
-        grossAnnualIncome: client.grossAnnualIncome,
-        monthlyDebts: client.monthlyDebts
+        grossAnnualIncome: qualifying.grossAnnualIncome,
+        monthlyDebts: qualifying.monthlyDebts ?? 0,
+        liabilities: qualifying.liabilities,
+        borrowers: qualifying.borrowers,
+        policyVersion: mortgage.policyVersion ?? undefined,
+        policyAsOf: mortgage.assessedAt
       });
     }
   };
@@ -279,8 +591,16 @@ export default function Home() {
                 <AffordabilityResults
                   affordability={results.affordability}
                   stressTest={results.stressTest}
+                  insurance={results.insurance}
+                  policyViolations={results.policyViolations}
                 />
 
+                {results.mixedMortgage && <MixedMortgageResults analysis={results.mixedMortgage} />}
+
+                {results.investmentProperty && (
+                  <InvestmentPropertyResults analysis={results.investmentProperty} />
+                )}
+
                 {/* Save to Database Button */}
                 <div className="bg-white rounded-lg shadow-md p-6">
                   {saveMessage && (
@@ -326,9 +646,10 @@ export default function Home() {
             )}
           </div>
 
-          {/* Right Column: Client Sidebar */}
-          <div className="lg:col-span-1">
+          {/* Right Column: Client Sidebar and Cash to Close */}
+          <div className="lg:col-span-1 space-y-6">
             <ClientSidebar onClientSelect={handleClientSelect} refreshTrigger={refreshClients} />
+            {results && <ClosingCostsPanel closingCosts={results.closingCosts} />}
           </div>
         </div>
 
@@ -339,8 +660,25 @@ export default function Home() {
               data={results.sensitivityData}
               baseRate={results.formData.interestRate}
             />
-            <AmortizationChart data={results.amortizationData} />
+            <SensitivityHeatmap grids={results.sensitivityGrids} />
+            <AmortizationChart
+              data={results.amortizationData}
+              prepaymentData={results.prepaymentAmortizationData}
+            />
             <AmortizationComparisonChart data={results.comparisonData} />
+            <FrequencyComparisonTable
+              data={results.frequencyComparison}
+              selectedFrequency={results.formData.frequency}
+            />
+            <RenewalRiskPanel risk={results.renewalRisk} />
+            {results.rateBreakeven && (
+              <RateBreakevenChart
+                data={results.rateBreakeven}
+                fixedRate={results.formData.interestRate}
+              />
+            )}
+            {results.rentVsBuy && <RentVsBuyChart data={results.rentVsBuy} />}
+            {results.disclosure && <CostOfBorrowingDisclosure disclosure={results.disclosure} />}
           </div>
         )}
       </div>
@@ -3,6 +3,8 @@
 import {
   AreaChart,
   Area,
+  LineChart,
+  Line,
   XAxis,
   YAxis,
   CartesianGrid,
@@ -10,18 +12,15 @@ import {
   Legend,
   ResponsiveContainer
 } from 'recharts';
+import type { YearlyAmortizationSummary } from '@/types';
 
 interface Props {
-  data: Array<{
-    year: number;
-    principalPaid: number;
-    interestPaid: number;
-    balance: number;
-    totalPaid: number;
-  }>;
+  data: YearlyAmortizationSummary[];
+  // Same summary with prepayments applied; draws the balance comparison
+  prepaymentData?: YearlyAmortizationSummary[];
 }
 
-export default function AmortizationChart({ data }: Props) {
+export default function AmortizationChart({ data, prepaymentData }: Props) {
   // Format currency for tooltip
   const formatCurrency = (value: number) => {
     return `$${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
@@ -49,6 +48,21 @@ export default function AmortizationChart({ data }: Props) {
     return null;
   };
 
+  // Merge both schedules by year for the balance comparison
+  const balanceData = prepaymentData
+    ? data.map(d => ({
+        year: d.year,
+        balance: d.balance,
+        prepaymentBalance:
+          prepaymentData.find(p => p.year === d.year)?.balance ?? 0
+      }))
+    : [];
+
+  const totalInterest = data.reduce((sum, d) => sum + d.interestPaid, 0);
+  const prepaymentTotalInterest = prepaymentData
+    ? prepaymentData.reduce((sum, d) => sum + d.interestPaid, 0)
+    : totalInterest;
+
   return (
     <div className="bg-white rounded-lg shadow-md p-6">
       <h2 className="text-2xl font-bold text-gray-800 mb-4">
@@ -128,6 +142,61 @@ export default function AmortizationChart({ data }: Props) {
           </p>
         </div>
       </div>
+
+      {prepaymentData && (
+        <div className="mt-8">
+          <h3 className="text-lg font-semibold text-gray-800 mb-2">
+            Balance With Prepayments
+          </h3>
+          <ResponsiveContainer width="100%" height={300}>
+            <LineChart data={balanceData} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+              <XAxis
+                dataKey="year"
+                label={{ value: 'Year', position: 'insideBottom', offset: -5 }}
+                stroke="#6b7280"
+              />
+              <YAxis
+                stroke="#6b7280"
+                tickFormatter={(value) => `$${(value / 1000).toFixed(0)}k`}
+              />
+              <Tooltip formatter={(value: number) => formatCurrency(value)} />
+              <Legend />
+              <Line
+                type="monotone"
+                dataKey="balance"
+                stroke="#3b82f6"
+                strokeWidth={2}
+                dot={false}
+                name="Scheduled Balance"
+              />
+              <Line
+                type="monotone"
+                dataKey="prepaymentBalance"
+                stroke="#10b981"
+                strokeWidth={2}
+                dot={false}
+                name="Balance With Prepayments"
+              />
+            </LineChart>
+          </ResponsiveContainer>
+
+          <div className="mt-4 grid grid-cols-2 gap-4">
+            <div className="text-center p-3 bg-green-50 rounded">
+              <p className="text-xs text-gray-600 mb-1">Interest Saved</p>
+              <p className="font-semibold text-green-700">
+                {formatCurrency(totalInterest - prepaymentTotalInterest)}
+              </p>
+            </div>
+            <div className="text-center p-3 bg-blue-50 rounded">
+              <p className="text-xs text-gray-600 mb-1">Paid Off In</p>
+              <p className="font-semibold text-blue-700">
+                {prepaymentData.length} years (vs {data.length})
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
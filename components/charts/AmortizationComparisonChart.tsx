@@ -10,14 +10,10 @@ import {
   Legend,
   ResponsiveContainer
 } from 'recharts';
+import type { AmortizationPeriodComparison } from '@/types';
 
 interface Props {
-  data: Array<{
-    years: number;
-    monthlyPayment: number;
-    totalInterest: number;
-    totalCost: number;
-  }>;
+  data: AmortizationPeriodComparison[];
 }
 
 export default function AmortizationComparisonChart({ data }: Props) {
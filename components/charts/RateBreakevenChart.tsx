@@ -0,0 +1,130 @@
+'use client';
+
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer
+} from 'recharts';
+import type { RateBreakevenResult } from '@/types';
+
+interface Props {
+  data: RateBreakevenResult;
+  fixedRate: number;
+}
+
+export default function RateBreakevenChart({ data, fixedRate }: Props) {
+  // Format currency for tooltip
+  const formatCurrency = (value: number) => {
+    return `$${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+  };
+
+  // Custom tooltip component
+  const CustomTooltip = ({ active, payload }: any) => {
+    if (active && payload && payload.length) {
+      const point = payload[0].payload;
+      return (
+        <div className="bg-white p-4 rounded-lg shadow-lg border border-gray-200">
+          <p className="font-semibold text-gray-800 mb-2">Month {point.month}</p>
+          <p className="text-sm text-blue-600">
+            Fixed: {formatCurrency(point.fixedInterest)} interest, {formatCurrency(point.fixedBalance)} owing
+          </p>
+          <p className="text-sm text-purple-600">
+            Variable: {formatCurrency(point.variableInterest)} interest, {formatCurrency(point.variableBalance)} owing
+          </p>
+          <p className={`text-sm font-semibold ${point.variableSavings > 0 ? 'text-green-600' : 'text-red-600'}`}>
+            Variable savings: {formatCurrency(point.variableSavings)}
+          </p>
+        </div>
+      );
+    }
+    return null;
+  };
+
+  const describeBreakeven = () => {
+    if (data.breakevenMonth === null) return 'Stays cheaper all term';
+    if (data.breakevenMonth === 0) return 'Never cheaper';
+    return `Month ${data.breakevenMonth}`;
+  };
+
+  const describeRateIncrease = () => {
+    if (data.breakevenRateIncrease === null) return 'Out of range';
+    const sign = data.breakevenRateIncrease > 0 ? '+' : '';
+    return `${sign}${data.breakevenRateIncrease.toFixed(2)}%`;
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <h2 className="text-2xl font-bold text-gray-800 mb-4">
+        Fixed vs. Variable Break-Even
+      </h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Fixed at <span className="font-semibold text-blue-600">{fixedRate}%</span> vs. variable starting at{' '}
+        <span className="font-semibold text-purple-600">{data.initialVariableRate}%</span>. Cost is interest
+        paid plus the balance still owing; above zero the variable option is ahead.
+      </p>
+
+      <ResponsiveContainer width="100%" height={350}>
+        <LineChart data={data.points} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+          <XAxis
+            dataKey="month"
+            label={{ value: 'Month', position: 'insideBottom', offset: -5 }}
+            stroke="#6b7280"
+          />
+          <YAxis
+            label={{ value: 'Variable Savings ($)', angle: -90, position: 'insideLeft' }}
+            stroke="#6b7280"
+            tickFormatter={(value) => `$${(value / 1000).toFixed(0)}k`}
+          />
+          <Tooltip content={<CustomTooltip />} />
+          <Legend />
+          <ReferenceLine y={0} stroke="#9ca3af" />
+          {data.breakevenMonth !== null && data.breakevenMonth > 0 && (
+            <ReferenceLine
+              x={data.breakevenMonth}
+              stroke="#ef4444"
+              strokeDasharray="4 4"
+              label={{ value: 'Break-even', position: 'top', fill: '#ef4444' }}
+            />
+          )}
+          <Line
+            type="monotone"
+            dataKey="variableSavings"
+            stroke="#8b5cf6"
+            strokeWidth={3}
+            dot={false}
+            name="Cumulative Variable Savings"
+          />
+        </LineChart>
+      </ResponsiveContainer>
+
+      <div className="mt-4 grid grid-cols-3 gap-4 text-sm">
+        <div className="text-center p-3 bg-blue-50 rounded">
+          <p className="text-gray-600">Savings at Maturity</p>
+          <p className={`font-semibold ${data.totalSavingsVariable > 0 ? 'text-green-700' : 'text-red-700'}`}>
+            {formatCurrency(data.totalSavingsVariable)}
+          </p>
+          <p className="text-xs text-gray-500 mt-1">
+            {formatCurrency(data.monthlyDifference)}/mo lower payment to start
+          </p>
+        </div>
+        <div className="text-center p-3 bg-purple-50 rounded">
+          <p className="text-gray-600">Variable Stops Being Cheaper</p>
+          <p className="font-semibold text-purple-700">{describeBreakeven()}</p>
+          <p className="text-xs text-gray-500 mt-1">of {data.termMonths} months</p>
+        </div>
+        <div className="text-center p-3 bg-red-50 rounded">
+          <p className="text-gray-600">Rate Rise to Break Even</p>
+          <p className="font-semibold text-red-700">{describeRateIncrease()}</p>
+          <p className="text-xs text-gray-500 mt-1">across the whole variable path</p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+'use client';
+
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer
+} from 'recharts';
+import type { RentVsBuyResult } from '@/types';
+
+interface Props {
+  data: RentVsBuyResult;
+}
+
+export default function RentVsBuyChart({ data }: Props) {
+  // Format currency for tooltip
+  const formatCurrency = (value: number) => {
+    return `$${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+  };
+
+  // Custom tooltip component
+  const CustomTooltip = ({ active, payload }: any) => {
+    if (active && payload && payload.length) {
+      const point = payload[0].payload;
+      return (
+        <div className="bg-white p-4 rounded-lg shadow-lg border border-gray-200">
+          <p className="font-semibold text-gray-800 mb-2">Year {point.year}</p>
+          <p className="text-sm text-blue-600">
+            Owning: {formatCurrency(point.ownerNetWorth)}
+          </p>
+          <p className="text-xs text-gray-500 ml-2">
+            Equity {formatCurrency(point.homeEquity)}, costs {formatCurrency(point.ownerCosts)}/yr
+          </p>
+          <p className="text-sm text-orange-600">
+            Renting: {formatCurrency(point.renterNetWorth)}
+          </p>
+          <p className="text-xs text-gray-500 ml-2">
+            Rent {formatCurrency(point.rent)}/yr
+          </p>
+        </div>
+      );
+    }
+    return null;
+  };
+
+  const finalYear = data.years[data.years.length - 1];
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <h2 className="text-2xl font-bold text-gray-800 mb-4">
+        Rent vs. Buy Net Worth
+      </h2>
+      <p className="text-sm text-gray-600 mb-4">
+        {data.crossoverYear !== null ? (
+          <>
+            Buying pulls ahead in{' '}
+            <span className="font-semibold text-green-600">year {data.crossoverYear}</span>
+          </>
+        ) : (
+          <span className="font-semibold text-orange-600">
+            Renting and investing stays ahead for all {finalYear.year} years
+          </span>
+        )}
+      </p>
+
+      <ResponsiveContainer width="100%" height={400}>
+        <LineChart data={data.years} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+          <XAxis
+            dataKey="year"
+            label={{ value: 'Year', position: 'insideBottom', offset: -5 }}
+            stroke="#6b7280"
+          />
+          <YAxis
+            label={{ value: 'Net Worth ($)', angle: -90, position: 'insideLeft' }}
+            stroke="#6b7280"
+            tickFormatter={(value) => `$${(value / 1000).toFixed(0)}k`}
+          />
+          <Tooltip content={<CustomTooltip />} />
+          <Legend />
+          {data.crossoverYear !== null && (
+            <ReferenceLine
+              x={data.crossoverYear}
+              stroke="#10b981"
+              strokeWidth={2}
+              strokeDasharray="4 4"
+              label={{ value: 'Crossover', position: 'top', fill: '#10b981' }}
+            />
+          )}
+          <Line
+            type="monotone"
+            dataKey="ownerNetWorth"
+            stroke="#3b82f6"
+            strokeWidth={3}
+            dot={false}
+            name="Buy"
+          />
+          <Line
+            type="monotone"
+            dataKey="renterNetWorth"
+            stroke="#f97316"
+            strokeWidth={3}
+            dot={false}
+            name="Rent & Invest"
+          />
+        </LineChart>
+      </ResponsiveContainer>
+
+      <div className="mt-4 grid grid-cols-3 gap-4 text-sm">
+        <div className="text-center p-3 bg-blue-50 rounded">
+          <p className="text-gray-600">Total Owning Costs</p>
+          <p className="font-semibold text-blue-700">{formatCurrency(data.totalOwnerCosts)}</p>
+        </div>
+        <div className="text-center p-3 bg-orange-50 rounded">
+          <p className="text-gray-600">Total Rent</p>
+          <p className="font-semibold text-orange-700">{formatCurrency(data.totalRent)}</p>
+        </div>
+        <div className={`text-center p-3 rounded ${data.finalDifference >= 0 ? 'bg-green-50' : 'bg-red-50'}`}>
+          <p className="text-gray-600">Buying Ahead By (Year {finalYear.year})</p>
+          <p className={`font-semibold ${data.finalDifference >= 0 ? 'text-green-700' : 'text-red-700'}`}>
+            {formatCurrency(data.finalDifference)}
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+'use client';
+
+import { useState } from 'react';
+import type { GoalSeekVariable, SensitivityGrid, SensitivityGridCell } from '@/types';
+
+interface Props {
+  grids: SensitivityGrid[];
+}
+
+const VARIABLE_LABELS: Record<GoalSeekVariable, string> = {
+  principal: 'Mortgage Amount',
+  purchasePrice: 'Purchase Price',
+  downPayment: 'Down Payment',
+  grossAnnualIncome: 'Annual Income',
+  monthlyDebts: 'Monthly Debts',
+  annualRate: 'Interest Rate',
+  amortizationYears: 'Amortization'
+};
+
+export default function SensitivityHeatmap({ grids }: Props) {
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const grid = grids[Math.min(selectedIndex, grids.length - 1)];
+
+  if (!grid) return null;
+
+  // Format an axis value for its variable
+  const formatValue = (variable: GoalSeekVariable, value: number) => {
+    switch (variable) {
+      case 'annualRate':
+        return `${value}%`;
+      case 'amortizationYears':
+        return `${value} yrs`;
+      default:
+        return value >= 1000 ? `$${(value / 1000).toLocaleString()}k` : `$${value.toLocaleString()}`;
+    }
+  };
+
+  const formatCurrency = (value: number) => {
+    return `$${Math.round(value).toLocaleString()}`;
+  };
+
+  // Green qualifies, amber passes at the contract rate but fails the stress
+  // test, red fails outright
+  const getCellClass = (cell: SensitivityGridCell) => {
+    if (cell.qualifies) return 'bg-green-100 text-green-900';
+    if (cell.passesGds && cell.passesTds && cell.meetsMinimumDownPayment) {
+      return 'bg-yellow-100 text-yellow-900';
+    }
+    return 'bg-red-100 text-red-900';
+  };
+
+  const getCellTitle = (cell: SensitivityGridCell) => {
+    const lines = [
+      `${VARIABLE_LABELS[grid.xVariable]}: ${formatValue(grid.xVariable, cell.x)}`,
+      `${VARIABLE_LABELS[grid.yVariable]}: ${formatValue(grid.yVariable, cell.y)}`,
+      `Payment: ${formatCurrency(cell.monthlyPayment)}/mo`,
+      `GDS / TDS: ${cell.gdsRatio}% / ${cell.tdsRatio}%`,
+      `Stress test GDS / TDS: ${cell.stressGdsRatio}% / ${cell.stressTdsRatio}%`
+    ];
+    if (!cell.meetsMinimumDownPayment) lines.push('Below minimum down payment');
+    return lines.join('\n');
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <h2 className="text-2xl font-bold text-gray-800 mb-4">
+        Qualification Heatmap
+      </h2>
+
+      {grids.length > 1 && (
+        <div className="flex flex-wrap gap-2 mb-4">
+          {grids.map((option, index) => (
+            <button
+              key={`${option.xVariable}-${option.yVariable}`}
+              onClick={() => setSelectedIndex(index)}
+              className={`px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+                option === grid
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {VARIABLE_LABELS[option.xVariable]} × {VARIABLE_LABELS[option.yVariable]}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-xs border-separate border-spacing-1">
+          <thead>
+            <tr>
+              <th className="p-2 text-left text-gray-600 font-medium">
+                {VARIABLE_LABELS[grid.yVariable]} ↓ / {VARIABLE_LABELS[grid.xVariable]} →
+              </th>
+              {grid.xValues.map(x => (
+                <th
+                  key={x}
+                  className={`p-2 text-center font-medium ${
+                    x === grid.baseX ? 'text-blue-700' : 'text-gray-600'
+                  }`}
+                >
+                  {formatValue(grid.xVariable, x)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {grid.cells.map((row, rowIndex) => (
+              <tr key={grid.yValues[rowIndex]}>
+                <th
+                  className={`p-2 text-left font-medium ${
+                    grid.yValues[rowIndex] === grid.baseY ? 'text-blue-700' : 'text-gray-600'
+                  }`}
+                >
+                  {formatValue(grid.yVariable, grid.yValues[rowIndex])}
+                </th>
+                {row.map(cell => (
+                  <td
+                    key={cell.x}
+                    title={getCellTitle(cell)}
+                    className={`p-2 text-center rounded ${getCellClass(cell)} ${
+                      cell.x === grid.baseX && cell.y === grid.baseY ? 'ring-2 ring-blue-600' : ''
+                    }`}
+                  >
+                    <div className="font-semibold">{formatCurrency(cell.monthlyPayment)}</div>
+                    <div className="opacity-75">{cell.gdsRatio}/{cell.tdsRatio}</div>
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="mt-4 flex flex-wrap gap-4 text-sm text-gray-600">
+        <span className="flex items-center gap-2">
+          <span className="w-4 h-4 rounded bg-green-100 border border-green-300" /> Qualifies
+        </span>
+        <span className="flex items-center gap-2">
+          <span className="w-4 h-4 rounded bg-yellow-100 border border-yellow-300" /> Fails stress test only
+        </span>
+        <span className="flex items-center gap-2">
+          <span className="w-4 h-4 rounded bg-red-100 border border-red-300" /> Does not qualify
+        </span>
+        <span className="flex items-center gap-2">
+          <span className="w-4 h-4 rounded ring-2 ring-blue-600" /> Current scenario
+        </span>
+      </div>
+      <p className="mt-2 text-xs text-gray-500">
+        Cells show the monthly payment and GDS/TDS (%); hover for stress-test ratios
+      </p>
+    </div>
+  );
+}
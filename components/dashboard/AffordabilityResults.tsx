@@ -1,18 +1,88 @@
 'use client';
 
-import type { AffordabilityResult, StressTestResult } from '@/types';
+import type {
+  AffordabilityResult,
+  StressTestResult,
+  MortgageInsuranceResult
+} from '@/types';
 
 interface Props {
   affordability: AffordabilityResult;
-  stressTest: StressTestResult;
+  stressTest?: StressTestResult; // Omitted when the stress test is shown elsewhere (mixed mortgages)
+  insurance?: MortgageInsuranceResult;
+  policyViolations?: string[];
 }
 
-export default function AffordabilityResults({ affordability, stressTest }: Props) {
+export default function AffordabilityResults({
+  affordability,
+  stressTest,
+  insurance,
+  policyViolations = []
+}: Props) {
   return (
     <div className="space-y-6">
+      {/* Mortgage Insurance */}
+      {insurance && (
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <h2 className="text-2xl font-bold text-gray-800 mb-4">Down Payment &amp; Insurance</h2>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div>
+              <p className="text-sm text-gray-600">Down Payment</p>
+              <p className="text-xl font-semibold text-gray-900">
+                ${insurance.downPayment.toLocaleString()}
+              </p>
+              <p className="text-xs text-gray-500 mt-1">
+                {insurance.downPaymentPercent}% (min ${insurance.minimumDownPayment.toLocaleString()})
+              </p>
+            </div>
+            <div>
+              <p className="text-sm text-gray-600">Loan-to-Value</p>
+              <p className="text-xl font-semibold text-gray-900">{insurance.ltv}%</p>
+              <p className="text-xs text-gray-500 mt-1">
+                {insurance.isHighRatio ? 'High ratio (insured)' : 'Conventional'}
+              </p>
+            </div>
+            <div>
+              <p className="text-sm text-gray-600">Insurance Premium</p>
+              <p className="text-xl font-semibold text-gray-900">
+                ${insurance.premium.toLocaleString()}
+              </p>
+              <p className="text-xs text-gray-500 mt-1">
+                {insurance.premiumRate}% · tax ${insurance.premiumTax.toLocaleString()} due at closing
+              </p>
+            </div>
+            <div>
+              <p className="text-sm text-gray-600">Insured Principal</p>
+              <p className="text-xl font-semibold text-blue-600">
+                ${insurance.insuredPrincipal.toLocaleString()}
+              </p>
+            </div>
+          </div>
+
+          {(!insurance.meetsMinimumDownPayment || (insurance.isHighRatio && !insurance.isInsurable)) && (
+            <div className="mt-4 p-3 rounded-md bg-red-50 border border-red-200">
+              <p className="text-sm text-red-800">
+                {!insurance.meetsMinimumDownPayment
+                  ? `Down payment is below the minimum of $${insurance.minimumDownPayment.toLocaleString()}`
+                  : 'This purchase cannot be insured; a 20% down payment is required'}
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Affordability Summary */}
       <div className="bg-white rounded-lg shadow-md p-6">
-        <h2 className="text-2xl font-bold text-gray-800 mb-4">Affordability Analysis</h2>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-2xl font-bold text-gray-800">Affordability Analysis</h2>
+          <span
+            className="px-2 py-1 rounded text-xs font-semibold bg-blue-100 text-blue-800"
+            title={`Policy version ${affordability.policyVersion}`}
+          >
+            {affordability.policyName}
+          </span>
+        </div>
 
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
           {/* GDS Ratio */}
@@ -92,6 +162,14 @@ export default function AffordabilityResults({ affordability, stressTest }: Prop
           </div>
         </div>
 
+        {policyViolations.length > 0 && (
+          <div className="mt-6 p-3 rounded-md bg-red-50 border border-red-200">
+            {policyViolations.map(violation => (
+              <p key={violation} className="text-sm text-red-800">✗ {violation}</p>
+            ))}
+          </div>
+        )}
+
         {/* Overall Result */}
         <div className={`mt-6 p-4 rounded-lg ${
           affordability.isAffordable
@@ -109,65 +187,67 @@ export default function AffordabilityResults({ affordability, stressTest }: Prop
       </div>
 
       {/* Stress Test Results */}
-      <div className="bg-white rounded-lg shadow-md p-6">
-        <h2 className="text-2xl font-bold text-gray-800 mb-4">Stress Test Results</h2>
+      {stressTest && (
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <h2 className="text-2xl font-bold text-gray-800 mb-4">Stress Test Results</h2>
 
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-          <div>
-            <p className="text-sm text-gray-600 mb-1">Contract Rate</p>
-            <p className="text-xl font-bold text-gray-900">{stressTest.contractRate}%</p>
-            <p className="text-sm text-gray-600 mt-2">Monthly Payment</p>
-            <p className="text-2xl font-bold text-blue-600">
-              ${stressTest.monthlyPaymentAtContract.toLocaleString()}
-            </p>
-          </div>
-
-          <div>
-            <p className="text-sm text-gray-600 mb-1">Stress Test Rate (+2%)</p>
-            <p className="text-xl font-bold text-gray-900">{stressTest.stressRate}%</p>
-            <p className="text-sm text-gray-600 mt-2">Monthly Payment</p>
-            <p className="text-2xl font-bold text-orange-600">
-              ${stressTest.monthlyPaymentAtStress.toLocaleString()}
-            </p>
-          </div>
-        </div>
-
-        <div className="mt-6 pt-6 border-t border-gray-200">
-          <div className="grid grid-cols-2 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             <div>
-              <p className="text-sm text-gray-600">Max at Contract Rate</p>
-              <p className="text-xl font-semibold text-gray-900">
-                ${stressTest.maxMortgageAtContract.toLocaleString()}
+              <p className="text-sm text-gray-600 mb-1">Contract Rate</p>
+              <p className="text-xl font-bold text-gray-900">{stressTest.contractRate}%</p>
+              <p className="text-sm text-gray-600 mt-2">Monthly Payment</p>
+              <p className="text-2xl font-bold text-blue-600">
+                ${stressTest.monthlyPaymentAtContract.toLocaleString()}
               </p>
             </div>
+
             <div>
-              <p className="text-sm text-gray-600">Max at Stress Rate</p>
-              <p className="text-xl font-semibold text-gray-900">
-                ${stressTest.maxMortgageAtStress.toLocaleString()}
+              <p className="text-sm text-gray-600 mb-1">Qualifying Rate ({stressTest.policyName})</p>
+              <p className="text-xl font-bold text-gray-900">{stressTest.stressRate}%</p>
+              <p className="text-sm text-gray-600 mt-2">Monthly Payment</p>
+              <p className="text-2xl font-bold text-orange-600">
+                ${stressTest.monthlyPaymentAtStress.toLocaleString()}
               </p>
             </div>
           </div>
-        </div>
 
-        <div className={`mt-6 p-4 rounded-lg ${
-          stressTest.passesStressTest
-            ? 'bg-green-50 border-2 border-green-200'
-            : 'bg-orange-50 border-2 border-orange-200'
-        }`}>
-          <p className={`text-center font-semibold ${
-            stressTest.passesStressTest ? 'text-green-800' : 'text-orange-800'
+          <div className="mt-6 pt-6 border-t border-gray-200">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <p className="text-sm text-gray-600">Max at Contract Rate</p>
+                <p className="text-xl font-semibold text-gray-900">
+                  ${stressTest.maxMortgageAtContract.toLocaleString()}
+                </p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-600">Max at Stress Rate</p>
+                <p className="text-xl font-semibold text-gray-900">
+                  ${stressTest.maxMortgageAtStress.toLocaleString()}
+                </p>
+              </div>
+            </div>
+          </div>
+
+          <div className={`mt-6 p-4 rounded-lg ${
+            stressTest.passesStressTest
+              ? 'bg-green-50 border-2 border-green-200'
+              : 'bg-orange-50 border-2 border-orange-200'
           }`}>
-            {stressTest.passesStressTest
-              ? '✓ Passes Stress Test'
-              : '⚠ Does Not Pass Stress Test'}
-          </p>
-          {!stressTest.passesStressTest && (
-            <p className="text-center text-sm text-orange-700 mt-2">
-              Borrower may not qualify under current regulations
+            <p className={`text-center font-semibold ${
+              stressTest.passesStressTest ? 'text-green-800' : 'text-orange-800'
+            }`}>
+              {stressTest.passesStressTest
+                ? '✓ Passes Stress Test'
+                : '⚠ Does Not Pass Stress Test'}
             </p>
-          )}
+            {!stressTest.passesStressTest && (
+              <p className="text-center text-sm text-orange-700 mt-2">
+                Borrower may not qualify under current regulations
+              </p>
+            )}
+          </div>
         </div>
-      </div>
+      )}
     </div>
   );
 }
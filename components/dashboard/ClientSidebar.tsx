@@ -1,7 +1,19 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { calculateAffordability } from '@/lib/math';
+import {
+  analyzeMixedMortgage,
+  calculateAffordability,
+  getPolicyProfile,
+  getPolicyVersion
+} from '@/lib/math';
+import type {
+  Borrower,
+  Liability,
+  MortgageSegment,
+  PaymentFrequency,
+  QualifyingSnapshot
+} from '@/types';
 
 interface Client {
   id: string;
@@ -9,14 +21,22 @@ interface Client {
   email: string;
   phone: string;
   grossAnnualIncome: number;
-  monthlyDebts: number;
+  monthlyDebts: number | null; // Null when itemized as liabilities
+  liabilities?: Liability[];
+  borrowers?: Borrower[];
   createdAt: string;
   mortgages: Array<{
     id: string;
     principal: number;
     interestRate: number;
     amortizationYears: number;
+    termYears: number;
+    startDate: string;
     paymentFrequency: string;
+    policyVersion: string | null;
+    assessedAt: string;
+    qualifyingSnapshot: QualifyingSnapshot | null;
+    segments?: MortgageSegment[];
   }>;
 }
 
@@ -58,14 +78,36 @@ export default function ClientSidebar({ onClientSelect, refreshTrigger }: Props)
     }
 
     const latestMortgage = client.mortgages[0];
-    const affordability = calculateAffordability(
-      latestMortgage.principal,
-      latestMortgage.interestRate,
-      latestMortgage.amortizationYears,
-      latestMortgage.paymentFrequency as any,
-      client.grossAnnualIncome,
-      client.monthlyDebts
-    );
+    // Re-assess under the policy version the file was saved with
+    const policy =
+      (latestMortgage.policyVersion && getPolicyVersion(latestMortgage.policyVersion)) ||
+      getPolicyProfile('standard', new Date(latestMortgage.assessedAt));
+    // Use the figures the file was assessed with (client's current ones on older files)
+    const qualifying = latestMortgage.qualifyingSnapshot ?? client;
+    const income = qualifying.borrowers?.length ? qualifying.borrowers : qualifying.grossAnnualIncome;
+    const debts = qualifying.liabilities?.length ? qualifying.liabilities : qualifying.monthlyDebts ?? 0;
+    const frequency = latestMortgage.paymentFrequency as PaymentFrequency;
+    // A mixed mortgage qualifies on the combined payment of its segments
+    const affordability = latestMortgage.segments?.length
+      ? analyzeMixedMortgage({
+          segments: latestMortgage.segments,
+          frequency,
+          grossAnnualIncome: income,
+          monthlyDebts: debts,
+          policy
+        }).affordability
+      : calculateAffordability(
+          latestMortgage.principal,
+          latestMortgage.interestRate,
+          latestMortgage.amortizationYears,
+          frequency,
+          income,
+          debts,
+          0,
+          0,
+          0,
+          policy
+        );
 
     if (affordability.isAffordable) {
       return { status: 'Pass', color: 'green' };
@@ -155,7 +197,11 @@ export default function ClientSidebar({ onClientSelect, refreshTrigger }: Props)
                     <p className="text-xs text-gray-500 mt-1">{client.email}</p>
                     <div className="mt-2 flex items-center space-x-4 text-xs text-gray-600">
                       <span>Income: ${client.grossAnnualIncome.toLocaleString()}</span>
-                      <span>Debts: ${client.monthlyDebts.toLocaleString()}/mo</span>
+                      <span>
+                        {client.monthlyDebts !== null
+                          ? `Debts: $${client.monthlyDebts.toLocaleString()}/mo`
+                          : `Debts: ${client.liabilities?.length ?? 0} liabilities`}
+                      </span>
                     </div>
                   </div>
                   <span
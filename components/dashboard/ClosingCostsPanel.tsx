@@ -0,0 +1,85 @@
+'use client';
+
+import type { ClosingCostResult } from '@/types';
+
+interface Props {
+  closingCosts: ClosingCostResult;
+}
+
+export default function ClosingCostsPanel({ closingCosts }: Props) {
+  const { landTransferTax } = closingCosts;
+
+  // Format currency for display
+  const formatCurrency = (value: number) => {
+    return `$${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+  };
+
+  const rows: Array<{ label: string; value: number; hidden?: boolean }> = [
+    { label: `Land Transfer Tax (${landTransferTax.province})`, value: landTransferTax.provincialTax },
+    {
+      label: 'Toronto Municipal LTT',
+      value: landTransferTax.municipalTax,
+      hidden: landTransferTax.municipalTax === 0
+    },
+    {
+      label: 'First-Time Buyer Rebate',
+      value: -landTransferTax.firstTimeBuyerRebate,
+      hidden: landTransferTax.firstTimeBuyerRebate === 0
+    },
+    { label: 'Legal Fees', value: closingCosts.legalFees },
+    { label: 'Title Insurance', value: closingCosts.titleInsurance },
+    { label: 'Home Inspection', value: closingCosts.inspection },
+    { label: 'Adjustments', value: closingCosts.adjustments },
+    {
+      label: 'Insurance Premium Tax',
+      value: closingCosts.premiumTax,
+      hidden: closingCosts.premiumTax === 0
+    },
+    {
+      label: 'Interest Adjustment',
+      value: closingCosts.interestAdjustment,
+      hidden: closingCosts.interestAdjustment === 0
+    }
+  ];
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <h2 className="text-2xl font-bold text-gray-800 mb-4">Cash to Close</h2>
+
+      <div className="space-y-2">
+        {rows
+          .filter(row => !row.hidden)
+          .map(row => (
+            <div key={row.label} className="flex items-center justify-between text-sm">
+              <span className="text-gray-600">{row.label}</span>
+              <span className={row.value < 0 ? 'text-green-600 font-medium' : 'text-gray-900 font-medium'}>
+                {formatCurrency(row.value)}
+              </span>
+            </div>
+          ))}
+      </div>
+
+      <div className="mt-4 pt-4 border-t border-gray-200 space-y-2">
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-gray-600">Total Closing Costs</span>
+          <span className="font-semibold text-gray-900">
+            {formatCurrency(closingCosts.totalClosingCosts)}
+          </span>
+        </div>
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-gray-600">Down Payment</span>
+          <span className="font-semibold text-gray-900">
+            {formatCurrency(closingCosts.downPayment)}
+          </span>
+        </div>
+      </div>
+
+      <div className="mt-4 p-4 rounded-lg bg-blue-50 border-2 border-blue-200">
+        <p className="text-sm text-blue-800">Cash Required to Close</p>
+        <p className="text-2xl font-bold text-blue-900">
+          {formatCurrency(closingCosts.cashToClose)}
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+'use client';
+
+import type { BorrowingCostDisclosure } from '@/types';
+
+interface Props {
+  disclosure: BorrowingCostDisclosure;
+}
+
+const FREQUENCY_LABELS: Record<BorrowingCostDisclosure['frequency'], string> = {
+  monthly: 'Monthly',
+  'semi-monthly': 'Semi-Monthly',
+  'bi-weekly': 'Bi-Weekly',
+  'accelerated-bi-weekly': 'Accelerated Bi-Weekly',
+  weekly: 'Weekly',
+  'accelerated-weekly': 'Accelerated Weekly'
+};
+
+export default function CostOfBorrowingDisclosure({ disclosure }: Props) {
+  // Disclosures show exact amounts, to the cent
+  const formatCurrency = (value: number) => {
+    return `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+  };
+
+  const formatDate = (date: Date) => {
+    return date.toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' });
+  };
+
+  const sections: Array<{ title: string; rows: Array<{ label: string; value: string; hidden?: boolean }> }> = [
+    {
+      title: 'Mortgage',
+      rows: [
+        { label: 'Principal Amount', value: formatCurrency(disclosure.principal) },
+        {
+          label: 'Mortgage Default Insurance Premium',
+          value: formatCurrency(disclosure.insurancePremium),
+          hidden: disclosure.insurancePremium === 0
+        },
+        { label: 'Total Mortgage Amount', value: formatCurrency(disclosure.totalLoanAmount) },
+        { label: 'Interest Rate', value: `${disclosure.annualRate.toFixed(3)}% (compounded semi-annually, not in advance)` },
+        { label: 'Term', value: `${disclosure.termYears} years` },
+        { label: 'Amortization', value: `${disclosure.amortizationYears} years` }
+      ]
+    },
+    {
+      title: 'Dates',
+      rows: [
+        { label: 'Funding Date', value: formatDate(disclosure.fundingDate) },
+        { label: 'Interest Adjustment Date', value: formatDate(disclosure.interestAdjustmentDate) },
+        { label: 'First Payment Date', value: formatDate(disclosure.firstPaymentDate) },
+        { label: 'Last Payment in Term', value: formatDate(disclosure.termEndDate) }
+      ]
+    },
+    {
+      title: 'Payments Over the Term',
+      rows: [
+        {
+          label: `${FREQUENCY_LABELS[disclosure.frequency]} Payment`,
+          value: formatCurrency(disclosure.payment)
+        },
+        { label: 'Number of Payments', value: disclosure.numberOfPayments.toString() },
+        { label: 'Total of All Payments', value: formatCurrency(disclosure.totalPayments) },
+        { label: 'Balance at End of Term', value: formatCurrency(disclosure.balanceAtTermEnd) }
+      ]
+    },
+    {
+      title: 'Cost of Borrowing',
+      rows: [
+        {
+          label: 'Interest Adjustment',
+          value: formatCurrency(disclosure.interestAdjustment),
+          hidden: disclosure.interestAdjustment === 0
+        },
+        { label: 'Total Interest', value: formatCurrency(disclosure.totalInterest) },
+        { label: 'Fees', value: formatCurrency(disclosure.fees), hidden: disclosure.fees === 0 },
+        {
+          label: 'Insurance Premium',
+          value: formatCurrency(disclosure.insurancePremium),
+          hidden: disclosure.insurancePremium === 0
+        },
+        { label: 'Total Cost of Borrowing', value: formatCurrency(disclosure.costOfBorrowing) }
+      ]
+    }
+  ];
+
+  return (
+    <div className="print-area bg-white rounded-lg shadow-md p-6 print:shadow-none">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-2xl font-bold text-gray-800">Cost of Borrowing Disclosure</h2>
+        <button
+          type="button"
+          onClick={() => window.print()}
+          className="text-sm text-blue-600 hover:text-blue-700 font-medium print:hidden"
+        >
+          Print
+        </button>
+      </div>
+
+      <div className="mb-6 p-4 bg-blue-50 rounded-lg text-center">
+        <p className="text-sm text-gray-600">Annual Percentage Rate (APR)</p>
+        <p className="text-3xl font-bold text-blue-700">{disclosure.apr.toFixed(3)}%</p>
+        <p className="text-xs text-gray-500 mt-1">
+          Includes interest, fees and any insurance premium, over the {disclosure.termYears}-year term
+        </p>
+      </div>
+
+      <div className="space-y-6">
+        {sections.map(section => (
+          <div key={section.title}>
+            <h3 className="text-sm font-semibold text-gray-800 uppercase tracking-wide mb-2">
+              {section.title}
+            </h3>
+            <div className="space-y-1">
+              {section.rows
+                .filter(row => !row.hidden)
+                .map(row => (
+                  <div
+                    key={row.label}
+                    className="flex items-center justify-between text-sm border-b border-gray-100 py-1"
+                  >
+                    <span className="text-gray-600">{row.label}</span>
+                    <span className="text-gray-900 font-medium">{row.value}</span>
+                  </div>
+                ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <p className="text-xs text-gray-500 mt-6">
+        The APR is the rate at which the interest adjustment, every payment in the term and the balance
+        owing at the end of the term equal the amount advanced after fees, on their actual dates.
+      </p>
+    </div>
+  );
+}
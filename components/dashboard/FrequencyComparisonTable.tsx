@@ -0,0 +1,81 @@
+'use client';
+
+import type { FrequencyComparison, PaymentFrequency } from '@/types';
+
+interface Props {
+  data: FrequencyComparison[];
+  selectedFrequency?: PaymentFrequency;
+}
+
+const FREQUENCY_LABELS: Record<PaymentFrequency, string> = {
+  monthly: 'Monthly',
+  'semi-monthly': 'Semi-Monthly',
+  'bi-weekly': 'Bi-Weekly',
+  weekly: 'Weekly',
+  'accelerated-bi-weekly': 'Accelerated Bi-Weekly',
+  'accelerated-weekly': 'Accelerated Weekly'
+};
+
+export default function FrequencyComparisonTable({ data, selectedFrequency }: Props) {
+  // Format currency for display
+  const formatCurrency = (value: number) => {
+    return `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+  };
+
+  const formatDate = (date: Date) => {
+    return date.toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <h2 className="text-2xl font-bold text-gray-800 mb-4">
+        Payment Frequency Comparison
+      </h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Accelerated frequencies pay the mortgage off early; savings are measured against monthly payments
+      </p>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="border-b border-gray-200 text-left text-gray-600">
+              <th className="py-2 pr-4 font-medium">Frequency</th>
+              <th className="py-2 pr-4 font-medium text-right">Payment</th>
+              <th className="py-2 pr-4 font-medium text-right">Monthly Equivalent</th>
+              <th className="py-2 pr-4 font-medium text-right">Payments</th>
+              <th className="py-2 pr-4 font-medium text-right">Amortization</th>
+              <th className="py-2 pr-4 font-medium">Payoff Date</th>
+              <th className="py-2 pr-4 font-medium text-right">Total Interest</th>
+              <th className="py-2 font-medium text-right">Interest Saved</th>
+            </tr>
+          </thead>
+          <tbody>
+            {data.map(row => (
+              <tr
+                key={row.frequency}
+                className={`border-b border-gray-100 ${
+                  row.frequency === selectedFrequency ? 'bg-blue-50 font-semibold' : ''
+                }`}
+              >
+                <td className="py-2 pr-4 text-gray-800">{FREQUENCY_LABELS[row.frequency]}</td>
+                <td className="py-2 pr-4 text-right text-gray-900">{formatCurrency(row.payment)}</td>
+                <td className="py-2 pr-4 text-right text-gray-900">{formatCurrency(row.monthlyEquivalent)}</td>
+                <td className="py-2 pr-4 text-right text-gray-900">{row.numberOfPayments}</td>
+                <td className="py-2 pr-4 text-right text-gray-900">{row.effectiveAmortizationYears.toFixed(1)} yrs</td>
+                <td className="py-2 pr-4 text-gray-900">{formatDate(row.payoffDate)}</td>
+                <td className="py-2 pr-4 text-right text-gray-900">{formatCurrency(row.totalInterest)}</td>
+                <td
+                  className={`py-2 text-right ${
+                    row.interestSaved > 0 ? 'text-green-600' : 'text-gray-500'
+                  }`}
+                >
+                  {formatCurrency(row.interestSaved)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
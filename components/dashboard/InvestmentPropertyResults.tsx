@@ -0,0 +1,101 @@
+'use client';
+
+import type { InvestmentPropertyResult } from '@/types';
+
+interface Props {
+  analysis: InvestmentPropertyResult;
+}
+
+export default function InvestmentPropertyResults({ analysis }: Props) {
+  // Format currency for display
+  const formatCurrency = (value: number) => {
+    return `$${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+  };
+
+  const { qualification } = analysis;
+  const dscr = analysis.debtServiceCoverageRatio;
+
+  const incomeLines = [
+    { label: 'Gross Rent', value: analysis.grossAnnualRent },
+    { label: 'Vacancy', value: -analysis.vacancyLoss },
+    { label: 'Management Fees', value: -analysis.managementFees },
+    { label: 'Other Operating Expenses', value: -(analysis.operatingExpenses - analysis.managementFees) },
+    { label: 'Net Operating Income', value: analysis.netOperatingIncome, total: true },
+    { label: 'Mortgage Payments', value: -analysis.annualDebtService },
+    { label: 'Cash Flow', value: analysis.annualCashFlow, total: true }
+  ];
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <h2 className="text-2xl font-bold text-gray-800 mb-4">Investment Property</h2>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        <div>
+          <p className="text-sm text-gray-600">Monthly Cash Flow</p>
+          <p className={`text-xl font-semibold ${analysis.monthlyCashFlow >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+            {formatCurrency(analysis.monthlyCashFlow)}
+          </p>
+          <p className="text-xs text-gray-500 mt-1">
+            After a {formatCurrency(analysis.monthlyPayment)}/mo mortgage payment
+          </p>
+        </div>
+        <div>
+          <p className="text-sm text-gray-600">Cap Rate</p>
+          <p className="text-xl font-semibold text-gray-900">{analysis.capRate}%</p>
+        </div>
+        <div>
+          <p className="text-sm text-gray-600">Cash-on-Cash Return</p>
+          <p className="text-xl font-semibold text-gray-900">
+            {analysis.cashOnCashReturn !== null ? `${analysis.cashOnCashReturn}%` : 'N/A'}
+          </p>
+          <p className="text-xs text-gray-500 mt-1">
+            On {formatCurrency(analysis.cashInvested)} invested
+          </p>
+        </div>
+        <div>
+          <p className="text-sm text-gray-600">DSCR</p>
+          <p className={`text-xl font-semibold ${dscr === null || dscr >= 1 ? 'text-gray-900' : 'text-red-600'}`}>
+            {dscr !== null ? dscr.toFixed(2) : 'N/A'}
+          </p>
+        </div>
+      </div>
+
+      <table className="min-w-full text-sm mb-6">
+        <tbody>
+          {incomeLines.map(line => (
+            <tr
+              key={line.label}
+              className={`border-b border-gray-100 ${line.total ? 'font-semibold text-gray-900' : 'text-gray-700'}`}
+            >
+              <td className="py-1 pr-4">{line.label}</td>
+              <td className="py-1 text-right">{formatCurrency(line.value)}/yr</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div
+        className={`p-4 rounded-lg ${
+          qualification.qualifies ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
+        }`}
+      >
+        <p className="font-semibold">
+          {qualification.qualifies ? 'Qualifies with the rental' : 'Does not qualify with the rental'}
+        </p>
+        <p className="text-sm mt-1">
+          {qualification.rentalMethod === 'add-back'
+            ? `Add-back: ${formatCurrency(qualification.rentalIncomeCounted)}/yr of rent added to income, ` +
+              `${formatCurrency(qualification.rentalMonthlyExpenses)}/mo of rental costs added to debts.`
+            : `Offset: rent netted against ${formatCurrency(qualification.rentalMonthlyExpenses)}/mo of rental ` +
+              `costs, ${qualification.monthlyDebtAdjustment >= 0 ? 'adding' : 'removing'} ` +
+              `${formatCurrency(Math.abs(qualification.monthlyDebtAdjustment))}/mo in debts.`}
+        </p>
+        <p className="text-sm mt-1">
+          TDS {qualification.affordability.tdsRatio.toFixed(2)}% at the contract rate,{' '}
+          {qualification.affordabilityAtStress.tdsRatio.toFixed(2)}% at the {qualification.qualifyingRate}%
+          qualifying rate (limit {qualification.affordabilityAtStress.tdsThreshold}%)
+        </p>
+      </div>
+    </div>
+  );
+}
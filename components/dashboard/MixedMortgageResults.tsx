@@ -0,0 +1,85 @@
+'use client';
+
+import type { MixedMortgageResult } from '@/types';
+
+interface Props {
+  analysis: MixedMortgageResult;
+}
+
+const SEGMENT_TYPE_LABELS = {
+  fixed: 'Fixed',
+  variable: 'Variable',
+  heloc: 'HELOC'
+};
+
+export default function MixedMortgageResults({ analysis }: Props) {
+  // Format currency for display
+  const formatCurrency = (value: number) => {
+    return `$${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+  };
+
+  const { affordabilityAtStress } = analysis;
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <h2 className="text-2xl font-bold text-gray-800 mb-4">Mixed Mortgage Segments</h2>
+
+      <div className="overflow-x-auto mb-6">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="border-b border-gray-200 text-left text-gray-600">
+              <th className="py-2 pr-4">Segment</th>
+              <th className="py-2 pr-4 text-right">Balance</th>
+              <th className="py-2 pr-4 text-right">Rate</th>
+              <th className="py-2 pr-4 text-right">Monthly Payment</th>
+              <th className="py-2 pr-4 text-right">Qualifying Rate</th>
+              <th className="py-2 pr-4 text-right">Qualifying Payment</th>
+              <th className="py-2 text-right">Available Credit</th>
+            </tr>
+          </thead>
+          <tbody>
+            {analysis.segments.map((result, index) => (
+              <tr key={result.segment.id ?? index} className="border-b border-gray-100 text-gray-700">
+                <td className="py-1 pr-4">
+                  {result.segment.label || SEGMENT_TYPE_LABELS[result.segment.type]}
+                </td>
+                <td className="py-1 pr-4 text-right">{formatCurrency(result.segment.principal)}</td>
+                <td className="py-1 pr-4 text-right">{result.segment.annualRate}%</td>
+                <td className="py-1 pr-4 text-right">{formatCurrency(result.monthlyPayment)}</td>
+                <td className="py-1 pr-4 text-right">{result.qualifyingRate}%</td>
+                <td className="py-1 pr-4 text-right">{formatCurrency(result.stressMonthlyPayment)}</td>
+                <td className="py-1 text-right">
+                  {result.availableCredit !== null ? formatCurrency(result.availableCredit) : '—'}
+                </td>
+              </tr>
+            ))}
+            <tr className="font-semibold text-gray-900">
+              <td className="py-1 pr-4">Total</td>
+              <td className="py-1 pr-4 text-right">{formatCurrency(analysis.totalBalance)}</td>
+              <td className="py-1 pr-4" />
+              <td className="py-1 pr-4 text-right">{formatCurrency(analysis.combinedMonthlyPayment)}</td>
+              <td className="py-1 pr-4" />
+              <td className="py-1 pr-4 text-right">{formatCurrency(analysis.combinedStressMonthlyPayment)}</td>
+              <td className="py-1" />
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
+      <div
+        className={`p-4 rounded-lg ${
+          analysis.passesStressTest ? 'bg-green-50 text-green-800' : 'bg-orange-50 text-orange-800'
+        }`}
+      >
+        <p className="font-semibold">
+          {analysis.passesStressTest ? '✓ Passes Stress Test' : '⚠ Does Not Pass Stress Test'}
+        </p>
+        <p className="text-sm mt-1">
+          Every segment at its qualifying rate: GDS {affordabilityAtStress.gdsRatio.toFixed(2)}%
+          (limit {affordabilityAtStress.gdsThreshold}%), TDS {affordabilityAtStress.tdsRatio.toFixed(2)}%
+          (limit {affordabilityAtStress.tdsThreshold}%)
+        </p>
+      </div>
+    </div>
+  );
+}
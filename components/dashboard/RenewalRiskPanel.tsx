@@ -0,0 +1,96 @@
+'use client';
+
+import type { RenewalRiskResult } from '@/types';
+
+interface Props {
+  risk: RenewalRiskResult;
+}
+
+export default function RenewalRiskPanel({ risk }: Props) {
+  // Format currency for display
+  const formatCurrency = (value: number) => {
+    return `$${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+  };
+
+  const formatProbability = (value: number) => {
+    return `${(value * 100).toFixed(1)}%`;
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <h2 className="text-2xl font-bold text-gray-800 mb-4">
+        Renewal Risk
+      </h2>
+      <p className="text-sm text-gray-600 mb-4">
+        {risk.simulations.toLocaleString()} simulated rate paths reverting towards{' '}
+        {risk.model.longTermRate}% (seed {risk.seed}). Ranges show the 10th, 50th and 90th percentiles.
+      </p>
+
+      {risk.comfortLimit !== null && risk.probabilityExceedsComfort !== null && (
+        <div
+          className={`mb-4 p-4 rounded-lg ${
+            risk.probabilityExceedsComfort > 0.25 ? 'bg-red-50 text-red-800' : 'bg-green-50 text-green-800'
+          }`}
+        >
+          <p className="text-sm">
+            Chance the payment rises above {formatCurrency(risk.comfortLimit)}/mo at a renewal
+          </p>
+          <p className="text-2xl font-bold">{formatProbability(risk.probabilityExceedsComfort)}</p>
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="border-b border-gray-200 text-left text-gray-600">
+              <th className="py-2 pr-4 font-medium">Term</th>
+              <th className="py-2 pr-4 font-medium text-right">Rate (P10 / P50 / P90)</th>
+              <th className="py-2 pr-4 font-medium text-right">Monthly Payment (P10 / P50 / P90)</th>
+              {risk.comfortLimit !== null && (
+                <th className="py-2 font-medium text-right">Above Limit</th>
+              )}
+            </tr>
+          </thead>
+          <tbody>
+            {risk.terms.map(term => (
+              <tr key={term.termNumber} className="border-b border-gray-100">
+                <td className="py-2 pr-4 text-gray-800">
+                  {term.termNumber === 1 ? 'Current' : `Renewal ${term.termNumber - 1}`}
+                  <span className="text-xs text-gray-500 ml-1">(year {term.yearsFromStart})</span>
+                </td>
+                <td className="py-2 pr-4 text-right text-gray-900">
+                  {term.annualRate.p10}% / <span className="font-semibold">{term.annualRate.p50}%</span> / {term.annualRate.p90}%
+                </td>
+                <td className="py-2 pr-4 text-right text-gray-900">
+                  {formatCurrency(term.monthlyPayment.p10)} /{' '}
+                  <span className="font-semibold">{formatCurrency(term.monthlyPayment.p50)}</span> /{' '}
+                  {formatCurrency(term.monthlyPayment.p90)}
+                </td>
+                {term.probabilityAboveComfort !== null && (
+                  <td className="py-2 text-right text-gray-900">
+                    {formatProbability(term.probabilityAboveComfort)}
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="mt-4 grid grid-cols-3 gap-4 text-sm">
+        <div className="text-center p-3 bg-green-50 rounded">
+          <p className="text-gray-600">Total Interest P10</p>
+          <p className="font-semibold text-green-700">{formatCurrency(risk.totalInterest.p10)}</p>
+        </div>
+        <div className="text-center p-3 bg-blue-50 rounded">
+          <p className="text-gray-600">Total Interest P50</p>
+          <p className="font-semibold text-blue-700">{formatCurrency(risk.totalInterest.p50)}</p>
+        </div>
+        <div className="text-center p-3 bg-red-50 rounded">
+          <p className="text-gray-600">Total Interest P90</p>
+          <p className="font-semibold text-red-700">{formatCurrency(risk.totalInterest.p90)}</p>
+        </div>
+      </div>
+    </div>
+  );
+}
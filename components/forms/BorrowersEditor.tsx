@@ -0,0 +1,210 @@
+'use client';
+
+import type { Borrower, IncomeSource, IncomeSourceType } from '@/types';
+
+interface Props {
+  borrowers: Borrower[];
+  onChange: (borrowers: Borrower[]) => void;
+}
+
+const INCOME_TYPE_LABELS: Record<IncomeSourceType, string> = {
+  salaried: 'Salaried',
+  hourly: 'Hourly',
+  'bonus-commission': 'Bonus / Commission',
+  'self-employed': 'Self-Employed',
+  pension: 'Pension',
+  rental: 'Rental',
+  'child-benefit': 'Child Benefit'
+};
+
+const EMPTY_INCOME_SOURCE: IncomeSource = {
+  type: 'salaried',
+  annualAmount: 0
+};
+
+function toOptionalNumber(value: string): number | undefined {
+  if (value === '') return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+export default function BorrowersEditor({ borrowers, onChange }: Props) {
+  const updateBorrower = (index: number, changes: Partial<Borrower>) => {
+    onChange(borrowers.map((b, i) => (i === index ? { ...b, ...changes } : b)));
+  };
+
+  const updateSource = (borrowerIndex: number, sourceIndex: number, changes: Partial<IncomeSource>) => {
+    const borrower = borrowers[borrowerIndex];
+    updateBorrower(borrowerIndex, {
+      incomeSources: borrower.incomeSources.map((s, i) => (i === sourceIndex ? { ...s, ...changes } : s))
+    });
+  };
+
+  const inputClass =
+    'w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="md:col-span-2">
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-sm font-medium text-gray-700">Borrowers &amp; Income</label>
+        <button
+          type="button"
+          onClick={() =>
+            onChange([
+              ...borrowers,
+              { name: `Borrower ${borrowers.length + 1}`, incomeSources: [{ ...EMPTY_INCOME_SOURCE }] }
+            ])
+          }
+          className="text-sm text-blue-600 hover:text-blue-700 font-medium"
+        >
+          + Add Borrower
+        </button>
+      </div>
+
+      {borrowers.length === 0 ? (
+        <p className="text-xs text-gray-500">
+          No borrowers entered; the Gross Annual Income figure is used as-is.
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {borrowers.map((borrower, borrowerIndex) => (
+            <div key={borrowerIndex} className="p-3 bg-gray-50 rounded border border-gray-200 space-y-2">
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  placeholder="Borrower name"
+                  value={borrower.name}
+                  onChange={(e) => updateBorrower(borrowerIndex, { name: e.target.value })}
+                  className={inputClass}
+                />
+                <button
+                  type="button"
+                  onClick={() =>
+                    updateBorrower(borrowerIndex, {
+                      incomeSources: [...borrower.incomeSources, { ...EMPTY_INCOME_SOURCE }]
+                    })
+                  }
+                  className="text-xs text-blue-600 hover:text-blue-700 font-medium whitespace-nowrap"
+                >
+                  + Income
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onChange(borrowers.filter((_, i) => i !== borrowerIndex))}
+                  className="text-xs text-red-600 hover:text-red-700 font-medium"
+                >
+                  Remove
+                </button>
+              </div>
+
+              {borrower.incomeSources.map((source, sourceIndex) => (
+                <div key={sourceIndex} className="grid grid-cols-2 md:grid-cols-6 gap-2 items-center">
+                  <select
+                    value={source.type}
+                    onChange={(e) =>
+                      updateSource(borrowerIndex, sourceIndex, { type: e.target.value as IncomeSourceType })
+                    }
+                    className={inputClass}
+                  >
+                    {Object.entries(INCOME_TYPE_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="number"
+                    placeholder={source.type === 'rental' ? 'Annual rent' : 'Annual amount'}
+                    value={source.annualAmount}
+                    onChange={(e) =>
+                      updateSource(borrowerIndex, sourceIndex, { annualAmount: toOptionalNumber(e.target.value) ?? 0 })
+                    }
+                    className={inputClass}
+                    min="0"
+                    step="0.01"
+                  />
+
+                  {(source.type === 'bonus-commission' || source.type === 'self-employed') && (
+                    <input
+                      type="number"
+                      placeholder="Prior year"
+                      value={source.previousYearAmount ?? ''}
+                      onChange={(e) =>
+                        updateSource(borrowerIndex, sourceIndex, { previousYearAmount: toOptionalNumber(e.target.value) })
+                      }
+                      className={inputClass}
+                      min="0"
+                      step="0.01"
+                    />
+                  )}
+
+                  {source.type === 'hourly' && (
+                    <>
+                      <input
+                        type="number"
+                        placeholder="Hourly rate"
+                        value={source.hourlyRate ?? ''}
+                        onChange={(e) =>
+                          updateSource(borrowerIndex, sourceIndex, { hourlyRate: toOptionalNumber(e.target.value) })
+                        }
+                        className={inputClass}
+                        min="0"
+                        step="0.01"
+                      />
+                      <input
+                        type="number"
+                        placeholder="Guaranteed hrs/wk"
+                        value={source.guaranteedHoursPerWeek ?? ''}
+                        onChange={(e) =>
+                          updateSource(borrowerIndex, sourceIndex, { guaranteedHoursPerWeek: toOptionalNumber(e.target.value) })
+                        }
+                        className={inputClass}
+                        min="0"
+                        step="0.5"
+                      />
+                      <input
+                        type="number"
+                        placeholder="Annual overtime"
+                        value={source.overtimeAmount ?? ''}
+                        onChange={(e) =>
+                          updateSource(borrowerIndex, sourceIndex, { overtimeAmount: toOptionalNumber(e.target.value) })
+                        }
+                        className={inputClass}
+                        min="0"
+                        step="0.01"
+                      />
+                    </>
+                  )}
+
+                  {source.type === 'rental' && (
+                    <input
+                      type="number"
+                      placeholder="Monthly expenses"
+                      value={source.monthlyExpenses ?? ''}
+                      onChange={(e) =>
+                        updateSource(borrowerIndex, sourceIndex, { monthlyExpenses: toOptionalNumber(e.target.value) })
+                      }
+                      className={inputClass}
+                      min="0"
+                      step="0.01"
+                    />
+                  )}
+
+                  <button
+                    type="button"
+                    onClick={() =>
+                      updateBorrower(borrowerIndex, {
+                        incomeSources: borrower.incomeSources.filter((_, i) => i !== sourceIndex)
+                      })
+                    }
+                    className="text-xs text-red-600 hover:text-red-700 font-medium text-left"
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+'use client';
+
+import type { Liability, LiabilityType } from '@/types';
+
+interface Props {
+  liabilities: Liability[];
+  onChange: (liabilities: Liability[]) => void;
+}
+
+const LIABILITY_TYPE_LABELS: Record<LiabilityType, string> = {
+  'credit-card': 'Credit Card',
+  'line-of-credit': 'Line of Credit',
+  'auto-loan': 'Auto Loan',
+  'student-loan': 'Student Loan',
+  'personal-loan': 'Personal Loan',
+  'support-payment': 'Support Payment',
+  other: 'Other'
+};
+
+const EMPTY_LIABILITY: Liability = {
+  type: 'credit-card',
+  balance: 0,
+  monthlyPayment: 0,
+  toBePaidOff: false
+};
+
+function toOptionalNumber(value: string): number | undefined {
+  if (value === '') return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+export default function LiabilitiesEditor({ liabilities, onChange }: Props) {
+  const updateLiability = (index: number, changes: Partial<Liability>) => {
+    onChange(liabilities.map((l, i) => (i === index ? { ...l, ...changes } : l)));
+  };
+
+  const removeLiability = (index: number) => {
+    onChange(liabilities.filter((_, i) => i !== index));
+  };
+
+  const inputClass =
+    'w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="md:col-span-2">
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-sm font-medium text-gray-700">Liabilities</label>
+        <button
+          type="button"
+          onClick={() => onChange([...liabilities, { ...EMPTY_LIABILITY }])}
+          className="text-sm text-blue-600 hover:text-blue-700 font-medium"
+        >
+          + Add Liability
+        </button>
+      </div>
+
+      {liabilities.length === 0 ? (
+        <p className="text-xs text-gray-500">
+          No liabilities entered; the Monthly Debts figure is used as-is.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {liabilities.map((liability, index) => (
+            <div
+              key={index}
+              className="grid grid-cols-2 md:grid-cols-7 gap-2 items-center p-2 bg-gray-50 rounded border border-gray-200"
+            >
+              <select
+                value={liability.type}
+                onChange={(e) => updateLiability(index, { type: e.target.value as LiabilityType })}
+                className={inputClass}
+              >
+                {Object.entries(LIABILITY_TYPE_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+              <input
+                type="number"
+                placeholder="Balance"
+                value={liability.balance}
+                onChange={(e) => updateLiability(index, { balance: toOptionalNumber(e.target.value) ?? 0 })}
+                className={inputClass}
+                min="0"
+                step="0.01"
+              />
+              <input
+                type="number"
+                placeholder="Limit"
+                value={liability.limit ?? ''}
+                onChange={(e) => updateLiability(index, { limit: toOptionalNumber(e.target.value) })}
+                className={inputClass}
+                min="0"
+                step="0.01"
+              />
+              <input
+                type="number"
+                placeholder="Payment"
+                value={liability.monthlyPayment}
+                onChange={(e) => updateLiability(index, { monthlyPayment: toOptionalNumber(e.target.value) ?? 0 })}
+                className={inputClass}
+                min="0"
+                step="0.01"
+              />
+              <input
+                type="number"
+                placeholder="Payments left"
+                value={liability.remainingPayments ?? ''}
+                onChange={(e) => updateLiability(index, { remainingPayments: toOptionalNumber(e.target.value) })}
+                className={inputClass}
+                min="0"
+                step="1"
+              />
+              <label className="flex items-center text-xs text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={liability.toBePaidOff}
+                  onChange={(e) => updateLiability(index, { toBePaidOff: e.target.checked })}
+                  className="mr-1 h-4 w-4 text-blue-600 border-gray-300 rounded"
+                />
+                Pay off
+              </label>
+              <button
+                type="button"
+                onClick={() => removeLiability(index)}
+                className="text-xs text-red-600 hover:text-red-700 font-medium"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,15 +1,61 @@
 'use client';
 
 import { useEffect, useState } from 'react';
-import type { PaymentFrequency } from '@/types';
+import LiabilitiesEditor from '@/components/forms/LiabilitiesEditor';
+import BorrowersEditor from '@/components/forms/BorrowersEditor';
+import RentalUnitsEditor from '@/components/forms/RentalUnitsEditor';
+import {
+  POLICY_PROFILES,
+  calculateQualifyingIncome,
+  calculateQualifyingMonthlyDebts,
+  getPolicyProfile
+} from '@/lib/math';
+import type {
+  Borrower,
+  IncomeRules,
+  Liability,
+  MortgageSegment,
+  MortgageType,
+  PaymentFrequency,
+  PolicyProfileId,
+  Province,
+  RentalUnit
+} from '@/types';
 
 export interface MortgageFormData {
   principal: number;
+  purchasePrice?: number; // When set, the principal is derived from price and down payment
+  downPayment?: number;
+  province?: Province;
+  isFirstTimeBuyer?: boolean;
+  isToronto?: boolean;
   interestRate: number;
   amortizationYears: number;
+  termYears?: number;
+  mortgageType?: MortgageType; // Default fixed; 'mixed' when saved with segments
+  segments?: MortgageSegment[]; // Components of a mixed mortgage, kept when re-opening a saved file
+  fundingDate?: string; // Closing date; interest from here to the IAD is charged at closing
+  appraisalFee?: number; // Disclosed in the cost of borrowing
+  brokerFee?: number;
   frequency: PaymentFrequency;
   grossAnnualIncome: number;
+  borrowers?: Borrower[]; // When present, qualifying income is derived from these
   monthlyDebts: number;
+  liabilities?: Liability[]; // When present, monthly debts are derived from these
+  annualLumpSum?: number;
+  paymentIncrease?: number;
+  paymentComfortLimit?: number; // Highest monthly payment the client is comfortable with at renewal
+  primeRate?: number; // When set, the fixed rate is compared with a variable at prime - discount
+  variableDiscount?: number;
+  monthlyRent?: number; // When set with a purchase price, compares renting with buying
+  rentalUnits?: RentalUnit[]; // When present with a purchase price, analyzes an investment property
+  vacancyPercent?: number;
+  operatingExpenses?: number; // Annual, on the rental
+  managementFeePercent?: number;
+  rentalMethod?: IncomeRules['rentalMethod']; // Defaults to the policy's method
+  policyId?: PolicyProfileId;
+  policyAsOf?: string; // Assess under the rules in effect on this date (default: today)
+  policyVersion?: string; // Exact policy version, set when re-opening a saved file
 }
 
 interface Props {
@@ -17,13 +63,28 @@ interface Props {
   prefillData?: Partial<MortgageFormData>;
 }
 
+const PROVINCES: Province[] = [
+  'AB', 'BC', 'MB', 'NB', 'NL', 'NS', 'NT', 'NU', 'ON', 'PE', 'QC', 'SK', 'YT'
+];
+
 const DEFAULT_FORM_DATA: MortgageFormData = {
   principal: 400000,
+  purchasePrice: 0,
+  downPayment: 0,
+  province: 'ON',
+  isFirstTimeBuyer: false,
+  isToronto: false,
   interestRate: 5.5,
   amortizationYears: 25,
+  termYears: 5,
   frequency: 'monthly',
   grossAnnualIncome: 80000,
-  monthlyDebts: 500
+  borrowers: [],
+  monthlyDebts: 500,
+  liabilities: [],
+  annualLumpSum: 0,
+  paymentIncrease: 0,
+  policyId: 'standard'
 };
 
 function toFiniteNumber(value: string): number {
@@ -52,13 +113,23 @@ export default function MortgageCalculatorForm({ onCalculate, prefillData }: Pro
     onCalculate(formData);
   };
 
-  const handleChange = (field: keyof MortgageFormData, value: string | number) => {
+  const handleChange = (field: keyof MortgageFormData, value: string | number | boolean) => {
     setFormData(prev => ({
       ...prev,
       [field]: value
     }));
   };
 
+  const policy = getPolicyProfile(formData.policyId);
+  const hasBorrowers = (formData.borrowers?.length ?? 0) > 0;
+  const derivedIncome = hasBorrowers
+    ? calculateQualifyingIncome(formData.borrowers ?? [], policy).totalQualifyingIncome
+    : formData.grossAnnualIncome;
+  const hasLiabilities = (formData.liabilities?.length ?? 0) > 0;
+  const derivedMonthlyDebts = hasLiabilities
+    ? calculateQualifyingMonthlyDebts(formData.liabilities ?? [], policy)
+    : formData.monthlyDebts;
+
   return (
     <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-md p-6 space-y-4">
       <h2 className="text-2xl font-bold text-gray-800 mb-4">Mortgage Calculator</h2>
@@ -73,13 +144,87 @@ export default function MortgageCalculatorForm({ onCalculate, prefillData }: Pro
             type="number"
             value={formData.principal}
             onChange={(e) => handleChange('principal', toFiniteNumber(e.target.value))}
-            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
             min="0"
             step="0.01"
+            disabled={!!formData.purchasePrice}
             required
           />
         </div>
 
+        {/* Purchase Price */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Purchase Price ($)
+          </label>
+          <input
+            type="number"
+            value={formData.purchasePrice ?? 0}
+            onChange={(e) => handleChange('purchasePrice', toFiniteNumber(e.target.value))}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            min="0"
+            step="0.01"
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            Leave at 0 to use the mortgage amount directly
+          </p>
+        </div>
+
+        {/* Down Payment */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Down Payment ($)
+          </label>
+          <input
+            type="number"
+            value={formData.downPayment ?? 0}
+            onChange={(e) => handleChange('downPayment', toFiniteNumber(e.target.value))}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            min="0"
+            step="0.01"
+          />
+        </div>
+
+        {/* Province */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Province
+          </label>
+          <select
+            value={formData.province ?? 'ON'}
+            onChange={(e) => handleChange('province', e.target.value as Province)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {PROVINCES.map(province => (
+              <option key={province} value={province}>{province}</option>
+            ))}
+          </select>
+        </div>
+
+        {/* Buyer Details */}
+        <div className="flex items-center space-x-6 md:pt-6">
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={formData.isFirstTimeBuyer ?? false}
+              onChange={(e) => handleChange('isFirstTimeBuyer', e.target.checked)}
+              className="mr-2 h-4 w-4 text-blue-600 border-gray-300 rounded"
+            />
+            First-time buyer
+          </label>
+          {formData.province === 'ON' && (
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={formData.isToronto ?? false}
+                onChange={(e) => handleChange('isToronto', e.target.checked)}
+                className="mr-2 h-4 w-4 text-blue-600 border-gray-300 rounded"
+              />
+              Toronto property
+            </label>
+          )}
+        </div>
+
         {/* Interest Rate */}
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -115,6 +260,70 @@ export default function MortgageCalculatorForm({ onCalculate, prefillData }: Pro
           </select>
         </div>
 
+        {/* Term */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Term (years)
+          </label>
+          <select
+            value={formData.termYears ?? 5}
+            onChange={(e) => handleChange('termYears', parseInt(e.target.value))}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {[1, 2, 3, 4, 5, 7, 10].map(years => (
+              <option key={years} value={years}>{years} {years === 1 ? 'year' : 'years'}</option>
+            ))}
+          </select>
+        </div>
+
+        {/* Funding Date */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Funding / Closing Date
+          </label>
+          <input
+            type="date"
+            value={formData.fundingDate ?? ''}
+            onChange={(e) => handleChange('fundingDate', e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            Interest to the adjustment date is added to closing costs
+          </p>
+        </div>
+
+        {/* Borrowing Fees */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Appraisal Fee ($)
+          </label>
+          <input
+            type="number"
+            value={formData.appraisalFee || ''}
+            onChange={(e) => handleChange('appraisalFee', toFiniteNumber(e.target.value))}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            min="0"
+            step="0.01"
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Broker Fee ($)
+          </label>
+          <input
+            type="number"
+            value={formData.brokerFee || ''}
+            onChange={(e) => handleChange('brokerFee', toFiniteNumber(e.target.value))}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            min="0"
+            step="0.01"
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            Included in the cost-of-borrowing disclosure and APR
+          </p>
+        </div>
+
         {/* Payment Frequency */}
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -142,13 +351,19 @@ export default function MortgageCalculatorForm({ onCalculate, prefillData }: Pro
           </label>
           <input
             type="number"
-            value={formData.grossAnnualIncome}
+            value={derivedIncome}
             onChange={(e) => handleChange('grossAnnualIncome', toFiniteNumber(e.target.value))}
-            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
             min="0"
             step="0.01"
+            disabled={hasBorrowers}
             required
           />
+          {hasBorrowers && (
+            <p className="text-xs text-gray-500 mt-1">
+              Combined qualifying income of the borrowers below
+            </p>
+          )}
         </div>
 
         {/* Monthly Debts */}
@@ -158,14 +373,239 @@ export default function MortgageCalculatorForm({ onCalculate, prefillData }: Pro
           </label>
           <input
             type="number"
-            value={formData.monthlyDebts}
+            value={derivedMonthlyDebts}
             onChange={(e) => handleChange('monthlyDebts', toFiniteNumber(e.target.value))}
-            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
             min="0"
             step="0.01"
+            disabled={hasLiabilities}
             required
           />
+          {hasLiabilities && (
+            <p className="text-xs text-gray-500 mt-1">
+              Qualifying figure derived from the liabilities below
+            </p>
+          )}
         </div>
+
+        <BorrowersEditor
+          borrowers={formData.borrowers ?? []}
+          onChange={(borrowers) => setFormData(prev => ({ ...prev, borrowers }))}
+        />
+
+        <LiabilitiesEditor
+          liabilities={formData.liabilities ?? []}
+          onChange={(liabilities) => setFormData(prev => ({ ...prev, liabilities }))}
+        />
+
+        {/* Qualification Policy */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Qualification Policy
+          </label>
+          <select
+            value={formData.policyId ?? 'standard'}
+            onChange={(e) => handleChange('policyId', e.target.value as PolicyProfileId)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {Object.values(POLICY_PROFILES).map(policy => (
+              <option key={policy.id} value={policy.id}>{policy.name}</option>
+            ))}
+          </select>
+        </div>
+
+        {/* Policy As Of */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Rules As Of
+          </label>
+          <input
+            type="date"
+            value={formData.policyAsOf ?? ''}
+            onChange={(e) => handleChange('policyAsOf', e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            Leave blank to use the rules in effect today
+          </p>
+        </div>
+
+        {/* Annual Lump Sum */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Annual Lump Sum Prepayment ($)
+          </label>
+          <input
+            type="number"
+            value={formData.annualLumpSum ?? 0}
+            onChange={(e) => handleChange('annualLumpSum', toFiniteNumber(e.target.value))}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            min="0"
+            step="0.01"
+          />
+        </div>
+
+        {/* Payment Increase */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Payment Increase ($ per payment)
+          </label>
+          <input
+            type="number"
+            value={formData.paymentIncrease ?? 0}
+            onChange={(e) => handleChange('paymentIncrease', toFiniteNumber(e.target.value))}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            min="0"
+            step="0.01"
+          />
+        </div>
+
+        {/* Payment Comfort Limit */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Comfortable Monthly Payment ($)
+          </label>
+          <input
+            type="number"
+            value={formData.paymentComfortLimit || ''}
+            onChange={(e) => handleChange('paymentComfortLimit', toFiniteNumber(e.target.value))}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            min="0"
+            step="0.01"
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            Optional; used to estimate the chance renewal payments rise above it
+          </p>
+        </div>
+
+        {/* Variable Rate Comparison */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Prime Rate (%)
+          </label>
+          <input
+            type="number"
+            value={formData.primeRate || ''}
+            onChange={(e) => handleChange('primeRate', toFiniteNumber(e.target.value))}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            min="0"
+            step="0.01"
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            Optional; compares the fixed rate with a variable mortgage
+          </p>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Variable Discount to Prime (%)
+          </label>
+          <input
+            type="number"
+            value={formData.variableDiscount ?? 0}
+            onChange={(e) => handleChange('variableDiscount', toFiniteNumber(e.target.value))}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            step="0.01"
+          />
+        </div>
+
+        {/* Rent vs. Buy */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Current Monthly Rent ($)
+          </label>
+          <input
+            type="number"
+            value={formData.monthlyRent || ''}
+            onChange={(e) => handleChange('monthlyRent', toFiniteNumber(e.target.value))}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            min="0"
+            step="0.01"
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            Optional; with a purchase price, compares renting with buying
+          </p>
+        </div>
+
+        {/* Investment Property */}
+        <RentalUnitsEditor
+          units={formData.rentalUnits ?? []}
+          onChange={(rentalUnits) => setFormData(prev => ({ ...prev, rentalUnits }))}
+        />
+
+        {(formData.rentalUnits?.length ?? 0) > 0 && (
+          <>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Vacancy (%)
+              </label>
+              <input
+                type="number"
+                value={formData.vacancyPercent ?? 0}
+                onChange={(e) => handleChange('vacancyPercent', toFiniteNumber(e.target.value))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                min="0"
+                max="100"
+                step="0.1"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Annual Operating Expenses ($)
+              </label>
+              <input
+                type="number"
+                value={formData.operatingExpenses ?? 0}
+                onChange={(e) => handleChange('operatingExpenses', toFiniteNumber(e.target.value))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                min="0"
+                step="0.01"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Property tax, insurance, utilities and repairs on the rental
+              </p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Management Fee (%)
+              </label>
+              <input
+                type="number"
+                value={formData.managementFeePercent ?? 0}
+                onChange={(e) => handleChange('managementFeePercent', toFiniteNumber(e.target.value))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                min="0"
+                max="100"
+                step="0.1"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Of rent collected after vacancy
+              </p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Rental Income Method
+              </label>
+              <select
+                value={formData.rentalMethod ?? ''}
+                onChange={(e) =>
+                  setFormData(prev => ({
+                    ...prev,
+                    rentalMethod: (e.target.value || undefined) as IncomeRules['rentalMethod'] | undefined
+                  }))
+                }
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">Policy default</option>
+                <option value="add-back">Add-back</option>
+                <option value="offset">Offset</option>
+              </select>
+            </div>
+          </>
+        )}
       </div>
 
       <button
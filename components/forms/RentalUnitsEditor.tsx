@@ -0,0 +1,80 @@
+'use client';
+
+import type { RentalUnit } from '@/types';
+
+interface Props {
+  units: RentalUnit[];
+  onChange: (units: RentalUnit[]) => void;
+}
+
+function toFiniteNumber(value: string): number {
+  const n = Number(value);
+  return Number.isFinite(n) ? n : 0;
+}
+
+export default function RentalUnitsEditor({ units, onChange }: Props) {
+  const updateUnit = (index: number, changes: Partial<RentalUnit>) => {
+    onChange(units.map((u, i) => (i === index ? { ...u, ...changes } : u)));
+  };
+
+  const removeUnit = (index: number) => {
+    onChange(units.filter((_, i) => i !== index));
+  };
+
+  const inputClass =
+    'w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="md:col-span-2">
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-sm font-medium text-gray-700">Rental Units</label>
+        <button
+          type="button"
+          onClick={() => onChange([...units, { label: `Unit ${units.length + 1}`, monthlyRent: 0 }])}
+          className="text-sm text-blue-600 hover:text-blue-700 font-medium"
+        >
+          + Add Unit
+        </button>
+      </div>
+
+      {units.length === 0 ? (
+        <p className="text-xs text-gray-500">
+          No units entered; add units to analyze the purchase as an investment property.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {units.map((unit, index) => (
+            <div
+              key={index}
+              className="grid grid-cols-3 gap-2 items-center p-2 bg-gray-50 rounded border border-gray-200"
+            >
+              <input
+                type="text"
+                placeholder="Unit"
+                value={unit.label ?? ''}
+                onChange={(e) => updateUnit(index, { label: e.target.value })}
+                className={inputClass}
+              />
+              <input
+                type="number"
+                placeholder="Monthly rent"
+                value={unit.monthlyRent}
+                onChange={(e) => updateUnit(index, { monthlyRent: toFiniteNumber(e.target.value) })}
+                className={inputClass}
+                min="0"
+                step="0.01"
+              />
+              <button
+                type="button"
+                onClick={() => removeUnit(index)}
+                className="text-xs text-red-600 hover:text-red-700 font-medium"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
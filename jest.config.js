@@ -0,0 +1,11 @@
+const nextJest = require('next/jest');
+
+// Loads next.config and .env, and compiles TypeScript with Next's SWC
+const createJestConfig = nextJest({ dir: './' });
+
+module.exports = createJestConfig({
+  testEnvironment: 'node',
+  moduleNameMapper: {
+    '^@/(.*)$': '<rootDir>/$1'
+  }
+});
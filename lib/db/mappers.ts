@@ -0,0 +1,79 @@
+import type {
+  Borrower,
+  IncomeSource,
+  Liability,
+  MortgageSegment,
+  QualifyingSnapshot
+} from '@/types';
+
+/**
+ * Map an income source to Prisma create data
+ */
+export function toIncomeSourceData(source: IncomeSource) {
+  return {
+    type: source.type,
+    description: source.description ?? null,
+    annualAmount: source.annualAmount,
+    previousYearAmount: source.previousYearAmount ?? null,
+    hourlyRate: source.hourlyRate ?? null,
+    guaranteedHoursPerWeek: source.guaranteedHoursPerWeek ?? null,
+    overtimeAmount: source.overtimeAmount ?? null,
+    monthlyExpenses: source.monthlyExpenses ?? null
+  };
+}
+
+/**
+ * Map a borrower (with income sources) to Prisma create data
+ */
+export function toBorrowerData(borrower: Borrower) {
+  return {
+    name: borrower.name,
+    incomeSources: { create: borrower.incomeSources.map(toIncomeSourceData) }
+  };
+}
+
+/**
+ * Map a liability to Prisma create data
+ */
+export function toLiabilityData(liability: Liability) {
+  return {
+    type: liability.type,
+    description: liability.description ?? null,
+    balance: liability.balance,
+    limit: liability.limit ?? null,
+    monthlyPayment: liability.monthlyPayment,
+    interestRate: liability.interestRate ?? null,
+    remainingPayments: liability.remainingPayments ?? null,
+    toBePaidOff: liability.toBePaidOff ?? false
+  };
+}
+
+/**
+ * Map the qualifying inputs of an assessment to the mortgage's JSON snapshot
+ */
+export function toQualifyingSnapshotData(snapshot: QualifyingSnapshot) {
+  return {
+    grossAnnualIncome: snapshot.grossAnnualIncome,
+    monthlyDebts: snapshot.monthlyDebts,
+    borrowers: snapshot.borrowers.map(borrower => ({
+      name: borrower.name,
+      incomeSources: borrower.incomeSources.map(toIncomeSourceData)
+    })),
+    liabilities: snapshot.liabilities.map(toLiabilityData)
+  };
+}
+
+/**
+ * Map a mortgage segment to Prisma create data
+ */
+export function toSegmentData(segment: MortgageSegment) {
+  return {
+    label: segment.label ?? null,
+    type: segment.type,
+    principal: segment.principal,
+    annualRate: segment.annualRate,
+    amortizationYears: segment.amortizationYears ?? null,
+    termYears: segment.termYears ?? null,
+    creditLimit: segment.creditLimit ?? null
+  };
+}
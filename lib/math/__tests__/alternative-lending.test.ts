@@ -0,0 +1,111 @@
+import {
+  analyzeAlternativeLoan,
+  analyzeCombinedPosition,
+  calculateInterestOnlyPayment
+} from '../alternative-lending';
+import { calculatePayment } from '../payment';
+import type { AlternativeLoanParams } from '@/types';
+
+const startDate = new Date(2025, 0, 1);
+
+const privateSecond: AlternativeLoanParams = {
+  principal: 100000,
+  annualRate: 10,
+  termMonths: 12,
+  repaymentType: 'interest-only',
+  lenderType: 'private',
+  startDate
+};
+
+describe('calculateInterestOnlyPayment', () => {
+  it('charges one period of interest at the loan\'s compounding', () => {
+    expect(calculateInterestOnlyPayment(100000, 10, 12, 12)).toBe(833.33);
+    expect(calculateInterestOnlyPayment(100000, 10, 12)).toBe(816.48);
+  });
+});
+
+describe('analyzeAlternativeLoan', () => {
+  it('repays the whole principal at maturity on an interest-only loan', () => {
+    const result = analyzeAlternativeLoan(privateSecond);
+
+    expect(result.schedule).toHaveLength(12);
+    expect(result.schedule.every(entry => entry.principal === 0)).toBe(true);
+    expect(result.balloonPayment).toBe(100000);
+    expect(result.totalInterest).toBe(9999.96);
+    expect(result.maturityDate).toEqual(new Date(2026, 0, 1));
+  });
+
+  it('compounds private loans monthly and institutional ones semi-annually', () => {
+    const privateLoan = analyzeAlternativeLoan(privateSecond);
+    const institutional = analyzeAlternativeLoan({ ...privateSecond, lenderType: 'institutional' });
+
+    expect(privateLoan.compoundingsPerYear).toBe(12);
+    expect(privateLoan.payment).toBe(833.33);
+    expect(institutional.compoundingsPerYear).toBe(2);
+    expect(institutional.payment).toBe(816.48);
+    expect(analyzeAlternativeLoan({ ...privateSecond, compoundingsPerYear: 2 }).payment).toBe(816.48);
+  });
+
+  it('quotes an APR equal to the contract rate without fees', () => {
+    expect(analyzeAlternativeLoan(privateSecond).effectiveAPR).toBeCloseTo(10, 2);
+  });
+
+  it('raises the APR when fees come off the advance', () => {
+    const result = analyzeAlternativeLoan({ ...privateSecond, lenderFee: 2000, brokerFee: 1000 });
+
+    expect(result.totalFees).toBe(3000);
+    expect(result.netAdvance).toBe(97000);
+    expect(result.costOfBorrowing).toBe(12999.96);
+    // Roughly 10% + 3% of fees over a one-year term
+    expect(result.effectiveAPR).toBeGreaterThan(13);
+    expect(result.effectiveAPR).toBeLessThan(14);
+  });
+
+  it('leaves a balloon when the term is shorter than the amortization', () => {
+    const result = analyzeAlternativeLoan({
+      principal: 200000,
+      annualRate: 6,
+      termMonths: 60,
+      repaymentType: 'amortizing',
+      amortizationYears: 25,
+      startDate
+    });
+    const payment = calculatePayment({ principal: 200000, annualRate: 6, amortizationYears: 25, frequency: 'monthly' });
+    const i = Math.pow(1.03, 1 / 6) - 1;
+    const expectedBalance = 200000 * Math.pow(1 + i, 60) - (payment * (Math.pow(1 + i, 60) - 1)) / i;
+
+    expect(result.payment).toBeCloseTo(payment, 2);
+    expect(Math.abs(result.balloonPayment - expectedBalance)).toBeLessThan(1);
+    expect(result.schedule[59].balance).toBe(result.balloonPayment);
+  });
+
+  it('rejects loans it cannot analyze', () => {
+    expect(() => analyzeAlternativeLoan({ ...privateSecond, termMonths: 0 })).toThrow(
+      'Term must be at least one month'
+    );
+    expect(() => analyzeAlternativeLoan({ ...privateSecond, repaymentType: 'amortizing' })).toThrow(
+      'An amortizing loan needs an amortization period'
+    );
+    expect(() => analyzeAlternativeLoan({ ...privateSecond, lenderFee: 100000 })).toThrow(
+      'Fees cannot be more than the loan amount'
+    );
+  });
+});
+
+describe('analyzeCombinedPosition', () => {
+  it('counts both charges against the property and both payments in GDS', () => {
+    const result = analyzeCombinedPosition({
+      propertyValue: 600000,
+      first: { principal: 400000, annualRate: 5, amortizationYears: 25, frequency: 'monthly' },
+      second: { ...privateSecond, principal: 60000 },
+      grossAnnualIncome: 150000,
+      monthlyDebts: 0
+    });
+
+    expect(result.firstLtv).toBe(66.67);
+    expect(result.combinedLtv).toBe(76.67);
+    expect(result.combinedBalance).toBe(460000);
+    expect(result.second.monthlyPayment).toBe(500);
+    expect(result.affordability.monthlyPayment).toBe(result.combinedMonthlyPayment);
+  });
+});
@@ -0,0 +1,98 @@
+import { calculateBridgeInterest, calculateBridgeLoan, portMortgage } from '../bridge-financing';
+import { sumMoney } from '../money';
+import type { BridgeLoanParams, ExistingMortgage } from '@/types';
+
+const existing: ExistingMortgage = {
+  balance: 300000,
+  annualRate: 5,
+  remainingAmortizationYears: 20,
+  remainingTermMonths: 24,
+  frequency: 'monthly'
+};
+
+const bridge: BridgeLoanParams = {
+  salePrice: 900000,
+  existing,
+  sellingCostPercent: 5,
+  sellingCosts: 1500,
+  bridgeRate: 7,
+  bridgeDays: 90,
+  bridgeFee: 500
+};
+
+describe('calculateBridgeInterest', () => {
+  it('accrues daily interest compounded monthly', () => {
+    const expected = 200000 * (Math.pow(1 + 0.07 / 12, (12 * 90) / 365) - 1);
+
+    expect(calculateBridgeInterest(200000, 7, 90)).toBeCloseTo(expected, 2);
+    expect(calculateBridgeInterest(200000, 7, 0)).toBe(0);
+  });
+});
+
+describe('calculateBridgeLoan', () => {
+  it('pays out the mortgage and penalty from the sale proceeds', () => {
+    const result = calculateBridgeLoan({ ...bridge, amountNeeded: 200000 });
+
+    expect(result.sellingCosts).toBe(46500);
+    expect(result.penaltyType).toBe('three-months-interest');
+    expect(result.penalty).toBe(3711.52);
+    expect(result.mortgagePayout).toBe(303711.52);
+    expect(result.netSaleProceeds).toBe(549788.48);
+    expect(result.bridgeAmount).toBe(200000);
+    expect(result.shortfall).toBe(0);
+    expect(result.totalBridgeCost).toBe(sumMoney([result.bridgeInterest, 500]));
+    expect(result.proceedsAfterBridge).toBe(
+      sumMoney([result.netSaleProceeds, -200000, -result.totalBridgeCost])
+    );
+  });
+
+  it('caps the bridge at what the proceeds can repay with interest and the fee', () => {
+    const result = calculateBridgeLoan({ ...bridge, amountNeeded: 600000 });
+
+    expect(result.bridgeAmount).toBe(result.maxBridgeAmount);
+    expect(result.shortfall).toBe(sumMoney([600000, -result.maxBridgeAmount]));
+    expect(result.proceedsAfterBridge).toBeGreaterThanOrEqual(0);
+    expect(result.proceedsAfterBridge).toBeLessThan(0.05);
+  });
+
+  it('uses the lender\'s quoted penalty when given', () => {
+    const result = calculateBridgeLoan({ ...bridge, penaltyOverride: 8000 });
+
+    expect(result.penaltyType).toBe('quoted');
+    expect(result.mortgagePayout).toBe(308000);
+  });
+
+  it('rejects a negative bridge period', () => {
+    expect(() => calculateBridgeLoan({ ...bridge, bridgeDays: -1 })).toThrow('Bridge days cannot be negative');
+  });
+});
+
+describe('portMortgage', () => {
+  const ported = { ...existing, annualRate: 3, remainingTermMonths: 36 };
+
+  it('blends the ported rate with the new money rate by amount', () => {
+    const result = portMortgage({
+      existing: ported,
+      newMortgageAmount: 500000,
+      newMoneyRate: 5,
+      amortizationYears: 25,
+      propertyValue: 800000
+    });
+
+    expect(result.newMoney).toBe(200000);
+    expect(result.blendedRate).toBe(3.8);
+    expect(result.termMonths).toBe(36);
+    expect(Math.abs(result.blendedPayment - result.portedPayment - result.newMoneyPayment)).toBeLessThan(50);
+    expect(result.monthlyPaymentIncrease).toBe(
+      sumMoney([result.monthlyBlendedPayment, -result.existingMonthlyPayment])
+    );
+    expect(result.penaltyAvoided).toBe(2236.07);
+    expect(result.ltv).toBe(62.5);
+  });
+
+  it('cannot port onto a smaller mortgage', () => {
+    expect(() =>
+      portMortgage({ existing: ported, newMortgageAmount: 250000, newMoneyRate: 5, amortizationYears: 25 })
+    ).toThrow('The new mortgage must be at least the balance being ported');
+  });
+});
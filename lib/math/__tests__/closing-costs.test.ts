@@ -0,0 +1,90 @@
+import {
+  PROVINCIAL_TRANSFER_TAX,
+  TORONTO_MUNICIPAL_TRANSFER_TAX,
+  calculateClosingCosts,
+  calculateLandTransferTax,
+  calculateTransferTax
+} from '../closing-costs';
+
+describe('calculateTransferTax', () => {
+  it('applies Ontario brackets marginally', () => {
+    expect(calculateTransferTax(800000, PROVINCIAL_TRANSFER_TAX.ON)).toBe(12475);
+  });
+
+  it('adds the Toronto luxury brackets above $2M', () => {
+    expect(calculateTransferTax(3500000, PROVINCIAL_TRANSFER_TAX.ON)).toBe(73975);
+    expect(calculateTransferTax(3500000, TORONTO_MUNICIPAL_TRANSFER_TAX)).toBe(78975);
+  });
+
+  it('charges a flat fee per unit of value in Alberta', () => {
+    expect(calculateTransferTax(500000, PROVINCIAL_TRANSFER_TAX.AB)).toBe(550);
+    expect(calculateTransferTax(500001, PROVINCIAL_TRANSFER_TAX.AB)).toBe(555);
+  });
+});
+
+describe('calculateLandTransferTax', () => {
+  it('charges the municipal tax on Toronto purchases only', () => {
+    const toronto = calculateLandTransferTax(800000, 'ON', false, true);
+    const ottawa = calculateLandTransferTax(800000, 'ON', false, false);
+
+    expect(toronto.provincialTax).toBe(12475);
+    expect(toronto.municipalTax).toBe(12475);
+    expect(toronto.totalTax).toBe(24950);
+    expect(ottawa.municipalTax).toBe(0);
+    expect(ottawa.totalTax).toBe(12475);
+  });
+
+  it('caps the Ontario and Toronto first-time buyer rebates', () => {
+    const result = calculateLandTransferTax(800000, 'ON', true, true);
+
+    expect(result.firstTimeBuyerRebate).toBe(8475);
+    expect(result.totalTax).toBe(16475);
+  });
+
+  it('never rebates more than the tax', () => {
+    const result = calculateLandTransferTax(300000, 'ON', true);
+
+    expect(result.provincialTax).toBe(2975);
+    expect(result.firstTimeBuyerRebate).toBe(2975);
+    expect(result.totalTax).toBe(0);
+  });
+
+  it('exempts the first $500k in BC and phases the exemption out', () => {
+    expect(calculateLandTransferTax(600000, 'BC', true).totalTax).toBe(2000);
+
+    const phasingOut = calculateLandTransferTax(847500, 'BC', true);
+    expect(phasingOut.provincialTax).toBe(14950);
+    expect(phasingOut.firstTimeBuyerRebate).toBe(4000);
+
+    expect(calculateLandTransferTax(860000, 'BC', true).firstTimeBuyerRebate).toBe(0);
+  });
+});
+
+describe('calculateClosingCosts', () => {
+  it('totals taxes and fees into the cash needed to close', () => {
+    const result = calculateClosingCosts({
+      purchasePrice: 800000,
+      province: 'ON',
+      downPayment: 80000,
+      isToronto: true,
+      premiumTax: 1497.6
+    });
+
+    // 24,950 LTT + 1,500 legal + 350 title + 500 inspection + 1,000 adjustments
+    expect(result.totalClosingCosts).toBe(29797.6);
+    expect(result.cashToClose).toBe(109797.6);
+  });
+
+  it('lets the non-tax defaults be overridden', () => {
+    const result = calculateClosingCosts({
+      purchasePrice: 500000,
+      province: 'AB',
+      costs: { legalFees: 2000, inspection: 0 }
+    });
+
+    expect(result.legalFees).toBe(2000);
+    expect(result.titleInsurance).toBe(350);
+    expect(result.totalClosingCosts).toBe(3900);
+    expect(result.cashToClose).toBe(3900);
+  });
+});
@@ -0,0 +1,109 @@
+import {
+  calculateInterestAdjustment,
+  getFirstPaymentDate,
+  getInterestAdjustmentDate,
+  getPaymentDate,
+  getScheduledPaymentDate
+} from '../dates';
+import { generateAmortizationSchedule } from '../sensitivity';
+
+const ymd = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+describe('monthly payment dates', () => {
+  it('pays on the same day each month, clamped to short months', () => {
+    const dates = [0, 1, 2, 3].map(i => ymd(getPaymentDate(new Date(2025, 0, 31), 'monthly', i)));
+
+    expect(dates).toEqual(['2025-01-31', '2025-02-28', '2025-03-31', '2025-04-30']);
+  });
+
+  it('uses Feb 29 in a leap year', () => {
+    expect(ymd(getPaymentDate(new Date(2024, 0, 31), 'monthly', 1))).toBe('2024-02-29');
+  });
+
+  it('dates every schedule payment one month after the interest adjustment date', () => {
+    const schedule = generateAmortizationSchedule(300000, 5, 25, 'monthly', new Date(2025, 0, 15));
+
+    expect(ymd(getFirstPaymentDate(new Date(2025, 0, 15), 'monthly'))).toBe('2025-02-15');
+    expect(schedule.slice(0, 3).map(entry => ymd(entry.paymentDate))).toEqual([
+      '2025-02-15',
+      '2025-03-15',
+      '2025-04-15'
+    ]);
+  });
+
+  it('keeps month-end payments on each month end after a short month', () => {
+    const interestAdjustmentDate = new Date(2025, 0, 31);
+    const dates = [1, 2, 3, 4, 5].map(n =>
+      ymd(getScheduledPaymentDate(interestAdjustmentDate, 'monthly', n))
+    );
+
+    expect(dates).toEqual(['2025-02-28', '2025-03-31', '2025-04-30', '2025-05-31', '2025-06-30']);
+    expect(ymd(getFirstPaymentDate(interestAdjustmentDate, 'monthly'))).toBe('2025-02-28');
+  });
+
+  it('dates a month-end schedule from the interest adjustment date', () => {
+    const schedule = generateAmortizationSchedule(300000, 5, 25, 'monthly', new Date(2025, 0, 31));
+
+    expect(schedule.slice(0, 3).map(entry => ymd(entry.paymentDate))).toEqual([
+      '2025-02-28',
+      '2025-03-31',
+      '2025-04-30'
+    ]);
+  });
+
+  it('adjusts to the 1st of the next month', () => {
+    expect(ymd(getInterestAdjustmentDate(new Date(2025, 2, 14), 'monthly'))).toBe('2025-04-01');
+    expect(ymd(getInterestAdjustmentDate(new Date(2025, 2, 1), 'monthly'))).toBe('2025-03-01');
+  });
+});
+
+describe('semi-monthly payment dates', () => {
+  it('pays on the 1st and 15th of every month', () => {
+    const dates = [0, 1, 2, 3].map(i => ymd(getPaymentDate(new Date(2025, 0, 15), 'semi-monthly', i)));
+
+    expect(dates).toEqual(['2025-01-15', '2025-02-01', '2025-02-15', '2025-03-01']);
+  });
+
+  it('starts one payment day after the interest adjustment date', () => {
+    const interestAdjustmentDate = getInterestAdjustmentDate(new Date(2025, 0, 10), 'semi-monthly');
+
+    expect(ymd(interestAdjustmentDate)).toBe('2025-01-15');
+    expect(ymd(getFirstPaymentDate(interestAdjustmentDate, 'semi-monthly'))).toBe('2025-02-01');
+  });
+
+  it('clamps a late payment day to the end of short months', () => {
+    const dates = [0, 1, 2, 3].map(i =>
+      ymd(getPaymentDate(new Date(2025, 0, 15), 'semi-monthly', i, [15, 30]))
+    );
+
+    expect(dates).toEqual(['2025-01-15', '2025-01-30', '2025-02-15', '2025-02-28']);
+  });
+});
+
+describe('weekly payment dates', () => {
+  it('steps exactly 14 days for bi-weekly payments', () => {
+    const dates = [0, 1, 2].map(i => ymd(getPaymentDate(new Date(2025, 2, 6), 'bi-weekly', i)));
+
+    expect(dates).toEqual(['2025-03-06', '2025-03-20', '2025-04-03']);
+  });
+
+  it('starts one period after the interest adjustment date', () => {
+    expect(ymd(getFirstPaymentDate(new Date(2025, 1, 20), 'bi-weekly'))).toBe('2025-03-06');
+  });
+});
+
+describe('calculateInterestAdjustment', () => {
+  it('charges no interest when funding on the adjustment date', () => {
+    const date = new Date(2025, 2, 1);
+
+    expect(calculateInterestAdjustment(400000, 5, date, date)).toMatchObject({ days: 0, amount: 0 });
+  });
+
+  it('counts the days from funding to the adjustment date', () => {
+    const result = calculateInterestAdjustment(400000, 5, new Date(2025, 2, 14), new Date(2025, 3, 1));
+
+    expect(result.days).toBe(18);
+    expect(result.amount).toBeCloseTo(400000 * (Math.pow(1.025, 36 / 365) - 1), 2);
+  });
+});
@@ -0,0 +1,66 @@
+import { generateBorrowingCostDisclosure } from '../disclosure';
+import { sumMoney } from '../money';
+import type { BorrowingCostDisclosureParams } from '@/types';
+
+const params: BorrowingCostDisclosureParams = {
+  principal: 400000,
+  annualRate: 5,
+  amortizationYears: 25,
+  termYears: 5,
+  frequency: 'monthly',
+  fundingDate: new Date(2025, 0, 1)
+};
+
+describe('generateBorrowingCostDisclosure', () => {
+  it('gives an APR equal to the contract rate with no fees', () => {
+    const disclosure = generateBorrowingCostDisclosure(params);
+
+    expect(disclosure.apr).toBeCloseTo(5, 2);
+  });
+
+  it('raises the APR above the contract rate when fees come off the advance', () => {
+    const disclosure = generateBorrowingCostDisclosure({
+      ...params,
+      fees: { appraisalFee: 500, brokerFee: 3000 }
+    });
+
+    expect(disclosure.fees).toBe(3500);
+    expect(disclosure.apr).toBeGreaterThan(5.1);
+  });
+
+  it('reconciles the cost of borrowing to the cent', () => {
+    const disclosure = generateBorrowingCostDisclosure({
+      ...params,
+      fundingDate: new Date(2025, 0, 14),
+      fees: { appraisalFee: 450, insurancePremium: 12000 }
+    });
+
+    expect(disclosure.numberOfPayments).toBe(60);
+    expect(disclosure.interestAdjustment).toBeGreaterThan(0);
+    expect(disclosure.costOfBorrowing).toBe(
+      sumMoney([disclosure.totalInterest, disclosure.fees, disclosure.insurancePremium])
+    );
+    // Everything repaid over the term, less what was borrowed, is the interest
+    expect(
+      sumMoney([
+        disclosure.totalPayments,
+        disclosure.interestAdjustment,
+        disclosure.balanceAtTermEnd,
+        -disclosure.totalLoanAmount
+      ])
+    ).toBe(disclosure.totalInterest);
+  });
+
+  it('discloses nothing when nothing is borrowed', () => {
+    const disclosure = generateBorrowingCostDisclosure({ ...params, principal: 0 });
+
+    expect(disclosure.costOfBorrowing).toBe(0);
+    expect(disclosure.apr).toBe(0);
+  });
+
+  it('rejects fees at or above the principal', () => {
+    expect(() =>
+      generateBorrowingCostDisclosure({ ...params, principal: 500, fees: { appraisalFee: 500 } })
+    ).toThrow('Fees must be less than the principal');
+  });
+});
@@ -0,0 +1,104 @@
+import { calculateGoalSeekMetrics, solveGoalSeek } from '../goal-seek';
+import { calculateMinimumDownPayment } from '../insurance';
+import { DEFAULT_POLICY } from '../policy';
+import type { GoalSeekScenario } from '@/types';
+
+const scenario: GoalSeekScenario = {
+  principal: 400000,
+  annualRate: 5,
+  amortizationYears: 25,
+  frequency: 'monthly',
+  grossAnnualIncome: 100000,
+  monthlyDebts: 500,
+  propertyTax: 300,
+  heatingCost: 100
+};
+
+const purchase: GoalSeekScenario = {
+  ...scenario,
+  principal: 0,
+  purchasePrice: 500000,
+  downPayment: 0,
+  grossAnnualIncome: 118000,
+  monthlyDebts: 0,
+  propertyTax: 0,
+  heatingCost: 0
+};
+
+describe('solveGoalSeek', () => {
+  it('solves the maximum principal at the binding ratio', () => {
+    const result = solveGoalSeek({ scenario, solveFor: 'principal' });
+
+    expect(result.value).not.toBeNull();
+    expect(result.bindingConstraint).toBe('stress-test');
+    expect(result.metrics!.stressGdsRatio).toBeLessThanOrEqual(DEFAULT_POLICY.gdsThreshold);
+    expect(result.metrics!.stressTdsRatio).toBeLessThanOrEqual(DEFAULT_POLICY.tdsThreshold);
+
+    // One dollar more fails the stress test
+    const over = calculateGoalSeekMetrics({ ...scenario, principal: result.value! + 1 });
+    const passesStressTest =
+      over.stressGdsRatio <= DEFAULT_POLICY.gdsThreshold &&
+      over.stressTdsRatio <= DEFAULT_POLICY.tdsThreshold;
+    expect(passesStressTest).toBe(false);
+  });
+
+  it('never solves a down payment below the legal minimum', () => {
+    const result = solveGoalSeek({ scenario: purchase, solveFor: 'downPayment', constraints: ['gds'] });
+
+    expect(result.value).toBe(calculateMinimumDownPayment(500000));
+    expect(result.value).toBe(25000);
+    expect(result.bindingConstraint).toBe('minimum-down-payment');
+    expect(result.metrics!.meetsMinimumDownPayment).toBe(true);
+  });
+
+  it('reports the ratio that binds above the minimum down payment', () => {
+    const result = solveGoalSeek({
+      scenario: { ...purchase, grossAnnualIncome: 90000 },
+      solveFor: 'downPayment'
+    });
+
+    expect(result.value!).toBeGreaterThan(25000);
+    expect(result.bindingConstraint).toBe('stress-test');
+    expect(result.metrics!.stressGdsRatio).toBeLessThanOrEqual(DEFAULT_POLICY.gdsThreshold);
+  });
+
+  it('caps the purchase price at what the down payment supports', () => {
+    const result = solveGoalSeek({
+      scenario: { ...purchase, downPayment: 40000, grossAnnualIncome: 300000 },
+      solveFor: 'purchasePrice'
+    });
+
+    // 5% of the first $500k and 10% of the rest: $40,000 covers $650,000
+    expect(result.bindingConstraint).toBe('minimum-down-payment');
+    expect(result.value!).toBeCloseTo(650000, 0);
+    expect(result.metrics!.meetsMinimumDownPayment).toBe(true);
+  });
+
+  it('is infeasible when the bounds hold no qualifying value', () => {
+    const result = solveGoalSeek({
+      scenario: { ...scenario, grossAnnualIncome: 20000 },
+      solveFor: 'amortizationYears',
+      bounds: { min: 5, max: 30 }
+    });
+
+    expect(result.value).toBeNull();
+    expect(result.metrics).toBeNull();
+  });
+
+  it('stays within the bounds it was given', () => {
+    const result = solveGoalSeek({
+      scenario,
+      solveFor: 'grossAnnualIncome',
+      bounds: { min: 150000, max: 500000 }
+    });
+
+    expect(result.value).toBe(150000);
+    expect(result.bindingConstraint).toBeNull();
+  });
+
+  it('requires a cap for the payment-cap constraint', () => {
+    expect(() =>
+      solveGoalSeek({ scenario, solveFor: 'principal', constraints: ['payment-cap'] })
+    ).toThrow('A payment cap is required for the payment-cap constraint');
+  });
+});
@@ -0,0 +1,84 @@
+import {
+  calculateQualifyingIncome,
+  calculateRentalOffset,
+  getQualifyingIncome,
+  resolveQualifyingIncome
+} from '../income';
+import { POLICY_PROFILES } from '../policy';
+import { calculateAffordability } from '../affordability';
+import type { Borrower, IncomeSource } from '@/types';
+
+const standard = POLICY_PROFILES.standard;
+const bLender = POLICY_PROFILES['b-lender'];
+const uninsured = POLICY_PROFILES['osfi-b20-uninsured'];
+
+const hourly: IncomeSource = {
+  type: 'hourly',
+  annualAmount: 70000,
+  hourlyRate: 30,
+  guaranteedHoursPerWeek: 40,
+  overtimeAmount: 10000
+};
+const rental: IncomeSource = { type: 'rental', annualAmount: 24000, monthlyExpenses: 1500 };
+
+describe('getQualifyingIncome', () => {
+  it('counts guaranteed hours and the policy share of overtime', () => {
+    expect(getQualifyingIncome(hourly, standard).qualifyingAnnualIncome).toBe(67400);
+    expect(getQualifyingIncome(hourly, bLender).qualifyingAnnualIncome).toBe(72400);
+  });
+
+  it('averages variable income over two years', () => {
+    const selfEmployed: IncomeSource = { type: 'self-employed', annualAmount: 80000, previousYearAmount: 60000 };
+
+    expect(getQualifyingIncome(selfEmployed, standard).qualifyingAnnualIncome).toBe(70000);
+    expect(
+      getQualifyingIncome({ ...selfEmployed, previousYearAmount: undefined }, standard).qualifyingAnnualIncome
+    ).toBe(80000);
+  });
+
+  it('adds back rent only under the add-back method', () => {
+    expect(getQualifyingIncome(rental, standard).qualifyingAnnualIncome).toBe(12000);
+    expect(getQualifyingIncome(rental, uninsured).qualifyingAnnualIncome).toBe(0);
+  });
+});
+
+describe('calculateRentalOffset', () => {
+  it('nets the counted rent against the rental\'s expenses', () => {
+    expect(calculateRentalOffset(rental, uninsured)).toBe(-100);
+    expect(calculateRentalOffset({ ...rental, monthlyExpenses: 1800 }, uninsured)).toBe(200);
+    expect(calculateRentalOffset(rental, standard)).toBe(0);
+  });
+});
+
+describe('calculateQualifyingIncome', () => {
+  const borrowers: Borrower[] = [
+    { name: 'Alex', incomeSources: [{ type: 'salaried', annualAmount: 90000 }, rental] },
+    { name: 'Sam', incomeSources: [hourly] }
+  ];
+
+  it('combines every borrower\'s sources', () => {
+    const result = calculateQualifyingIncome(borrowers, standard);
+
+    expect(result.borrowers.map(b => b.qualifyingAnnualIncome)).toEqual([102000, 67400]);
+    expect(result.totalQualifyingIncome).toBe(169400);
+    expect(result.monthlyDebtAdjustment).toBe(0);
+  });
+
+  it('moves rental income into the debt adjustment under the offset method', () => {
+    expect(resolveQualifyingIncome(borrowers, uninsured)).toEqual({
+      annualIncome: 157400,
+      monthlyDebtAdjustment: -100
+    });
+    expect(resolveQualifyingIncome(120000, uninsured)).toEqual({
+      annualIncome: 120000,
+      monthlyDebtAdjustment: 0
+    });
+  });
+
+  it('feeds the borrowers into GDS/TDS', () => {
+    const result = calculateAffordability(400000, 5, 25, 'monthly', borrowers, 500, 400, 100, 0, uninsured);
+
+    expect(result.grossAnnualIncome).toBe(157400);
+    expect(result.monthlyDebts).toBe(400);
+  });
+});
@@ -0,0 +1,82 @@
+import {
+  calculateLTV,
+  calculateMinimumDownPayment,
+  calculateMortgageInsurance,
+  getInsurancePremiumRate
+} from '../insurance';
+
+describe('calculateMinimumDownPayment', () => {
+  it('takes 5% of the first $500k and 10% of the rest', () => {
+    expect(calculateMinimumDownPayment(400000)).toBe(20000);
+    expect(calculateMinimumDownPayment(500000)).toBe(25000);
+    expect(calculateMinimumDownPayment(800000)).toBe(55000);
+  });
+
+  it('requires 20% at or above the insured price cap', () => {
+    expect(calculateMinimumDownPayment(1499999)).toBe(124999.9);
+    expect(calculateMinimumDownPayment(1500000)).toBe(300000);
+  });
+});
+
+describe('getInsurancePremiumRate', () => {
+  it('applies each band up to and including its maximum LTV', () => {
+    expect(getInsurancePremiumRate(65)).toBe(0.6);
+    expect(getInsurancePremiumRate(65.01)).toBe(1.7);
+    expect(getInsurancePremiumRate(80)).toBe(2.4);
+    expect(getInsurancePremiumRate(85)).toBe(2.8);
+    expect(getInsurancePremiumRate(90)).toBe(3.1);
+    expect(getInsurancePremiumRate(90.01)).toBe(4.0);
+    expect(getInsurancePremiumRate(95)).toBe(4.0);
+  });
+
+  it('is zero above the insurable maximum', () => {
+    expect(getInsurancePremiumRate(95.01)).toBe(0);
+  });
+});
+
+describe('calculateMortgageInsurance', () => {
+  it('adds the premium to the mortgage and taxes it separately', () => {
+    const result = calculateMortgageInsurance(500000, 25000, 'ON');
+
+    expect(result.ltv).toBe(95);
+    expect(result.isHighRatio).toBe(true);
+    expect(result.premiumRate).toBe(4.0);
+    expect(result.premium).toBe(19000);
+    expect(result.premiumTax).toBe(1520);
+    expect(result.insuredPrincipal).toBe(494000);
+    expect(result.meetsMinimumDownPayment).toBe(true);
+  });
+
+  it('charges no sales tax in provinces without one', () => {
+    const result = calculateMortgageInsurance(600000, 60000, 'AB');
+
+    expect(result.premiumRate).toBe(3.1);
+    expect(result.premium).toBe(16740);
+    expect(result.premiumTax).toBe(0);
+  });
+
+  it('needs no insurance with 20% down', () => {
+    const result = calculateMortgageInsurance(600000, 120000, 'ON');
+
+    expect(calculateLTV(480000, 600000)).toBe(80);
+    expect(result.isHighRatio).toBe(false);
+    expect(result.premium).toBe(0);
+    expect(result.insuredPrincipal).toBe(480000);
+  });
+
+  it('flags a down payment below the minimum', () => {
+    const result = calculateMortgageInsurance(800000, 50000, 'ON');
+
+    expect(result.minimumDownPayment).toBe(55000);
+    expect(result.meetsMinimumDownPayment).toBe(false);
+  });
+
+  it('cannot insure a purchase at the price cap', () => {
+    const result = calculateMortgageInsurance(1500000, 200000, 'ON');
+
+    expect(result.isHighRatio).toBe(true);
+    expect(result.isInsurable).toBe(false);
+    expect(result.premium).toBe(0);
+    expect(result.meetsMinimumDownPayment).toBe(false);
+  });
+});
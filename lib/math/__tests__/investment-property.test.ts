@@ -0,0 +1,83 @@
+import { analyzeInvestmentProperty } from '../investment-property';
+import { POLICY_PROFILES } from '../policy';
+import { sumMoney } from '../money';
+import type { InvestmentPropertyParams } from '@/types';
+
+const params: InvestmentPropertyParams = {
+  purchasePrice: 800000,
+  downPayment: 200000,
+  annualRate: 5,
+  amortizationYears: 25,
+  frequency: 'monthly',
+  units: [{ label: 'Main', monthlyRent: 2000 }, { label: 'Basement', monthlyRent: 1800 }],
+  vacancyPercent: 5,
+  operatingExpenses: 9000,
+  managementFeePercent: 8,
+  closingCosts: 15000,
+  grossAnnualIncome: 150000,
+  monthlyDebts: 0,
+  ownerOccupiedHousingCosts: 2500,
+  policy: POLICY_PROFILES.standard
+};
+
+describe('analyzeInvestmentProperty', () => {
+  const result = analyzeInvestmentProperty(params);
+
+  it('derives NOI after vacancy, management and expenses', () => {
+    expect(result.principal).toBe(600000);
+    expect(result.grossAnnualRent).toBe(45600);
+    expect(result.vacancyLoss).toBe(2280);
+    expect(result.effectiveGrossIncome).toBe(43320);
+    // Management is charged on the rent collected
+    expect(result.managementFees).toBe(3465.6);
+    expect(result.operatingExpenses).toBe(12465.6);
+    expect(result.netOperatingIncome).toBe(30854.4);
+    expect(result.capRate).toBe(3.86);
+  });
+
+  it('measures the cash flow against the mortgage', () => {
+    expect(result.annualDebtService).toBe(sumMoney(Array(12).fill(result.monthlyPayment)));
+    expect(result.annualCashFlow).toBe(sumMoney([result.netOperatingIncome, -result.annualDebtService]));
+    expect(result.debtServiceCoverageRatio).toBeLessThan(1);
+    expect(result.cashInvested).toBe(215000);
+    expect(result.cashOnCashReturn).toBeCloseTo((result.annualCashFlow / 215000) * 100, 2);
+  });
+
+  it('adds back rent and counts the rental\'s costs as debts', () => {
+    const { qualification } = result;
+
+    expect(qualification.rentalMethod).toBe('add-back');
+    expect(qualification.rentalIncomeCounted).toBe(22800);
+    expect(qualification.rentalMonthlyExpenses).toBe(sumMoney([result.monthlyPayment, 750]));
+    expect(qualification.monthlyDebtAdjustment).toBe(qualification.rentalMonthlyExpenses);
+    expect(qualification.affordability.grossAnnualIncome).toBe(172800);
+    expect(qualification.affordability.monthlyPayment).toBe(2500);
+    expect(qualification.qualifyingRate).toBe(7);
+  });
+
+  it('nets rent against expenses under the offset method', () => {
+    const { qualification } = analyzeInvestmentProperty({ ...params, rentalMethod: 'offset' });
+
+    expect(qualification.rentalIncomeCounted).toBe(0);
+    expect(qualification.affordability.grossAnnualIncome).toBe(150000);
+    // Half the gross rent offsets the rental's payment and expenses
+    expect(qualification.monthlyDebtAdjustment).toBe(sumMoney([qualification.rentalMonthlyExpenses, -1900]));
+  });
+
+  it('has no debt service without a mortgage', () => {
+    const cash = analyzeInvestmentProperty({ ...params, downPayment: 800000 });
+
+    expect(cash.monthlyPayment).toBe(0);
+    expect(cash.debtServiceCoverageRatio).toBeNull();
+    expect(cash.annualCashFlow).toBe(cash.netOperatingIncome);
+  });
+
+  it('needs a price and at least one unit', () => {
+    expect(() => analyzeInvestmentProperty({ ...params, purchasePrice: 0 })).toThrow(
+      'Purchase price must be greater than zero'
+    );
+    expect(() => analyzeInvestmentProperty({ ...params, units: [] })).toThrow(
+      'An investment property needs at least one rental unit'
+    );
+  });
+});
@@ -0,0 +1,86 @@
+import {
+  calculateQualifyingDebtBreakdown,
+  calculateQualifyingMonthlyDebts,
+  getQualifyingLiabilityPayment,
+  resolveMonthlyDebts
+} from '../liabilities';
+import { POLICY_PROFILES } from '../policy';
+import { calculateAffordability } from '../affordability';
+import type { Liability } from '@/types';
+
+const standard = POLICY_PROFILES.standard;
+const bLender = POLICY_PROFILES['b-lender'];
+const uninsured = POLICY_PROFILES['osfi-b20-uninsured'];
+
+const creditCard: Liability = { type: 'credit-card', balance: 10000, monthlyPayment: 100, toBePaidOff: false };
+const lineOfCredit: Liability = {
+  type: 'line-of-credit',
+  balance: 20000,
+  limit: 50000,
+  monthlyPayment: 80,
+  interestRate: 9,
+  toBePaidOff: false
+};
+const autoLoan: Liability = {
+  type: 'auto-loan',
+  balance: 3000,
+  monthlyPayment: 450,
+  remainingPayments: 7,
+  toBePaidOff: false
+};
+
+describe('getQualifyingLiabilityPayment', () => {
+  it('counts at least 3% of a credit card balance', () => {
+    expect(getQualifyingLiabilityPayment(creditCard, standard).qualifyingPayment).toBe(300);
+    expect(
+      getQualifyingLiabilityPayment({ ...creditCard, monthlyPayment: 500 }, standard).qualifyingPayment
+    ).toBe(500);
+  });
+
+  it('uses the policy\'s line of credit method', () => {
+    expect(getQualifyingLiabilityPayment(lineOfCredit, standard).qualifyingPayment).toBe(600);
+    expect(getQualifyingLiabilityPayment(lineOfCredit, bLender).qualifyingPayment).toBe(150);
+    expect(
+      getQualifyingLiabilityPayment({ ...lineOfCredit, interestRate: undefined }, bLender).qualifyingPayment
+    ).toBe(116.67);
+  });
+
+  it('drops installment loans that are nearly paid off when the policy allows', () => {
+    expect(getQualifyingLiabilityPayment(autoLoan, standard).qualifyingPayment).toBe(450);
+
+    const result = getQualifyingLiabilityPayment(autoLoan, uninsured);
+    expect(result.excluded).toBe(true);
+    expect(result.qualifyingPayment).toBe(0);
+    expect(result.reason).toBe('Fewer than 10 payments left');
+  });
+
+  it('excludes debts paid off from the proceeds', () => {
+    const result = getQualifyingLiabilityPayment({ ...creditCard, toBePaidOff: true }, standard);
+
+    expect(result.excluded).toBe(true);
+    expect(result.qualifyingPayment).toBe(0);
+  });
+});
+
+describe('calculateQualifyingMonthlyDebts', () => {
+  const liabilities = [creditCard, lineOfCredit, autoLoan];
+
+  it('totals the qualifying payments under each policy', () => {
+    expect(calculateQualifyingDebtBreakdown(liabilities, standard)).toHaveLength(3);
+    expect(calculateQualifyingMonthlyDebts(liabilities, standard)).toBe(1350);
+    expect(calculateQualifyingMonthlyDebts(liabilities, uninsured)).toBe(900);
+  });
+
+  it('passes a pre-computed figure through unchanged', () => {
+    expect(resolveMonthlyDebts(725.5, standard)).toBe(725.5);
+    expect(resolveMonthlyDebts(liabilities, standard)).toBe(1350);
+  });
+
+  it('feeds the qualifying figure into TDS', () => {
+    const fromList = calculateAffordability(400000, 5, 25, 'monthly', 120000, liabilities, 400, 100, 0, standard);
+    const fromFigure = calculateAffordability(400000, 5, 25, 'monthly', 120000, 1350, 400, 100, 0, standard);
+
+    expect(fromList.monthlyDebts).toBe(1350);
+    expect(fromList.tdsRatio).toBe(fromFigure.tdsRatio);
+  });
+});
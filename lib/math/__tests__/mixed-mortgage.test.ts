@@ -0,0 +1,101 @@
+import {
+  analyzeMixedMortgage,
+  calculateHelocMinimumPayment,
+  calculateSegmentPayment,
+  projectReadvanceableCredit
+} from '../mixed-mortgage';
+import { calculatePayment } from '../payment';
+import { sumMoney } from '../money';
+import type { MortgageSegment } from '@/types';
+
+const fixed: MortgageSegment = { label: 'Fixed', type: 'fixed', principal: 300000, annualRate: 5, amortizationYears: 25, termYears: 5 };
+const variable: MortgageSegment = { label: 'Variable', type: 'variable', principal: 100000, annualRate: 5.5, amortizationYears: 25, termYears: 5 };
+const heloc: MortgageSegment = { label: 'HELOC', type: 'heloc', principal: 50000, annualRate: 7, creditLimit: 100000 };
+
+describe('calculateSegmentPayment', () => {
+  it('pays interest only on the HELOC balance drawn', () => {
+    const result = calculateSegmentPayment(heloc, 'monthly');
+
+    expect(calculateHelocMinimumPayment(50000, 7)).toBe(291.67);
+    expect(result.monthlyPayment).toBe(291.67);
+    expect(result.availableCredit).toBe(50000);
+  });
+
+  it('treats a null credit limit from the database as no limit', () => {
+    const loaded: MortgageSegment = { ...heloc, label: null, amortizationYears: null, termYears: null, creditLimit: null };
+    const result = calculateSegmentPayment(loaded, 'monthly');
+    const expected = calculatePayment({ principal: 50000, annualRate: 9, amortizationYears: 25, frequency: 'monthly' });
+
+    expect(result.availableCredit).toBeNull();
+    expect(result.stressMonthlyPayment).toBeCloseTo(expected, 2);
+  });
+
+  it('qualifies a HELOC on its full limit amortized over 25 years', () => {
+    const result = calculateSegmentPayment(heloc, 'monthly');
+    const expected = calculatePayment({ principal: 100000, annualRate: 9, amortizationYears: 25, frequency: 'monthly' });
+
+    expect(result.qualifyingRate).toBe(9);
+    expect(result.stressMonthlyPayment).toBeCloseTo(expected, 2);
+  });
+
+  it('stress tests each amortizing segment at its own qualifying rate', () => {
+    expect(calculateSegmentPayment(fixed, 'monthly').qualifyingRate).toBe(7);
+    expect(calculateSegmentPayment(variable, 'monthly').qualifyingRate).toBe(7.5);
+    expect(calculateSegmentPayment(fixed, 'monthly').availableCredit).toBeNull();
+  });
+
+  it('needs an amortization period on amortizing segments', () => {
+    expect(() => calculateSegmentPayment({ ...fixed, amortizationYears: undefined }, 'monthly')).toThrow(
+      'Segment Fixed needs an amortization period'
+    );
+  });
+});
+
+describe('projectReadvanceableCredit', () => {
+  it('frees up credit as the amortizing segments are paid down', () => {
+    const points = projectReadvanceableCredit([fixed, variable, heloc], 'monthly', 500000);
+
+    expect(points[0]).toEqual({ year: 0, amortizingBalance: 400000, helocBalance: 50000, availableCredit: 50000 });
+    for (let i = 1; i < points.length; i++) {
+      expect(points[i].availableCredit).toBeGreaterThan(points[i - 1].availableCredit);
+    }
+    expect(points[points.length - 1].amortizingBalance).toBe(0);
+    expect(points[points.length - 1].availableCredit).toBe(450000);
+  });
+});
+
+describe('analyzeMixedMortgage', () => {
+  const params = {
+    segments: [fixed, variable, heloc],
+    frequency: 'monthly' as const,
+    grossAnnualIncome: 150000,
+    monthlyDebts: 300,
+    propertyTax: 400,
+    heatingCost: 100
+  };
+
+  it('combines every segment\'s payment into one affordability check', () => {
+    const result = analyzeMixedMortgage(params);
+
+    expect(result.totalBalance).toBe(450000);
+    expect(result.combinedMonthlyPayment).toBe(sumMoney(result.segments.map(s => s.monthlyPayment)));
+    expect(result.combinedStressMonthlyPayment).toBeGreaterThan(result.combinedMonthlyPayment);
+    expect(result.affordability.monthlyPayment).toBe(result.combinedMonthlyPayment);
+    expect(result.affordabilityAtStress.monthlyPayment).toBe(result.combinedStressMonthlyPayment);
+    expect(result.passesStressTest).toBe(result.affordabilityAtStress.isAffordable);
+    expect(result.readvanceableCredit).toEqual([]);
+  });
+
+  it('fails the stress test on the HELOC limit even when little is drawn', () => {
+    const small = analyzeMixedMortgage({ ...params, segments: [fixed, { ...heloc, principal: 0 }], grossAnnualIncome: 95000 });
+
+    expect(small.affordability.isAffordable).toBe(true);
+    expect(small.passesStressTest).toBe(false);
+  });
+
+  it('needs at least one segment', () => {
+    expect(() => analyzeMixedMortgage({ ...params, segments: [] })).toThrow(
+      'A mixed mortgage needs at least one segment'
+    );
+  });
+});
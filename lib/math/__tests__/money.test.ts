@@ -0,0 +1,65 @@
+import { fromCents, roundMoney, sumMoney, toCents } from '../money';
+import { calculatePayment } from '../payment';
+import { calculateTotalInterest, generateAmortizationSchedule } from '../sensitivity';
+
+const isWholeCents = (amount: number) => fromCents(toCents(amount)) === amount;
+
+describe('money helpers', () => {
+  it('rounds half-cents away from zero, ignoring float noise', () => {
+    expect(roundMoney(1.005)).toBe(1.01);
+    expect(roundMoney(-0.005)).toBe(-0.01);
+    expect(toCents(100.49999999999999)).toBe(10050);
+  });
+
+  it('sums amounts exactly', () => {
+    expect(0.1 + 0.2).not.toBe(0.3);
+    expect(sumMoney([0.1, 0.2])).toBe(0.3);
+    expect(fromCents(toCents(19.99) * 3)).toBe(59.97);
+  });
+});
+
+describe('generateAmortizationSchedule', () => {
+  const principal = 400000;
+  const annualRate = 5.25;
+  const amortizationYears = 25;
+  const schedule = generateAmortizationSchedule(
+    principal,
+    annualRate,
+    amortizationYears,
+    'monthly',
+    new Date(2025, 0, 1)
+  );
+
+  it('holds every amount in whole cents', () => {
+    for (const entry of schedule) {
+      expect(isWholeCents(entry.payment)).toBe(true);
+      expect(isWholeCents(entry.interest)).toBe(true);
+      expect(isWholeCents(entry.principal)).toBe(true);
+      expect(isWholeCents(entry.balance)).toBe(true);
+    }
+  });
+
+  it('charges the rounded payment until the final payment, which clears the balance', () => {
+    const payment = roundMoney(
+      calculatePayment({ principal, annualRate, amortizationYears, frequency: 'monthly' })
+    );
+    const last = schedule[schedule.length - 1];
+    const secondLast = schedule[schedule.length - 2];
+
+    expect(schedule).toHaveLength(300);
+    expect(schedule.slice(0, -1).every(entry => entry.payment === payment)).toBe(true);
+    expect(last.balance).toBe(0);
+    expect(last.principal).toBe(secondLast.balance);
+    expect(last.payment).toBe(sumMoney([last.principal, last.interest]));
+  });
+
+  it('repays exactly the principal, and totals match the schedule to the cent', () => {
+    expect(sumMoney(schedule.map(entry => entry.principal))).toBe(principal);
+    expect(sumMoney(schedule.map(entry => entry.payment))).toBe(
+      sumMoney([principal, sumMoney(schedule.map(entry => entry.interest))])
+    );
+    expect(calculateTotalInterest(principal, annualRate, amortizationYears, 'monthly')).toBe(
+      sumMoney(schedule.map(entry => entry.interest))
+    );
+  });
+});
@@ -0,0 +1,80 @@
+import {
+  calculateEffectiveAmortization,
+  calculateNumberOfPayments,
+  calculatePayment
+} from '../payment';
+import { calculateTotalInterest, comparePaymentFrequencies, generateAmortizationSchedule } from '../sensitivity';
+
+const startDate = new Date(2025, 0, 1);
+
+describe('calculateNumberOfPayments', () => {
+  it('inverts the payment formula', () => {
+    const payment = calculatePayment({ principal: 400000, annualRate: 5, amortizationYears: 25, frequency: 'monthly' });
+
+    expect(calculateNumberOfPayments(400000, 5, payment, 'monthly')).toBeCloseTo(300, 1);
+  });
+
+  it('never pays off when the payment only covers the interest', () => {
+    expect(calculateNumberOfPayments(400000, 5, 1000, 'monthly')).toBe(Infinity);
+    expect(calculateNumberOfPayments(0, 5, 1000, 'monthly')).toBe(0);
+  });
+});
+
+describe('accelerated frequencies', () => {
+  const monthly = calculatePayment({ principal: 400000, annualRate: 5, amortizationYears: 25, frequency: 'monthly' });
+  const accelerated = calculatePayment({
+    principal: 400000,
+    annualRate: 5,
+    amortizationYears: 25,
+    frequency: 'accelerated-bi-weekly'
+  });
+
+  it('pays half the monthly payment every two weeks', () => {
+    expect(accelerated).toBeCloseTo(monthly / 2, 10);
+  });
+
+  it('pays off years early with no balloon payment', () => {
+    const schedule = generateAmortizationSchedule(400000, 5, 25, 'accelerated-bi-weekly', startDate);
+    const last = schedule[schedule.length - 1];
+    const effective = calculateEffectiveAmortization(400000, 5, 25, 'accelerated-bi-weekly');
+
+    expect(effective).toBeGreaterThan(21);
+    expect(effective).toBeLessThan(22);
+    expect(schedule.length).toBe(Math.ceil(effective * 26));
+    expect(last.balance).toBe(0);
+    expect(last.payment).toBeLessThanOrEqual(schedule[0].payment);
+  });
+
+  it('keeps the full amortization for ordinary frequencies', () => {
+    expect(calculateEffectiveAmortization(400000, 5, 25, 'bi-weekly')).toBeCloseTo(25, 1);
+  });
+});
+
+describe('comparePaymentFrequencies', () => {
+  const comparison = comparePaymentFrequencies(400000, 5, 25, startDate);
+  const byFrequency = Object.fromEntries(comparison.map(c => [c.frequency, c]));
+
+  it('lists all six frequencies measured against monthly payments', () => {
+    expect(comparison.map(c => c.frequency)).toEqual([
+      'monthly',
+      'semi-monthly',
+      'bi-weekly',
+      'accelerated-bi-weekly',
+      'weekly',
+      'accelerated-weekly'
+    ]);
+    expect(byFrequency.monthly.interestSaved).toBe(0);
+    expect(byFrequency.monthly.numberOfPayments).toBe(300);
+    expect(byFrequency.monthly.totalInterest).toBe(calculateTotalInterest(400000, 5, 25, 'monthly'));
+  });
+
+  it('shows the accelerated savings and earlier payoff', () => {
+    const accelerated = byFrequency['accelerated-bi-weekly'];
+
+    expect(accelerated.monthlyEquivalent).toBeGreaterThan(byFrequency.monthly.monthlyEquivalent);
+    expect(accelerated.interestSaved).toBeGreaterThan(20000);
+    expect(accelerated.effectiveAmortizationYears).toBeLessThan(22);
+    expect(accelerated.payoffDate.getTime()).toBeLessThan(byFrequency.monthly.payoffDate.getTime());
+    expect(Math.abs(byFrequency['bi-weekly'].interestSaved)).toBeLessThan(1000);
+  });
+});
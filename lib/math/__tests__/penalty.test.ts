@@ -0,0 +1,91 @@
+import {
+  calculateIRD,
+  calculatePrepaymentPenalty,
+  calculateThreeMonthsInterest,
+  getIRDComparisonRate
+} from '../penalty';
+
+describe('calculateThreeMonthsInterest', () => {
+  it('charges three months of interest at the semi-annually compounded rate', () => {
+    expect(calculateThreeMonthsInterest(400000, 5)).toBe(4948.7);
+  });
+});
+
+describe('calculateIRD', () => {
+  it('applies the monthly rate differential over the remaining term', () => {
+    expect(calculateIRD(400000, 5, 3, 36)).toBe(23607.34);
+  });
+
+  it('is zero once rates have risen or the term is over', () => {
+    expect(calculateIRD(400000, 5, 5.5, 36)).toBe(0);
+    expect(calculateIRD(400000, 5, 3, 0)).toBe(0);
+  });
+});
+
+describe('getIRDComparisonRate', () => {
+  it('takes the signing discount off the current posted rate', () => {
+    expect(getIRDComparisonRate({
+      irdMethod: 'posted-rate',
+      comparisonRate: 6,
+      contractRate: 5,
+      originalPostedRate: 6.5
+    })).toBe(4.5);
+  });
+
+  it('uses the discounted rate as given', () => {
+    expect(getIRDComparisonRate({
+      irdMethod: 'discounted-rate',
+      comparisonRate: 6,
+      contractRate: 5,
+      originalPostedRate: 6.5
+    })).toBe(6);
+  });
+});
+
+describe('calculatePrepaymentPenalty', () => {
+  const startDate = new Date(2025, 0, 1);
+  const params = {
+    principal: 400000,
+    contractRate: 5,
+    amortizationYears: 25,
+    frequency: 'monthly' as const,
+    startDate,
+    // Before the first payment, so the balance is still the full principal
+    penaltyDate: new Date(2024, 11, 31),
+    remainingTermMonths: 36,
+    comparisonRate: 6,
+    originalPostedRate: 6.5
+  };
+
+  it('charges the IRD when the posted-rate discount makes it larger', () => {
+    const result = calculatePrepaymentPenalty({ ...params, irdMethod: 'posted-rate' });
+
+    expect(result.balance).toBe(400000);
+    expect(result.irdComparisonRate).toBe(4.5);
+    expect(result.rateDifferential).toBe(0.5);
+    expect(result.ird).toBe(5883.78);
+    expect(result.threeMonthsInterest).toBe(4948.7);
+    expect(result.penaltyType).toBe('ird');
+    expect(result.penalty).toBe(5883.78);
+  });
+
+  it('falls back to three months\' interest when rates have risen', () => {
+    const result = calculatePrepaymentPenalty({ ...params, irdMethod: 'discounted-rate' });
+
+    expect(result.ird).toBe(0);
+    expect(result.penaltyType).toBe('three-months-interest');
+    expect(result.penalty).toBe(4948.7);
+  });
+
+  it('only charges three months\' interest on a variable mortgage', () => {
+    const result = calculatePrepaymentPenalty({
+      ...params,
+      comparisonRate: 3,
+      irdMethod: 'discounted-rate',
+      mortgageType: 'variable'
+    });
+
+    expect(result.ird).toBe(0);
+    expect(result.penalty).toBe(4948.7);
+  });
+});
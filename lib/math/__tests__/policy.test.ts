@@ -0,0 +1,127 @@
+import {
+  DEFAULT_POLICY,
+  POLICY_PROFILES,
+  POLICY_VERSIONS,
+  checkPolicyEligibility,
+  getPolicyProfile,
+  getPolicyVersion,
+  getQualifyingRate,
+  isPolicyInEffect
+} from '../policy';
+import { calculateAffordability } from '../affordability';
+import { calculateMortgageInsurance } from '../insurance';
+import { performStressTest } from '../stress-test';
+
+describe('getQualifyingRate', () => {
+  it('takes the greater of the contract rate plus the buffer and the floor', () => {
+    expect(getQualifyingRate(4.5, POLICY_PROFILES.standard)).toBe(6.5);
+    expect(getQualifyingRate(3, POLICY_PROFILES.standard)).toBe(5.25);
+  });
+
+  it('qualifies a B-lender file at the contract rate', () => {
+    expect(getQualifyingRate(7.49, POLICY_PROFILES['b-lender'])).toBe(7.49);
+  });
+});
+
+describe('getPolicyProfile', () => {
+  it('falls back to the default policy for unknown ids', () => {
+    expect(getPolicyProfile('cmhc-insured').id).toBe('cmhc-insured');
+    expect(getPolicyProfile('unknown')).toEqual(DEFAULT_POLICY);
+    expect(getPolicyProfile()).toEqual(DEFAULT_POLICY);
+  });
+});
+
+describe('checkPolicyEligibility', () => {
+  it('flags amortization above the profile maximum', () => {
+    expect(checkPolicyEligibility(30, 90, POLICY_PROFILES.standard)).toEqual([]);
+    expect(checkPolicyEligibility(30, 90, POLICY_PROFILES['cmhc-insured'])).toEqual([
+      'Amortization exceeds the 25-year maximum'
+    ]);
+  });
+
+  it('enforces the insurance type through the LTV', () => {
+    expect(checkPolicyEligibility(25, 85, POLICY_PROFILES['osfi-b20-uninsured'])).toEqual([
+      'LTV exceeds the 80% maximum'
+    ]);
+    expect(checkPolicyEligibility(25, 75, POLICY_PROFILES['cmhc-insured'])).toEqual([
+      'Policy requires a high-ratio insured mortgage'
+    ]);
+  });
+});
+
+describe('policy thresholds', () => {
+  // $10,000/month income; ~$2,826 housing costs and $1,500 of other debts
+  const assess = (policyId: string) =>
+    calculateAffordability(400000, 5, 25, 'monthly', 120000, 1500, 400, 100, 0, getPolicyProfile(policyId));
+
+  it('applies each profile\'s GDS/TDS limits to the same file', () => {
+    const standard = assess('standard');
+    const insured = assess('cmhc-insured');
+
+    expect(standard.tdsRatio).toBeCloseTo(insured.tdsRatio, 10);
+    expect(standard.tdsRatio).toBeGreaterThan(40);
+    expect(standard.tdsRatio).toBeLessThan(44);
+    expect(standard.isAffordable).toBe(false);
+    expect(insured.isAffordable).toBe(true);
+    expect(insured.policyId).toBe('cmhc-insured');
+  });
+
+  it('stress tests at the profile\'s qualifying rate', () => {
+    const standard = performStressTest(400000, 5, 25, 'monthly', 120000, 0, 400, 100, 0, POLICY_PROFILES.standard);
+    const bLender = performStressTest(400000, 5, 25, 'monthly', 120000, 0, 400, 100, 0, POLICY_PROFILES['b-lender']);
+
+    expect(standard.stressRate).toBe(7);
+    expect(bLender.stressRate).toBe(5);
+    expect(bLender.maxMortgageAtStress).toBeGreaterThan(standard.maxMortgageAtStress);
+  });
+});
+
+describe('policy versions', () => {
+  it('picks the version in effect on the assessment date', () => {
+    expect(getPolicyProfile('standard', new Date(2019, 5, 1)).qualifyingRate.floorRate).toBe(5.34);
+    expect(getPolicyProfile('standard', new Date(2020, 5, 1)).qualifyingRate.floorRate).toBe(4.79);
+    expect(getPolicyProfile('standard', new Date(2021, 5, 1)).version).toBe('standard@2021-06-01');
+    expect(getPolicyProfile('standard', new Date(2024, 11, 14)).insuredPriceCap).toBe(1000000);
+    expect(getPolicyProfile('standard', new Date(2024, 11, 15)).insuredPriceCap).toBe(1500000);
+  });
+
+  it('uses the earliest version before the table starts', () => {
+    expect(getPolicyProfile('standard', new Date(2010, 0, 1)).version).toBe('standard@2018-01-01');
+  });
+
+  it('chains effective dates without gaps', () => {
+    const versions = POLICY_VERSIONS.filter(p => p.id === 'cmhc-insured');
+
+    versions.slice(1).forEach((version, i) => {
+      expect(versions[i].effectiveTo).toEqual(version.effectiveFrom);
+    });
+    expect(versions[versions.length - 1].effectiveTo).toBeNull();
+  });
+
+  it('only extends insured first-time buyer amortization from December 2024', () => {
+    const before = getPolicyProfile('cmhc-insured', new Date(2024, 0, 1));
+    const after = getPolicyProfile('cmhc-insured', new Date(2025, 0, 1));
+
+    expect(checkPolicyEligibility(30, 90, before, true)).toHaveLength(1);
+    expect(checkPolicyEligibility(30, 90, after, true)).toEqual([]);
+    expect(checkPolicyEligibility(30, 90, after, false)).toHaveLength(1);
+  });
+
+  it('reproduces a stored assessment from its version', () => {
+    const stored = getPolicyVersion('standard@2018-01-01')!;
+
+    expect(getQualifyingRate(3, stored)).toBe(5.34);
+    expect(calculateMortgageInsurance(1200000, 240000, 'ON', stored.insuredPriceCap).isInsurable).toBe(false);
+    expect(getPolicyVersion('standard@1999-01-01')).toBeUndefined();
+  });
+
+  it('only accepts a stored version for dates it was in effect', () => {
+    const stored = getPolicyVersion('standard@2020-03-18')!;
+
+    expect(isPolicyInEffect(stored, new Date(2020, 2, 18))).toBe(true);
+    expect(isPolicyInEffect(stored, new Date(2021, 4, 31))).toBe(true);
+    expect(isPolicyInEffect(stored, new Date(2021, 5, 1))).toBe(false);
+    expect(isPolicyInEffect(stored, new Date(2019, 0, 1))).toBe(false);
+    expect(isPolicyInEffect(getPolicyVersion('standard@2018-01-01')!, new Date(2010, 0, 1))).toBe(true);
+  });
+});
@@ -0,0 +1,66 @@
+import { calculateLumpSumPrivilege, comparePrepaymentScenario } from '../prepayment';
+import { generateAmortizationSchedule } from '../sensitivity';
+
+const startDate = new Date(2025, 0, 1);
+
+describe('calculateLumpSumPrivilege', () => {
+  it('defaults to 15% of the original principal', () => {
+    expect(calculateLumpSumPrivilege(400000)).toBe(60000);
+    expect(calculateLumpSumPrivilege(400000, 20)).toBe(80000);
+  });
+});
+
+describe('prepayments in the amortization schedule', () => {
+  it('applies a one-time lump sum on the first payment on or after its date', () => {
+    const lumpSumDate = new Date(2025, 5, 15);
+    const schedule = generateAmortizationSchedule(300000, 5, 25, 'monthly', startDate, {
+      lumpSums: [{ date: lumpSumDate, amount: 10000 }]
+    });
+    const withLumpSum = schedule.filter(entry => entry.prepayment);
+    const applied = schedule.indexOf(withLumpSum[0]);
+
+    expect(withLumpSum).toHaveLength(1);
+    expect(withLumpSum[0].paymentDate.getTime()).toBeGreaterThanOrEqual(lumpSumDate.getTime());
+    expect(schedule[applied - 1].paymentDate.getTime()).toBeLessThan(lumpSumDate.getTime());
+    expect(withLumpSum[0].prepayment).toBe(10000);
+  });
+
+  it('applies the annual lump sum with the last payment of each mortgage year in range', () => {
+    const schedule = generateAmortizationSchedule(300000, 5, 25, 'monthly', startDate, {
+      annualLumpSum: { amount: 5000, startYear: 2, endYear: 3 }
+    });
+    const prepaid = schedule.filter(entry => entry.prepayment).map(entry => entry.paymentNumber);
+
+    expect(prepaid).toEqual([24, 36]);
+  });
+
+  it('never prepays more than is owing and stops once paid off', () => {
+    const schedule = generateAmortizationSchedule(20000, 5, 25, 'monthly', startDate, {
+      lumpSums: [{ date: new Date(2025, 1, 1), amount: 50000 }]
+    });
+    const last = schedule[schedule.length - 1];
+
+    expect(last.balance).toBe(0);
+    expect(schedule.length).toBeLessThan(5);
+  });
+});
+
+describe('comparePrepaymentScenario', () => {
+  it('saves interest and payments with a payment increase', () => {
+    const result = comparePrepaymentScenario(400000, 5, 25, 'monthly', { paymentIncrease: 200 }, startDate);
+
+    expect(result.interestSaved).toBeGreaterThan(0);
+    expect(result.paymentsSaved).toBeGreaterThan(0);
+    expect(result.monthsSaved).toBe(result.paymentsSaved);
+    expect(result.prepaymentPayoffDate.getTime()).toBeLessThan(result.baselinePayoffDate.getTime());
+    expect(result.prepaymentSchedule[result.prepaymentSchedule.length - 1].balance).toBe(0);
+  });
+
+  it('saves nothing without prepayments', () => {
+    const result = comparePrepaymentScenario(400000, 5, 25, 'monthly', {}, startDate);
+
+    expect(result.interestSaved).toBe(0);
+    expect(result.paymentsSaved).toBe(0);
+    expect(result.totalPrepaid).toBe(0);
+  });
+});
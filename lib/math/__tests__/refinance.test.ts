@@ -0,0 +1,122 @@
+import { analyzeRefinance, calculateBlendedRate, estimatePayoutPenalty } from '../refinance';
+import type { ExistingMortgage, Liability, RefinanceParams } from '@/types';
+
+const existing: ExistingMortgage = {
+  balance: 300000,
+  annualRate: 6,
+  remainingAmortizationYears: 22,
+  remainingTermMonths: 24,
+  frequency: 'monthly'
+};
+
+const carLoan: Liability = {
+  type: 'auto-loan',
+  balance: 20000,
+  monthlyPayment: 600,
+  remainingPayments: 36,
+  toBePaidOff: true
+};
+
+const params: RefinanceParams = {
+  existing,
+  type: 'full-refinance',
+  newRate: 4.5,
+  newTermYears: 5,
+  newAmortizationYears: 25,
+  propertyValue: 500000,
+  refinanceCosts: 2000,
+  grossAnnualIncome: 120000,
+  liabilities: [carLoan]
+};
+
+describe('calculateBlendedRate', () => {
+  it('weights the old and new rates by months left in the term', () => {
+    // (6% × 24 + 4.5% × 36) / 60
+    expect(calculateBlendedRate(300000, 6, 24, 4.5, 60)).toBe(5.1);
+  });
+
+  it('puts new money at the new rate for the whole term', () => {
+    expect(calculateBlendedRate(300000, 6, 24, 4.5, 60, 100000)).toBe(4.95);
+  });
+
+  it('cannot shorten the current term', () => {
+    expect(() => calculateBlendedRate(300000, 6, 36, 4.5, 24)).toThrow(
+      'The new term must be at least as long as the time left in the current term'
+    );
+  });
+});
+
+describe('estimatePayoutPenalty', () => {
+  it('charges the IRD when rates have fallen', () => {
+    expect(estimatePayoutPenalty(existing, 4.5)).toEqual({ penalty: 8807.78, penaltyType: 'ird' });
+  });
+
+  it('falls back to the contract rate without a comparison rate', () => {
+    expect(estimatePayoutPenalty(existing)).toEqual({
+      penalty: 4444.76,
+      penaltyType: 'three-months-interest'
+    });
+  });
+});
+
+describe('analyzeRefinance', () => {
+  it('rolls the penalty, costs and consolidated debt into the new mortgage', () => {
+    const result = analyzeRefinance(params);
+
+    expect(result.penalty).toBe(8807.78);
+    expect(result.consolidatedDebt).toBe(20000);
+    expect(result.newPrincipal).toBe(330807.78);
+    expect(result.cashOut).toBe(0);
+    expect(result.exceedsMaxLtv).toBe(false);
+    expect(result.monthlyCashFlowChange).toBeGreaterThan(600);
+    expect(result.affordabilityBefore.monthlyDebts).toBe(600);
+    expect(result.affordabilityAfter.monthlyDebts).toBe(0);
+  });
+
+  it('caps cash-out at the maximum LTV', () => {
+    const result = analyzeRefinance({ ...params, cashOut: 200000 });
+
+    expect(result.maxMortgage).toBe(400000);
+    expect(result.cashOut).toBe(69192.22);
+    expect(result.newPrincipal).toBe(400000);
+    expect(result.ltv).toBe(80);
+  });
+
+  it('recovers the penalty from interest savings on the existing balance', () => {
+    const result = analyzeRefinance({ ...params, liabilities: [] });
+
+    // 10,807.78 upfront vs. roughly $365/month of interest savings
+    expect(result.breakevenMonths).toBeGreaterThan(24);
+    expect(result.breakevenMonths).toBeLessThan(36);
+    expect(result.recoversWithinTerm).toBe(true);
+  });
+
+  it('blends instead of charging a penalty', () => {
+    const result = analyzeRefinance({ ...params, type: 'blend-and-extend', refinanceCosts: 0, liabilities: [] });
+
+    expect(result.penalty).toBe(0);
+    expect(result.penaltyType).toBeNull();
+    expect(result.newRate).toBe(5.1);
+    expect(result.breakevenMonths).toBe(0);
+  });
+
+  it('only charges three months\' interest to break a variable mortgage', () => {
+    const result = analyzeRefinance({ ...params, existing: { ...existing, mortgageType: 'variable' } });
+
+    expect(result.penaltyType).toBe('three-months-interest');
+    expect(result.penalty).toBe(4444.76);
+  });
+
+  it('uses the lender\'s quoted penalty when given', () => {
+    const result = analyzeRefinance({ ...params, penaltyOverride: 5000 });
+
+    expect(result.penaltyType).toBe('quoted');
+    expect(result.penalty).toBe(5000);
+  });
+
+  it('rejects a property without a value', () => {
+    expect(() => analyzeRefinance({ ...params, propertyValue: 0 })).toThrow(
+      'Property value must be greater than zero'
+    );
+  });
+});
@@ -0,0 +1,82 @@
+import { simulateRenewalRisk } from '../renewal-risk';
+import type { RenewalRiskParams } from '@/types';
+
+const params: RenewalRiskParams = {
+  principal: 500000,
+  annualRate: 4.5,
+  amortizationYears: 25,
+  frequency: 'monthly',
+  termYears: 5,
+  comfortLimit: 3000,
+  simulations: 200
+};
+
+describe('simulateRenewalRisk', () => {
+  it('gives the same percentiles for the same seed', () => {
+    const first = simulateRenewalRisk({ ...params, seed: 42 });
+    const second = simulateRenewalRisk({ ...params, seed: 42 });
+
+    expect(second.terms).toEqual(first.terms);
+    expect(second.totalInterest).toEqual(first.totalInterest);
+    expect(second.probabilityExceedsComfort).toBe(first.probabilityExceedsComfort);
+  });
+
+  it('gives different paths for a different seed', () => {
+    const first = simulateRenewalRisk({ ...params, seed: 42 });
+    const second = simulateRenewalRisk({ ...params, seed: 43 });
+
+    expect(second.totalInterest).not.toEqual(first.totalInterest);
+  });
+
+  it('uses the model seed by default and reports it', () => {
+    const result = simulateRenewalRisk(params);
+
+    expect(simulateRenewalRisk({ ...params, seed: result.seed }).terms).toEqual(result.terms);
+  });
+
+  it('knows the first term rate exactly', () => {
+    const [firstTerm] = simulateRenewalRisk({ ...params, seed: 7 }).terms;
+
+    expect(firstTerm.annualRate).toEqual({ p10: 4.5, p50: 4.5, p90: 4.5 });
+    expect(firstTerm.monthlyPayment.p10).toBe(firstTerm.monthlyPayment.p90);
+  });
+
+  it('reverts towards the long-term rate with the model\'s spread', () => {
+    const { terms, model } = simulateRenewalRisk({
+      ...params,
+      annualRate: 8,
+      simulations: 2000,
+      seed: 20240601,
+      model: { longTermRate: 5, meanReversionSpeed: 0.3, volatility: 1, floorRate: 1, stepsPerYear: 12 }
+    });
+    const decay = (years: number) => Math.pow(1 - model.meanReversionSpeed / model.stepsPerYear, years * 12);
+    // Stationary spread of the Vasicek process after t years
+    const spread = (years: number) =>
+      Math.sqrt((1 - Math.exp(-2 * model.meanReversionSpeed * years)) / (2 * model.meanReversionSpeed));
+
+    [5, 10].forEach((years, i) => {
+      const { annualRate } = terms[i + 1];
+      const expected = 5 + 3 * decay(years);
+
+      expect(Math.abs(annualRate.p50 - expected)).toBeLessThan(0.15);
+      // P90 - P10 of a normal is 2 × 1.2816 standard deviations
+      expect(Math.abs(annualRate.p90 - annualRate.p10 - 2.5631 * spread(years))).toBeLessThan(0.25);
+    });
+    expect(terms[2].annualRate.p50).toBeLessThan(terms[1].annualRate.p50);
+  });
+
+  it('orders the payment and interest percentiles', () => {
+    const result = simulateRenewalRisk({ ...params, seed: 11 });
+
+    result.terms.forEach(term => {
+      expect(term.annualRate.p10).toBeLessThanOrEqual(term.annualRate.p50);
+      expect(term.annualRate.p50).toBeLessThanOrEqual(term.annualRate.p90);
+      expect(term.monthlyPayment.p10).toBeLessThanOrEqual(term.monthlyPayment.p50);
+      expect(term.monthlyPayment.p50).toBeLessThanOrEqual(term.monthlyPayment.p90);
+    });
+    expect(result.totalInterest.p10).toBeLessThan(result.totalInterest.p90);
+    // Payment risk at the first renewal is real but not certain
+    expect(result.probabilityExceedsComfort).toBeGreaterThan(0);
+    expect(result.probabilityExceedsComfort).toBeLessThan(1);
+  });
+});
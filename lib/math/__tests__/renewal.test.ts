@@ -0,0 +1,69 @@
+import { calculateBalanceAtDate, calculateTermSummary, projectRenewals } from '../renewal';
+import { calculatePayment } from '../payment';
+
+const startDate = new Date(2025, 0, 1);
+
+// Closed-form balance after k monthly payments, semi-annual compounding
+function closedFormBalance(principal: number, annualRate: number, amortizationYears: number, k: number) {
+  const i = Math.pow(1 + annualRate / 100 / 2, 2 / 12) - 1;
+  const payment = calculatePayment({ principal, annualRate, amortizationYears, frequency: 'monthly' });
+  const growth = Math.pow(1 + i, k);
+  return principal * growth - (payment * (growth - 1)) / i;
+}
+
+describe('calculateTermSummary', () => {
+  const summary = calculateTermSummary(500000, 5, 25, 'monthly', 5, startDate);
+
+  it('matches the closed-form balance at maturity', () => {
+    expect(Math.abs(summary.balanceAtMaturity - closedFormBalance(500000, 5, 25, 60))).toBeLessThan(1);
+  });
+
+  it('splits the term payments into interest and principal', () => {
+    expect(summary.maturityDate).toEqual(new Date(2030, 0, 1));
+    expect(summary.principalPaid + summary.balanceAtMaturity).toBeCloseTo(500000, 2);
+    expect(summary.interestPaid).toBeGreaterThan(summary.principalPaid);
+  });
+
+  it('never runs the term past the amortization', () => {
+    const short = calculateTermSummary(50000, 5, 3, 'monthly', 5, startDate);
+
+    expect(short.termYears).toBe(3);
+    expect(short.balanceAtMaturity).toBe(0);
+  });
+});
+
+describe('calculateBalanceAtDate', () => {
+  it('is the opening balance before the first payment', () => {
+    const dayBeforeStart = new Date(2024, 11, 31);
+
+    expect(calculateBalanceAtDate(300000, 5, 25, 'monthly', startDate, dayBeforeStart)).toBe(300000);
+  });
+});
+
+describe('projectRenewals', () => {
+  it('re-amortizes each maturity balance over the remaining amortization', () => {
+    const projection = projectRenewals(500000, 5, 25, 'monthly', 5, [
+      { annualRate: 6, termYears: 5 },
+      { annualRate: 4, termYears: 5 }
+    ], startDate);
+    const [first, second, third] = projection.terms;
+
+    expect(projection.terms).toHaveLength(3);
+    expect(second.openingBalance).toBe(first.balanceAtMaturity);
+    expect(second.remainingAmortizationYears).toBe(20);
+    expect(second.payment).toBeGreaterThan(first.payment); // higher rate at renewal
+    expect(third.payment).toBeLessThan(second.payment);
+    expect(projection.totalInterest).toBeCloseTo(first.interestPaid + second.interestPaid + third.interestPaid, 2);
+    expect(projection.finalBalance).toBe(third.balanceAtMaturity);
+  });
+
+  it('stops once the mortgage is paid off', () => {
+    const projection = projectRenewals(100000, 5, 10, 'monthly', 5, [
+      { annualRate: 5, termYears: 5 },
+      { annualRate: 5, termYears: 5 }
+    ], startDate);
+
+    expect(projection.terms).toHaveLength(2);
+    expect(projection.finalBalance).toBe(0);
+  });
+});
@@ -0,0 +1,75 @@
+import { compareRentVsBuy } from '../rent-vs-buy';
+import { getPolicyProfile } from '../policy';
+import type { RentVsBuyParams } from '@/types';
+
+const params: RentVsBuyParams = {
+  purchasePrice: 500000,
+  downPayment: 25000,
+  province: 'ON',
+  annualRate: 5,
+  amortizationYears: 25,
+  frequency: 'monthly',
+  closingCosts: 10000,
+  monthlyRent: 2200,
+  propertyTax: 5000,
+  startDate: new Date(2025, 0, 1)
+};
+
+describe('compareRentVsBuy', () => {
+  it('finances the insurance premium and starts the renter with the cash to close', () => {
+    const result = compareRentVsBuy(params);
+    const [start] = result.years;
+
+    expect(result.principal).toBe(494000);
+    expect(start.mortgageBalance).toBe(494000);
+    // 5% selling costs on the day of purchase
+    expect(start.homeEquity).toBe(-19000);
+    expect(start.renterPortfolio).toBe(35000);
+    expect(result.years).toHaveLength(26);
+  });
+
+  it('invests the cheaper side\'s savings so both spend the same', () => {
+    const result = compareRentVsBuy({ ...params, investmentReturn: 0, years: 10 });
+
+    for (let i = 1; i < result.years.length; i++) {
+      const year = result.years[i];
+      const previous = result.years[i - 1];
+      const ownerOutlay = year.ownerCosts + year.ownerPortfolio - previous.ownerPortfolio;
+      const renterOutlay = year.rent + year.renterPortfolio - previous.renterPortfolio;
+
+      expect(ownerOutlay).toBeCloseTo(renterOutlay, 1);
+    }
+  });
+
+  it('pays the mortgage off over the amortization', () => {
+    const result = compareRentVsBuy(params);
+
+    expect(result.years[25].mortgageBalance).toBe(0);
+    expect(result.years[25].homeEquity).toBeCloseTo(500000 * Math.pow(1.03, 25) * 0.95, 0);
+    expect(result.finalDifference).toBe(result.years[25].difference);
+  });
+
+  it('finds the year owning pulls ahead', () => {
+    const result = compareRentVsBuy(params);
+
+    expect(result.crossoverYear).not.toBeNull();
+    expect(result.years[result.crossoverYear! - 1].difference).toBeLessThan(0);
+    expect(result.years[result.crossoverYear!].difference).toBeGreaterThanOrEqual(0);
+  });
+
+  it('never crosses over when renting is far cheaper', () => {
+    const result = compareRentVsBuy({ ...params, monthlyRent: 1000, homeAppreciation: 0, years: 10 });
+
+    expect(result.crossoverYear).toBeNull();
+    expect(result.totalRent).toBeLessThan(result.totalOwnerCosts);
+  });
+
+  it('only insures below the policy\'s insured price cap', () => {
+    const purchase = { ...params, purchasePrice: 1200000, downPayment: 150000 };
+    const current = compareRentVsBuy({ ...purchase, policy: getPolicyProfile('standard', new Date(2025, 0, 1)) });
+    const before = compareRentVsBuy({ ...purchase, policy: getPolicyProfile('standard', new Date(2024, 0, 1)) });
+
+    expect(current.principal).toBeGreaterThan(1050000);
+    expect(before.principal).toBe(1050000);
+  });
+});
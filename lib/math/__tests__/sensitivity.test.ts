@@ -0,0 +1,157 @@
+import { calculateRateBreakeven, generateGridAxisValues, generateSensitivityGrid } from '../sensitivity';
+import { calculateGoalSeekMetrics, withScenarioValue } from '../goal-seek';
+import { POLICY_PROFILES } from '../policy';
+import type { GoalSeekScenario } from '@/types';
+
+const scenario: GoalSeekScenario = {
+  principal: 450000,
+  annualRate: 5,
+  amortizationYears: 25,
+  frequency: 'monthly',
+  grossAnnualIncome: 120000,
+  monthlyDebts: 400,
+  propertyTax: 350,
+  heatingCost: 100
+};
+
+describe('generateGridAxisValues', () => {
+  it('centres evenly spaced steps on the base value', () => {
+    expect(generateGridAxisValues(5, 0.5, 2)).toEqual([4, 4.5, 5, 5.5, 6]);
+    expect(generateGridAxisValues(0.3, 0.1, 2)).toEqual([0.1, 0.2, 0.3, 0.4, 0.5]);
+  });
+
+  it('drops values below the minimum', () => {
+    expect(generateGridAxisValues(1, 1, 2, 0.5)).toEqual([1, 2, 3]);
+  });
+});
+
+describe('generateSensitivityGrid', () => {
+  const rates = generateGridAxisValues(5, 1, 3);
+  const incomes = [80000, 100000, 120000, 140000];
+  const grid = generateSensitivityGrid({
+    scenario,
+    x: { variable: 'annualRate', values: rates },
+    y: { variable: 'grossAnnualIncome', values: incomes }
+  });
+
+  it('has one row per y value and one column per x value', () => {
+    expect(grid.cells).toHaveLength(incomes.length);
+    grid.cells.forEach(row => expect(row).toHaveLength(rates.length));
+    expect(grid.baseX).toBe(5);
+    expect(grid.baseY).toBe(120000);
+    expect(grid.cells[1][2]).toMatchObject({ x: 4, y: 100000 });
+  });
+
+  it('matches the scenario metrics for each cell', () => {
+    const cell = grid.cells[2][3];
+    const metrics = calculateGoalSeekMetrics(
+      withScenarioValue(withScenarioValue(scenario, 'annualRate', 5), 'grossAnnualIncome', 120000)
+    );
+
+    expect(cell.monthlyPayment).toBeCloseTo(metrics.monthlyPayment, 2);
+    expect(cell.stressTdsRatio).toBeCloseTo(metrics.stressTdsRatio, 2);
+  });
+
+  it('stops qualifying as rates rise and income falls', () => {
+    grid.cells.forEach(row => {
+      for (let i = 1; i < row.length; i++) {
+        expect(row[i].monthlyPayment).toBeGreaterThan(row[i - 1].monthlyPayment);
+        if (!row[i - 1].qualifies) expect(row[i].qualifies).toBe(false);
+      }
+    });
+
+    for (let column = 0; column < rates.length; column++) {
+      for (let row = 1; row < incomes.length; row++) {
+        if (grid.cells[row - 1][column].qualifies) {
+          expect(grid.cells[row][column].qualifies).toBe(true);
+        }
+      }
+    }
+
+    expect(grid.cells[3][0].qualifies).toBe(true);
+    expect(grid.cells[0][6].qualifies).toBe(false);
+  });
+
+  it('uses the policy limits unless they are overridden', () => {
+    const cell = (limits: { gdsLimit?: number; tdsLimit?: number }, policy = POLICY_PROFILES.standard) =>
+      generateSensitivityGrid({
+        scenario,
+        x: { variable: 'annualRate', values: [5] },
+        y: { variable: 'grossAnnualIncome', values: [120000] },
+        policy,
+        ...limits
+      }).cells[0][0];
+
+    expect(cell({}).passesStressTest).toBe(false);
+    expect(cell({}, POLICY_PROFILES['cmhc-insured']).passesStressTest).toBe(true);
+    expect(cell({ gdsLimit: 39, tdsLimit: 44 }).passesStressTest).toBe(true);
+  });
+
+  it('rejects two axes on the same input', () => {
+    expect(() =>
+      generateSensitivityGrid({
+        scenario,
+        x: { variable: 'annualRate', values: [5] },
+        y: { variable: 'annualRate', values: [6] }
+      })
+    ).toThrow('Sensitivity grid axes must vary two different inputs');
+  });
+});
+
+describe('calculateRateBreakeven', () => {
+  const startDate = new Date(2025, 0, 1);
+  const base = {
+    principal: 500000,
+    amortizationYears: 25,
+    frequency: 'monthly' as const,
+    termYears: 5,
+    fixedRate: 5,
+    discountToPrime: 0.9,
+    startDate
+  };
+
+  it('shows the variable staying cheaper on a flat path', () => {
+    const result = calculateRateBreakeven({
+      ...base,
+      primeRatePath: [{ date: startDate, primeRate: 5 }]
+    });
+
+    expect(result.termMonths).toBe(60);
+    expect(result.points).toHaveLength(60);
+    expect(result.initialVariableRate).toBe(4.1);
+    expect(result.monthlyDifference).toBeGreaterThan(0);
+    expect(result.breakevenMonth).toBeNull();
+    expect(result.totalSavingsVariable).toBe(result.points[59].variableSavings);
+    expect(result.totalSavingsVariable).toBeGreaterThan(0);
+    // The whole path has to rise by about the rate gap to cost the same
+    expect(result.breakevenRateIncrease).toBeGreaterThan(0.8);
+    expect(result.breakevenRateIncrease).toBeLessThan(1);
+  });
+
+  it('finds the month a rate hike wipes out the early savings', () => {
+    const result = calculateRateBreakeven({
+      ...base,
+      primeRatePath: [
+        { date: startDate, primeRate: 5 },
+        { date: new Date(2026, 0, 1), primeRate: 9 }
+      ]
+    });
+
+    expect(result.breakevenMonth).toBeGreaterThan(12);
+    expect(result.points[result.breakevenMonth! - 2].variableSavings).toBeGreaterThan(0);
+    expect(result.points[result.breakevenMonth! - 1].variableSavings).toBeLessThanOrEqual(0);
+    expect(result.totalSavingsVariable).toBeLessThan(0);
+    expect(result.breakevenRateIncrease).toBeLessThan(0);
+  });
+
+  it('breaks even immediately when both rates are the same', () => {
+    const result = calculateRateBreakeven({
+      ...base,
+      primeRatePath: [{ date: startDate, primeRate: 5.9 }]
+    });
+
+    expect(result.totalSavingsVariable).toBe(0);
+    expect(result.breakevenMonth).toBe(0);
+    expect(result.breakevenRateIncrease).toBe(0);
+  });
+});
@@ -0,0 +1,138 @@
+import {
+  DEFAULT_SHOCK_SCENARIOS,
+  buildShockScenarioLibrary,
+  combineShockScenarios,
+  runShockScenarios
+} from '../shock-scenarios';
+import type { Borrower, ShockTestParams } from '@/types';
+
+const borrowers: Borrower[] = [
+  { id: 'a', name: 'Alex', incomeSources: [{ type: 'salaried', annualAmount: 80000 }] },
+  { id: 's', name: 'Sam', incomeSources: [{ type: 'salaried', annualAmount: 50000 }] }
+];
+
+const params: ShockTestParams = {
+  principal: 400000,
+  annualRate: 5,
+  amortizationYears: 25,
+  frequency: 'monthly',
+  grossAnnualIncome: borrowers,
+  monthlyDebts: 300,
+  propertyTax: 350,
+  heatingCost: 100,
+  condoFees: 400
+};
+
+const scenario = (id: string) => DEFAULT_SHOCK_SCENARIOS.find(s => s.id === id)!;
+
+describe('buildShockScenarioLibrary', () => {
+  it('adds a job loss for each co-borrower', () => {
+    const library = buildShockScenarioLibrary(borrowers);
+
+    expect(library).toHaveLength(DEFAULT_SHOCK_SCENARIOS.length + 2);
+    expect(library[library.length - 2]).toEqual({
+      id: 'income-loss-a',
+      name: 'Alex loses their income',
+      shocks: [{ type: 'borrower-income-loss', borrower: 'a' }]
+    });
+  });
+
+  it('skips job losses for a sole borrower', () => {
+    expect(buildShockScenarioLibrary(120000)).toEqual(DEFAULT_SHOCK_SCENARIOS);
+    expect(buildShockScenarioLibrary([borrowers[0]])).toEqual(DEFAULT_SHOCK_SCENARIOS);
+  });
+});
+
+describe('runShockScenarios', () => {
+  const result = runShockScenarios(params);
+  const byId = Object.fromEntries(result.scenarios.map(r => [r.scenario.id, r]));
+
+  it('passes the baseline with no reserves needed', () => {
+    expect(result.baseline.annualRate).toBe(5);
+    expect(result.baseline.grossAnnualIncome).toBe(130000);
+    expect(result.baseline.passes).toBe(true);
+    expect(result.baseline.monthlyShortfall).toBe(0);
+    expect(result.shockDurationMonths).toBe(6);
+  });
+
+  it('applies rate, income and expense shocks', () => {
+    expect(byId['rate-up-2'].annualRate).toBe(7);
+    expect(byId['rate-up-2'].affordability.monthlyPayment).toBeGreaterThan(
+      result.baseline.affordability.monthlyPayment
+    );
+    expect(byId['income-down-20'].grossAnnualIncome).toBe(104000);
+    expect(byId['rate-up-2-income-down-20'].annualRate).toBe(7);
+    expect(byId['rate-up-2-income-down-20'].grossAnnualIncome).toBe(104000);
+    // Half of the doubled condo fee counts towards GDS
+    expect(byId['condo-fees-double'].affordability.monthlyHousingCosts).toBeCloseTo(
+      result.baseline.affordability.monthlyHousingCosts + 200,
+      2
+    );
+    expect(byId['property-tax-up-20'].affordability.monthlyHousingCosts).toBeCloseTo(
+      result.baseline.affordability.monthlyHousingCosts + 70,
+      2
+    );
+  });
+
+  it('removes a borrower\'s income on a job loss', () => {
+    expect(byId['income-loss-a'].grossAnnualIncome).toBe(50000);
+    expect(byId['income-loss-s'].grossAnnualIncome).toBe(80000);
+    expect(byId['income-loss-a'].passes).toBe(false);
+  });
+
+  it('lists the scenarios that fail GDS or TDS', () => {
+    expect(result.failingScenarios).toEqual(
+      result.scenarios.filter(r => !r.passesGds || !r.passesTds).map(r => r.scenario.id)
+    );
+    expect(result.failingScenarios).toContain('rate-up-2-income-down-20');
+  });
+
+  it('covers the shortfall for the length of the shock', () => {
+    const shocked = runShockScenarios({ ...params, shockDurationMonths: 3, liquidAssets: 5000 });
+
+    shocked.scenarios.forEach(r => {
+      expect(r.reservesNeeded).toBeCloseTo(r.monthlyShortfall * 3, 2);
+      expect(r.coveredByReserves).toBe(r.reservesNeeded <= 5000);
+    });
+    expect(shocked.baseline.coveredByReserves).toBe(true);
+    expect(result.baseline.coveredByReserves).toBeNull();
+  });
+
+  it('measures the shortfall against take-home pay', () => {
+    const net = runShockScenarios({ ...params, netMonthlyIncome: 8000 });
+    const jobLoss = net.scenarios.find(r => r.scenario.id === 'income-loss-a')!;
+
+    expect(net.baseline.monthlyIncome).toBe(8000);
+    expect(net.baseline.monthlyShortfall).toBe(0);
+    // Take-home pay falls with qualifying income: 50,000 of 130,000 is left
+    expect(jobLoss.monthlyIncome).toBe(3076.92);
+    expect(jobLoss.monthlyShortfall).toBeCloseTo(jobLoss.monthlyObligations - 3076.92, 2);
+    expect(jobLoss.reservesNeeded).toBeCloseTo(jobLoss.monthlyShortfall * 6, 2);
+  });
+
+  it('falls back to gross income without take-home pay', () => {
+    expect(byId['income-loss-a'].monthlyIncome).toBe(4166.67);
+    expect(byId['income-loss-a'].monthlyShortfall).toBe(0);
+  });
+
+  it('runs combined scenarios', () => {
+    const combined = combineShockScenarios('all', 'Everything', [
+      scenario('rate-up-2'),
+      scenario('property-tax-up-20')
+    ]);
+    const run = runShockScenarios({ ...params, scenarios: [combined] });
+
+    expect(combined.shocks).toHaveLength(2);
+    expect(run.scenarios[0].annualRate).toBe(7);
+    expect(run.scenarios).toHaveLength(1);
+  });
+
+  it('needs the borrower list to remove a borrower\'s income', () => {
+    const jobLoss = { id: 'x', name: 'X', shocks: [{ type: 'borrower-income-loss' as const, borrower: 'Pat' }] };
+
+    expect(() => runShockScenarios({ ...params, scenarios: [jobLoss] })).toThrow('Borrower Pat not found');
+    expect(() => runShockScenarios({ ...params, grossAnnualIncome: 130000, scenarios: [jobLoss] })).toThrow(
+      'Removing a borrower\'s income needs the borrower list'
+    );
+  });
+});
@@ -0,0 +1,106 @@
+import {
+  calculateTriggerRate,
+  generateVariableRateSchedule,
+  getPrimeRateAt,
+  getVariableRateAt
+} from '../variable-rate';
+import { getPeriodicRate } from '../payment';
+
+const startDate = new Date(2025, 0, 1);
+const primeRatePath = [
+  { date: new Date(2025, 0, 1), primeRate: 6 },
+  { date: new Date(2026, 0, 15), primeRate: 10 }
+];
+
+describe('getVariableRateAt', () => {
+  it('follows the prime rate path', () => {
+    expect(getPrimeRateAt(primeRatePath, new Date(2024, 5, 1))).toBe(6);
+    expect(getPrimeRateAt(primeRatePath, new Date(2026, 0, 14))).toBe(6);
+    expect(getPrimeRateAt(primeRatePath, new Date(2026, 0, 15))).toBe(10);
+  });
+
+  it('applies the discount without float noise', () => {
+    expect(getVariableRateAt(primeRatePath, 0.9, startDate)).toBe(5.1);
+    expect(getVariableRateAt(primeRatePath, 7, startDate)).toBe(0);
+  });
+});
+
+describe('calculateTriggerRate', () => {
+  it('is the rate where interest equals the payment', () => {
+    const triggerRate = calculateTriggerRate(500000, 2950, 12);
+
+    expect(500000 * getPeriodicRate(triggerRate, 12)).toBeCloseTo(2950, 0);
+  });
+
+  it('is never reached on a paid-off balance', () => {
+    expect(calculateTriggerRate(0, 2950, 12)).toBe(Infinity);
+  });
+});
+
+describe('generateVariableRateSchedule', () => {
+  const params = {
+    principal: 500000,
+    amortizationYears: 25,
+    frequency: 'monthly' as const,
+    primeRatePath,
+    discountToPrime: 0.9
+  };
+
+  it('hits the trigger rate and trigger point on a fixed-payment mortgage', () => {
+    const result = generateVariableRateSchedule({ ...params, paymentType: 'fixed-payment', startDate });
+
+    expect(result.initialRate).toBe(5.1);
+    expect(result.triggerRate).toBeGreaterThan(5.1);
+    expect(result.triggerRate).toBeLessThan(9.1);
+    expect(result.triggerPrimeRate).toBeCloseTo(result.triggerRate! + 0.9, 3);
+
+    // Prime moves to 10% on Jan 15 2026; the first payment after that is at 9.1%
+    const firstAtNewRate = result.schedule.findIndex(entry => entry.annualRate === 9.1);
+    expect(result.schedule[firstAtNewRate].paymentDate.getTime()).toBeGreaterThanOrEqual(
+      primeRatePath[1].date.getTime()
+    );
+    expect(result.triggerRateReached?.paymentNumber).toBe(firstAtNewRate + 1);
+    expect(result.triggerRateReached?.annualRate).toBe(9.1);
+    expect(result.schedule[firstAtNewRate].principal).toBeLessThan(0);
+    expect(result.schedule[firstAtNewRate].payment).toBe(result.initialPayment);
+
+    // The balance climbs back above the original principal later on
+    expect(result.triggerPointReached!.paymentNumber).toBeGreaterThan(firstAtNewRate + 1);
+    expect(result.triggerPointReached!.balance).toBeGreaterThan(500000);
+    expect(result.schedule[result.schedule.length - 1].balance).toBe(0);
+  });
+
+  it('re-amortizes an adjustable-payment mortgage on the rate change', () => {
+    const result = generateVariableRateSchedule({ ...params, paymentType: 'adjustable-payment', startDate });
+
+    expect(result.triggerRate).toBeNull();
+    const firstAtNewRate = result.schedule.findIndex(entry => entry.annualRate === 9.1);
+
+    expect(result.triggerRateReached).toBeNull();
+    expect(result.schedule[firstAtNewRate].payment).toBeGreaterThan(result.initialPayment);
+    expect(result.schedule[firstAtNewRate].principal).toBeGreaterThan(0);
+    expect(result.schedule).toHaveLength(300);
+    expect(result.schedule[299].balance).toBe(0);
+  });
+
+  it('pays off a fractional amortization on a whole number of payments', () => {
+    // 1.3 years of weekly payments is 67.6 periods, so the schedule runs 68
+    const result = generateVariableRateSchedule({
+      ...params,
+      principal: 50000,
+      amortizationYears: 1.3,
+      frequency: 'weekly',
+      paymentType: 'adjustable-payment',
+      startDate
+    });
+
+    expect(result.schedule).toHaveLength(68);
+    expect(result.schedule[67].balance).toBe(0);
+  });
+
+  it('rejects an empty prime path', () => {
+    expect(() =>
+      generateVariableRateSchedule({ ...params, primeRatePath: [], paymentType: 'fixed-payment' })
+    ).toThrow('Prime rate path must contain at least one rate');
+  });
+});
@@ -1,13 +1,38 @@
 import type {
   AffordabilityResult,
   PaymentFrequency,
-  PaymentCalculationParams
+  PaymentCalculationParams,
+  PolicyProfileId,
+  QualificationPolicy,
+  Liability,
+  Borrower
 } from '@/types';
 import { calculatePayment, convertToMonthlyPayment } from './payment';
+import { DEFAULT_POLICY } from './policy';
+import { resolveMonthlyDebts } from './liabilities';
+import { resolveQualifyingIncome } from './income';
+import { roundMoney, roundTo, sumMoney } from './money';
 
-// Standard Canadian mortgage qualifying ratios
-export const DEFAULT_GDS_THRESHOLD = 32; // 32%
-export const DEFAULT_TDS_THRESHOLD = 40; // 40%
+/**
+ * Resolve income and debts to the qualifying figures used in GDS/TDS
+ * A rental offset moves qualifying debts up or down (never below zero)
+ */
+export function resolveQualifyingFigures(
+  grossAnnualIncome: number | Borrower[],
+  monthlyDebts: number | Liability[],
+  policy: QualificationPolicy = DEFAULT_POLICY
+): { annualIncome: number; monthlyDebts: number } {
+  const income = resolveQualifyingIncome(grossAnnualIncome, policy);
+  const debts = sumMoney([resolveMonthlyDebts(monthlyDebts, policy), income.monthlyDebtAdjustment]);
+  return {
+    annualIncome: income.annualIncome,
+    monthlyDebts: Math.max(0, debts)
+  };
+}
+
+// Standard Canadian mortgage qualifying ratios (from the default policy)
+export const DEFAULT_GDS_THRESHOLD = DEFAULT_POLICY.gdsThreshold; // 32%
+export const DEFAULT_TDS_THRESHOLD = DEFAULT_POLICY.tdsThreshold; // 40%
 
 /**
  * Calculate Gross Debt Service (GDS) Ratio
@@ -39,19 +64,20 @@ export function calculateTDS(
 
 /**
  * Calculate complete affordability analysis
+ * GDS/TDS thresholds come from the policy profile; income may be a single
+ * figure or every borrower's income sources
  */
 export function calculateAffordability(
   principal: number,
   annualRate: number,
   amortizationYears: number,
   frequency: PaymentFrequency,
-  grossAnnualIncome: number,
-  monthlyDebts: number,
+  grossAnnualIncome: number | Borrower[], // Qualifying income or borrower list
+  monthlyDebts: number | Liability[], // Qualifying figure or liability list
   propertyTax: number = 0,
   heatingCost: number = 0,
   condoFees: number = 0,
-  gdsThreshold: number = DEFAULT_GDS_THRESHOLD,
-  tdsThreshold: number = DEFAULT_TDS_THRESHOLD
+  policy: QualificationPolicy = DEFAULT_POLICY
 ): AffordabilityResult {
   // Calculate mortgage payment
   const params: PaymentCalculationParams = {
@@ -63,7 +89,40 @@ export function calculateAffordability(
 
   const payment = calculatePayment(params);
   const monthlyPayment = convertToMonthlyPayment(payment, frequency);
-  const grossMonthlyIncome = grossAnnualIncome / 12;
+
+  return calculateAffordabilityForPayment(
+    monthlyPayment,
+    grossAnnualIncome,
+    monthlyDebts,
+    propertyTax,
+    heatingCost,
+    condoFees,
+    policy
+  );
+}
+
+/**
+ * Calculate affordability for a known monthly mortgage payment
+ * Used when the payment doesn't come from a single loan (e.g. the combined
+ * payment of a multi-segment mortgage)
+ */
+export function calculateAffordabilityForPayment(
+  monthlyPayment: number,
+  grossAnnualIncome: number | Borrower[], // Qualifying income or borrower list
+  monthlyDebts: number | Liability[], // Qualifying figure or liability list
+  propertyTax: number = 0,
+  heatingCost: number = 0,
+  condoFees: number = 0,
+  policy: QualificationPolicy = DEFAULT_POLICY
+): AffordabilityResult {
+  const { gdsThreshold, tdsThreshold } = policy;
+  const { annualIncome, monthlyDebts: qualifyingDebts } = resolveQualifyingFigures(
+    grossAnnualIncome,
+    monthlyDebts,
+    policy
+  );
+
+  const grossMonthlyIncome = annualIncome / 12;
 
   // Calculate total monthly housing costs
   // Include 50% of condo fees as per CMHC guidelines
@@ -72,19 +131,24 @@ export function calculateAffordability(
 
   // Calculate ratios
   const gdsRatio = calculateGDS(monthlyHousingCosts, grossMonthlyIncome);
-  const tdsRatio = calculateTDS(monthlyHousingCosts, monthlyDebts, grossMonthlyIncome);
+  const tdsRatio = calculateTDS(monthlyHousingCosts, qualifyingDebts, grossMonthlyIncome);
 
   // Determine affordability
   const isAffordable = gdsRatio <= gdsThreshold && tdsRatio <= tdsThreshold;
 
   return {
-    gdsRatio: Math.round(gdsRatio * 100) / 100, // Round to 2 decimals
-    tdsRatio: Math.round(tdsRatio * 100) / 100,
-    monthlyHousingCosts: Math.round(monthlyHousingCosts * 100) / 100,
-    monthlyPayment: Math.round(monthlyPayment * 100) / 100,
+    gdsRatio: roundTo(gdsRatio), // Round to 2 decimals
+    tdsRatio: roundTo(tdsRatio),
+    monthlyHousingCosts: roundMoney(monthlyHousingCosts),
+    monthlyPayment: roundMoney(monthlyPayment),
+    monthlyDebts: qualifyingDebts,
+    grossAnnualIncome: annualIncome,
     isAffordable,
     gdsThreshold,
-    tdsThreshold
+    tdsThreshold,
+    policyId: policy.id,
+    policyVersion: policy.version,
+    policyName: policy.name
   };
 }
 
@@ -93,24 +157,34 @@ export function calculateAffordability(
  * This works backwards from the ratios to determine max borrowing capacity
  */
 export function calculateMaxAffordableMortgage(
-  grossAnnualIncome: number,
-  monthlyDebts: number,
+  grossAnnualIncome: number | Borrower[], // Qualifying income or borrower list
+  monthlyDebts: number | Liability[], // Qualifying figure or liability list
   annualRate: number,
   amortizationYears: number,
   propertyTax: number = 0,
   heatingCost: number = 0,
   condoFees: number = 0,
-  gdsThreshold: number = DEFAULT_GDS_THRESHOLD,
-  tdsThreshold: number = DEFAULT_TDS_THRESHOLD
-): { maxByGDS: number; maxByTDS: number; maxMortgage: number } {
-  const grossMonthlyIncome = grossAnnualIncome / 12;
+  policy: QualificationPolicy = DEFAULT_POLICY
+): {
+  maxByGDS: number;
+  maxByTDS: number;
+  maxMortgage: number;
+  policyId: PolicyProfileId;
+} {
+  const { gdsThreshold, tdsThreshold } = policy;
+  const { annualIncome, monthlyDebts: qualifyingDebts } = resolveQualifyingFigures(
+    grossAnnualIncome,
+    monthlyDebts,
+    policy
+  );
+  const grossMonthlyIncome = annualIncome / 12;
 
   // Calculate max housing costs by GDS
   const maxHousingCostsByGDS = (gdsThreshold / 100) * grossMonthlyIncome;
 
   // Calculate max total debt by TDS
   const maxTotalDebtByTDS = (tdsThreshold / 100) * grossMonthlyIncome;
-  const maxHousingCostsByTDS = maxTotalDebtByTDS - monthlyDebts;
+  const maxHousingCostsByTDS = maxTotalDebtByTDS - qualifyingDebts;
 
   // Use the more restrictive limit
   const maxHousingCosts = Math.min(maxHousingCostsByGDS, maxHousingCostsByTDS);
@@ -154,8 +228,9 @@ export function calculateMaxAffordableMortgage(
   }
 
   return {
-    maxByGDS: Math.max(0, Math.round(maxByGDS * 100) / 100),
-    maxByTDS: Math.max(0, Math.round(maxByTDS * 100) / 100),
-    maxMortgage: Math.max(0, Math.round(maxMortgage * 100) / 100)
+    maxByGDS: Math.max(0, roundMoney(maxByGDS)),
+    maxByTDS: Math.max(0, roundMoney(maxByTDS)),
+    maxMortgage: Math.max(0, roundMoney(maxMortgage)),
+    policyId: policy.id
   };
 }
@@ -0,0 +1,233 @@
+import type {
+  AlternativeLoanParams,
+  AlternativeLoanResult,
+  AmortizationEntry,
+  CombinedPositionParams,
+  CombinedPositionResult,
+  LenderType
+} from '@/types';
+import {
+  MONTHLY_COMPOUNDING,
+  SEMI_ANNUAL_COMPOUNDING,
+  calculatePayment,
+  convertToMonthlyPayment,
+  getAnnualRateFromPeriodicRate,
+  getPaymentsPerYear,
+  getPeriodicRate
+} from './payment';
+import { getScheduledPaymentDate } from './dates';
+import { calculateAffordabilityForPayment } from './affordability';
+import { DEFAULT_POLICY } from './policy';
+import { calculateInterestCents, fromCents, roundMoney, roundTo, sumMoney, toCents } from './money';
+
+// Compounding each lender type quotes its rates with
+const DEFAULT_COMPOUNDING: Record<LenderType, number> = {
+  institutional: SEMI_ANNUAL_COMPOUNDING,
+  private: MONTHLY_COMPOUNDING
+};
+
+// Bisection settings for the APR solve
+const APR_TOLERANCE = 1e-10;
+const APR_MAX_ITERATIONS = 200;
+
+/**
+ * Calculate the interest-only payment for one period
+ */
+export function calculateInterestOnlyPayment(
+  principal: number,
+  annualRate: number,
+  paymentsPerYear: number,
+  compoundingsPerYear: number = SEMI_ANNUAL_COMPOUNDING
+): number {
+  const periodicRate = getPeriodicRate(annualRate, paymentsPerYear, compoundingsPerYear);
+  return fromCents(calculateInterestCents(toCents(principal), periodicRate));
+}
+
+/**
+ * Present value of a series of payments, one per period, at a periodic rate
+ */
+function presentValue(cashFlows: number[], periodicRate: number): number {
+  return cashFlows.reduce((sum, cashFlow, i) => sum + cashFlow / Math.pow(1 + periodicRate, i + 1), 0);
+}
+
+/**
+ * Solve for the periodic rate that discounts the cash flows back to the amount
+ * advanced (the loan's internal rate of return). Present value falls as the
+ * rate rises, so bisection converges on the single root.
+ */
+function solvePeriodicRate(amountAdvanced: number, cashFlows: number[]): number {
+  let low = 0;
+  let high = 1;
+  if (presentValue(cashFlows, low) <= amountAdvanced) return 0;
+
+  for (let i = 0; i < APR_MAX_ITERATIONS && high - low > APR_TOLERANCE; i++) {
+    const mid = (low + high) / 2;
+    if (presentValue(cashFlows, mid) > amountAdvanced) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return (low + high) / 2;
+}
+
+/**
+ * Analyze an interest-only, balloon or private loan over its term
+ *
+ * - Interest-only: each payment is the period's interest and the full
+ *   principal is due at maturity
+ * - Amortizing: payments are set by the amortization; when the term is
+ *   shorter, the balance left at maturity is the balloon
+ *
+ * Private loans compound monthly and institutional ones semi-annually, unless
+ * the compounding is given.
+ *
+ * Lender, broker and other fees are deducted from the advance, so the
+ * borrower receives less than the face amount but pays interest on all of it.
+ * The effective APR is the rate at which the payments and the balloon are
+ * worth exactly the net advance, quoted with the loan's own compounding so
+ * that it equals the contract rate when there are no fees.
+ */
+export function analyzeAlternativeLoan(params: AlternativeLoanParams): AlternativeLoanResult {
+  const {
+    principal,
+    annualRate,
+    termMonths,
+    repaymentType,
+    lenderType = 'institutional',
+    frequency = 'monthly',
+    compoundingsPerYear = DEFAULT_COMPOUNDING[lenderType],
+    startDate = new Date()
+  } = params;
+
+  if (termMonths <= 0) {
+    throw new Error('Term must be at least one month');
+  }
+  if (repaymentType === 'amortizing' && !(params.amortizationYears && params.amortizationYears > 0)) {
+    throw new Error('An amortizing loan needs an amortization period');
+  }
+
+  const totalFees = sumMoney([params.lenderFee ?? 0, params.brokerFee ?? 0, params.otherFees ?? 0]);
+  const netAdvance = fromCents(toCents(principal) - toCents(totalFees));
+  if (netAdvance <= 0) {
+    throw new Error('Fees cannot be more than the loan amount');
+  }
+
+  const paymentsPerYear = getPaymentsPerYear(frequency);
+  const periodicRate = getPeriodicRate(annualRate, paymentsPerYear, compoundingsPerYear);
+  const termPayments = Math.max(1, Math.round((termMonths / 12) * paymentsPerYear));
+  const amortizationPayments = repaymentType === 'amortizing'
+    ? Math.round((params.amortizationYears ?? 0) * paymentsPerYear)
+    : Infinity;
+
+  const paymentCents = repaymentType === 'interest-only'
+    ? toCents(calculateInterestOnlyPayment(principal, annualRate, paymentsPerYear, compoundingsPerYear))
+    : toCents(
+        calculatePayment({
+          principal,
+          annualRate,
+          amortizationYears: params.amortizationYears ?? 0,
+          frequency,
+          compoundingsPerYear
+        })
+      );
+
+  const schedule: AmortizationEntry[] = [];
+  let balanceCents = toCents(principal);
+
+  for (let i = 1; i <= termPayments && balanceCents > 0; i++) {
+    const interestCents = calculateInterestCents(balanceCents, periodicRate);
+    // The last amortization payment clears the balance; never pay down more
+    // than is owing
+    const principalCents = i >= amortizationPayments
+      ? balanceCents
+      : Math.min(Math.max(0, paymentCents - interestCents), balanceCents);
+    balanceCents -= principalCents;
+
+    schedule.push({
+      paymentNumber: i,
+      paymentDate: getScheduledPaymentDate(startDate, frequency, i),
+      payment: fromCents(principalCents + interestCents),
+      principal: fromCents(principalCents),
+      interest: fromCents(interestCents),
+      balance: fromCents(balanceCents)
+    });
+  }
+
+  const balloonPayment = fromCents(balanceCents);
+  const totalInterest = sumMoney(schedule.map(entry => entry.interest));
+
+  // The balloon is paid with the last regular payment
+  const cashFlows = schedule.map((entry, i) =>
+    i === schedule.length - 1 ? entry.payment + balloonPayment : entry.payment
+  );
+  const effectiveAPR = getAnnualRateFromPeriodicRate(
+    solvePeriodicRate(netAdvance, cashFlows),
+    paymentsPerYear,
+    compoundingsPerYear
+  );
+
+  return {
+    principal: roundMoney(principal),
+    repaymentType,
+    lenderType,
+    compoundingsPerYear,
+    payment: fromCents(paymentCents),
+    monthlyPayment: roundMoney(convertToMonthlyPayment(fromCents(paymentCents), frequency)),
+    totalFees,
+    netAdvance,
+    schedule,
+    balloonPayment,
+    maturityDate: schedule[schedule.length - 1].paymentDate,
+    totalInterest,
+    costOfBorrowing: sumMoney([totalInterest, totalFees]),
+    effectiveAPR: roundTo(effectiveAPR, 3)
+  };
+}
+
+/**
+ * Analyze a first mortgage with a second registered behind it
+ * Combined LTV counts both charges against the property; GDS/TDS count both
+ * payments as housing costs, each at its contract rate.
+ */
+export function analyzeCombinedPosition(params: CombinedPositionParams): CombinedPositionResult {
+  const {
+    propertyValue,
+    first,
+    grossAnnualIncome,
+    monthlyDebts,
+    propertyTax = 0,
+    heatingCost = 0,
+    condoFees = 0,
+    policy = DEFAULT_POLICY
+  } = params;
+
+  if (propertyValue <= 0) {
+    throw new Error('Property value must be greater than zero');
+  }
+
+  const second = analyzeAlternativeLoan(params.second);
+  const firstMonthlyPayment = roundMoney(
+    convertToMonthlyPayment(calculatePayment(first), first.frequency)
+  );
+  const combinedMonthlyPayment = sumMoney([firstMonthlyPayment, second.monthlyPayment]);
+  const combinedBalance = sumMoney([first.principal, second.principal]);
+
+  return {
+    firstMonthlyPayment,
+    second,
+    combinedBalance,
+    combinedMonthlyPayment,
+    firstLtv: roundTo((first.principal / propertyValue) * 100),
+    combinedLtv: roundTo((combinedBalance / propertyValue) * 100),
+    affordability: calculateAffordabilityForPayment(
+      combinedMonthlyPayment,
+      grossAnnualIncome,
+      monthlyDebts,
+      propertyTax,
+      heatingCost,
+      condoFees,
+      policy
+    )
+  };
+}
@@ -0,0 +1,152 @@
+import type {
+  BridgeLoanParams,
+  BridgeLoanResult,
+  PortMortgageParams,
+  PortMortgageResult
+} from '@/types';
+import {
+  MONTHLY_COMPOUNDING,
+  calculatePayment,
+  convertToMonthlyPayment,
+  getPeriodicRate
+} from './payment';
+import { calculateBlendedRate, estimatePayoutPenalty } from './refinance';
+import { fromCents, roundMoney, roundTo, sumMoney, toCents } from './money';
+
+// Bridge loans accrue interest daily, compounded monthly
+const DAYS_PER_YEAR = 365;
+
+// Interest per dollar borrowed over the bridge period
+function getBridgeInterestFactor(annualRate: number, days: number): number {
+  const dailyRate = getPeriodicRate(annualRate, DAYS_PER_YEAR, MONTHLY_COMPOUNDING);
+  return Math.pow(1 + dailyRate, Math.max(0, days)) - 1;
+}
+
+/**
+ * Interest on a bridge loan held for a number of days
+ */
+export function calculateBridgeInterest(amount: number, annualRate: number, days: number): number {
+  return roundMoney(amount * getBridgeInterestFactor(annualRate, days));
+}
+
+/**
+ * Calculate a bridge loan for buying before the current home's sale closes
+ *
+ * The equity available is the firm sale price less selling costs and the
+ * mortgage payout (balance plus the payout penalty). The bridge, its interest
+ * and the fee are all repaid from those proceeds when the sale closes, so the
+ * largest bridge is (net proceeds - fee) / (1 + interest factor).
+ */
+export function calculateBridgeLoan(params: BridgeLoanParams): BridgeLoanResult {
+  const {
+    salePrice,
+    existing,
+    sellingCostPercent = 0,
+    bridgeRate,
+    bridgeDays
+  } = params;
+  const bridgeFee = roundMoney(params.bridgeFee ?? 0);
+
+  if (bridgeDays < 0) {
+    throw new Error('Bridge days cannot be negative');
+  }
+
+  const { penalty, penaltyType } = params.penaltyOverride !== undefined
+    ? { penalty: roundMoney(params.penaltyOverride), penaltyType: 'quoted' as const }
+    : estimatePayoutPenalty(existing);
+  const mortgagePayout = sumMoney([existing.balance, penalty]);
+  const sellingCosts = sumMoney([(salePrice * sellingCostPercent) / 100, params.sellingCosts ?? 0]);
+  const netSaleProceeds = fromCents(
+    Math.max(0, toCents(salePrice) - toCents(sellingCosts) - toCents(mortgagePayout))
+  );
+
+  const interestFactor = getBridgeInterestFactor(bridgeRate, bridgeDays);
+  const maxBridgeAmount = fromCents(
+    Math.max(0, Math.floor((toCents(netSaleProceeds) - toCents(bridgeFee)) / (1 + interestFactor)))
+  );
+  const amountNeeded = params.amountNeeded ?? maxBridgeAmount;
+  const bridgeAmount = Math.min(roundMoney(amountNeeded), maxBridgeAmount);
+  const bridgeInterest = calculateBridgeInterest(bridgeAmount, bridgeRate, bridgeDays);
+  const totalBridgeCost = bridgeAmount > 0 ? sumMoney([bridgeInterest, bridgeFee]) : 0;
+
+  return {
+    salePrice: roundMoney(salePrice),
+    sellingCosts,
+    mortgageBalance: roundMoney(existing.balance),
+    penalty,
+    penaltyType,
+    mortgagePayout,
+    netSaleProceeds,
+    maxBridgeAmount,
+    bridgeAmount,
+    shortfall: fromCents(Math.max(0, toCents(amountNeeded) - toCents(bridgeAmount))),
+    bridgeInterest,
+    bridgeFee: bridgeAmount > 0 ? bridgeFee : 0,
+    totalBridgeCost,
+    proceedsAfterBridge: fromCents(
+      toCents(netSaleProceeds) - toCents(bridgeAmount) - toCents(totalBridgeCost)
+    )
+  };
+}
+
+/**
+ * Port the existing mortgage to a new home and add new money
+ *
+ * The ported balance keeps its rate and the new money takes today's rate; the
+ * lender blends the two (weighted by amount) for the rest of the existing
+ * term, and the whole mortgage is paid at the blended rate over the new
+ * amortization. Porting avoids the payout penalty on the existing mortgage.
+ */
+export function portMortgage(params: PortMortgageParams): PortMortgageResult {
+  const { existing, newMortgageAmount, newMoneyRate, amortizationYears, propertyValue } = params;
+  const frequency = params.frequency ?? existing.frequency;
+
+  if (newMortgageAmount < existing.balance) {
+    throw new Error('The new mortgage must be at least the balance being ported');
+  }
+
+  const newMoney = fromCents(toCents(newMortgageAmount) - toCents(existing.balance));
+  const termMonths = existing.remainingTermMonths;
+  const blendedRate = calculateBlendedRate(
+    existing.balance,
+    existing.annualRate,
+    termMonths,
+    newMoneyRate,
+    termMonths,
+    newMoney
+  );
+
+  const paymentOn = (principal: number, annualRate: number) =>
+    calculatePayment({ principal, annualRate, amortizationYears, frequency });
+  const blendedPayment = roundMoney(paymentOn(newMortgageAmount, blendedRate));
+  const monthlyBlendedPayment = roundMoney(convertToMonthlyPayment(blendedPayment, frequency));
+
+  const existingMonthlyPayment = roundMoney(
+    convertToMonthlyPayment(
+      calculatePayment({
+        principal: existing.balance,
+        annualRate: existing.annualRate,
+        amortizationYears: existing.remainingAmortizationYears,
+        frequency: existing.frequency
+      }),
+      existing.frequency
+    )
+  );
+
+  return {
+    portedBalance: roundMoney(existing.balance),
+    portedRate: existing.annualRate,
+    newMoney,
+    newMoneyRate,
+    blendedRate,
+    termMonths,
+    portedPayment: roundMoney(paymentOn(existing.balance, existing.annualRate)),
+    newMoneyPayment: roundMoney(paymentOn(newMoney, newMoneyRate)),
+    blendedPayment,
+    monthlyBlendedPayment,
+    existingMonthlyPayment,
+    monthlyPaymentIncrease: fromCents(toCents(monthlyBlendedPayment) - toCents(existingMonthlyPayment)),
+    penaltyAvoided: estimatePayoutPenalty(existing).penalty,
+    ltv: propertyValue ? roundTo((newMortgageAmount / propertyValue) * 100) : null
+  };
+}
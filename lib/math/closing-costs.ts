@@ -0,0 +1,298 @@
+import type {
+  Province,
+  TransferTaxBracket,
+  TransferTaxSchedule,
+  FirstTimeBuyerRebateRule,
+  LandTransferTaxResult,
+  ClosingCostDefaults,
+  ClosingCostParams,
+  ClosingCostResult
+} from '@/types';
+import { fromCents, roundMoney, sumMoney, toCents } from './money';
+
+/**
+ * Provincial land transfer tax schemes (residential)
+ * Provinces without a transfer tax charge a title registration fee instead,
+ * which is modelled with the same brackets/fee structure.
+ */
+export const PROVINCIAL_TRANSFER_TAX: Record<Province, TransferTaxSchedule> = {
+  ON: {
+    brackets: [
+      { upTo: 55000, rate: 0.5 },
+      { upTo: 250000, rate: 1.0 },
+      { upTo: 400000, rate: 1.5 },
+      { upTo: 2000000, rate: 2.0 },
+      { upTo: Infinity, rate: 2.5 }
+    ],
+    firstTimeBuyerRebate: { maxRebate: 4000 }
+  },
+  BC: {
+    brackets: [
+      { upTo: 200000, rate: 1.0 },
+      { upTo: 2000000, rate: 2.0 },
+      { upTo: 3000000, rate: 3.0 },
+      { upTo: Infinity, rate: 5.0 }
+    ],
+    // Tax on the first $500k is exempt, phased out between $835k and $860k
+    firstTimeBuyerRebate: { exemptValue: 500000, phaseOutStart: 835000, phaseOutEnd: 860000 }
+  },
+  MB: {
+    brackets: [
+      { upTo: 30000, rate: 0 },
+      { upTo: 90000, rate: 0.5 },
+      { upTo: 150000, rate: 1.0 },
+      { upTo: 200000, rate: 1.5 },
+      { upTo: Infinity, rate: 2.0 }
+    ]
+  },
+  QC: {
+    // "Welcome tax" brackets, indexed annually
+    brackets: [
+      { upTo: 61500, rate: 0.5 },
+      { upTo: 307800, rate: 1.0 },
+      { upTo: Infinity, rate: 1.5 }
+    ]
+  },
+  NB: {
+    brackets: [{ upTo: Infinity, rate: 1.0 }]
+  },
+  NS: {
+    // Municipal deed transfer tax; 1.5% in Halifax
+    brackets: [{ upTo: Infinity, rate: 1.5 }]
+  },
+  PE: {
+    brackets: [
+      { upTo: 30000, rate: 0 },
+      { upTo: Infinity, rate: 1.0 }
+    ],
+    firstTimeBuyerRebate: { maxRebate: Infinity }
+  },
+  NL: {
+    // Registration fee: $100 plus 0.4% of the value above $500
+    brackets: [
+      { upTo: 500, rate: 0 },
+      { upTo: Infinity, rate: 0.4 }
+    ],
+    baseFee: 100
+  },
+  AB: {
+    // Land titles transfer fee: $50 plus $5 per $5,000 of value
+    brackets: [],
+    baseFee: 50,
+    feePerUnit: { unit: 5000, fee: 5 }
+  },
+  SK: {
+    // Title fee: 0.4% of the value above $6,300
+    brackets: [
+      { upTo: 6300, rate: 0 },
+      { upTo: Infinity, rate: 0.4 }
+    ],
+    baseFee: 25
+  },
+  YT: {
+    brackets: [],
+    baseFee: 50,
+    feePerUnit: { unit: 1000, fee: 0.5 }
+  },
+  NT: {
+    brackets: [],
+    baseFee: 100,
+    feePerUnit: { unit: 1000, fee: 1.5 }
+  },
+  NU: {
+    brackets: [],
+    baseFee: 100,
+    feePerUnit: { unit: 1000, fee: 1.5 }
+  }
+};
+
+/**
+ * Toronto municipal land transfer tax (charged on top of Ontario's)
+ */
+export const TORONTO_MUNICIPAL_TRANSFER_TAX: TransferTaxSchedule = {
+  brackets: [
+    { upTo: 55000, rate: 0.5 },
+    { upTo: 250000, rate: 1.0 },
+    { upTo: 400000, rate: 1.5 },
+    { upTo: 2000000, rate: 2.0 },
+    { upTo: 3000000, rate: 2.5 },
+    { upTo: 4000000, rate: 3.5 },
+    { upTo: 5000000, rate: 4.5 },
+    { upTo: 10000000, rate: 5.5 },
+    { upTo: 20000000, rate: 6.5 },
+    { upTo: Infinity, rate: 7.5 }
+  ],
+  firstTimeBuyerRebate: { maxRebate: 4475 }
+};
+
+// Typical closing costs outside of taxes
+export const DEFAULT_CLOSING_COSTS: ClosingCostDefaults = {
+  legalFees: 1500,
+  titleInsurance: 350,
+  inspection: 500,
+  adjustments: 1000
+};
+
+/**
+ * Apply marginal brackets to a value
+ */
+function applyBrackets(value: number, brackets: TransferTaxBracket[]): number {
+  let tax = 0;
+  let lowerBound = 0;
+
+  for (const bracket of brackets) {
+    if (value <= lowerBound) break;
+    const taxable = Math.min(value, bracket.upTo) - lowerBound;
+    tax += taxable * (bracket.rate / 100);
+    lowerBound = bracket.upTo;
+  }
+
+  return tax;
+}
+
+/**
+ * Calculate the tax (or registration fee) for a schedule before any rebate
+ */
+export function calculateTransferTax(value: number, schedule: TransferTaxSchedule): number {
+  let tax = applyBrackets(value, schedule.brackets);
+
+  if (schedule.baseFee) {
+    tax += schedule.baseFee;
+  }
+
+  if (schedule.feePerUnit) {
+    tax += Math.ceil(value / schedule.feePerUnit.unit) * schedule.feePerUnit.fee;
+  }
+
+  return roundMoney(tax);
+}
+
+/**
+ * Calculate the first-time buyer rebate against a schedule's tax
+ */
+function calculateFirstTimeBuyerRebate(
+  value: number,
+  tax: number,
+  schedule: TransferTaxSchedule,
+  rule: FirstTimeBuyerRebateRule
+): number {
+  let rebate = rule.exemptValue !== undefined
+    ? applyBrackets(Math.min(value, rule.exemptValue), schedule.brackets)
+    : tax;
+
+  if (rule.maxRebate !== undefined) {
+    rebate = Math.min(rebate, rule.maxRebate);
+  }
+
+  // Linear phase-out between the two prices
+  if (rule.phaseOutStart !== undefined && rule.phaseOutEnd !== undefined) {
+    if (value >= rule.phaseOutEnd) return 0;
+    if (value > rule.phaseOutStart) {
+      rebate *= (rule.phaseOutEnd - value) / (rule.phaseOutEnd - rule.phaseOutStart);
+    }
+  }
+
+  return roundMoney(Math.min(rebate, tax));
+}
+
+/**
+ * Calculate land transfer tax for a purchase
+ * Includes the Toronto municipal tax for Toronto purchases and any
+ * first-time buyer rebates
+ */
+export function calculateLandTransferTax(
+  purchasePrice: number,
+  province: Province,
+  isFirstTimeBuyer: boolean = false,
+  isToronto: boolean = false
+): LandTransferTaxResult {
+  const provincialSchedule = PROVINCIAL_TRANSFER_TAX[province];
+  const provincialTax = calculateTransferTax(purchasePrice, provincialSchedule);
+
+  const hasMunicipalTax = province === 'ON' && isToronto;
+  const municipalTax = hasMunicipalTax
+    ? calculateTransferTax(purchasePrice, TORONTO_MUNICIPAL_TRANSFER_TAX)
+    : 0;
+
+  let firstTimeBuyerRebate = 0;
+  if (isFirstTimeBuyer) {
+    if (provincialSchedule.firstTimeBuyerRebate) {
+      firstTimeBuyerRebate += calculateFirstTimeBuyerRebate(
+        purchasePrice,
+        provincialTax,
+        provincialSchedule,
+        provincialSchedule.firstTimeBuyerRebate
+      );
+    }
+    if (hasMunicipalTax && TORONTO_MUNICIPAL_TRANSFER_TAX.firstTimeBuyerRebate) {
+      firstTimeBuyerRebate += calculateFirstTimeBuyerRebate(
+        purchasePrice,
+        municipalTax,
+        TORONTO_MUNICIPAL_TRANSFER_TAX,
+        TORONTO_MUNICIPAL_TRANSFER_TAX.firstTimeBuyerRebate
+      );
+    }
+  }
+
+  return {
+    province,
+    provincialTax,
+    municipalTax,
+    firstTimeBuyerRebate: roundMoney(firstTimeBuyerRebate),
+    totalTax: fromCents(toCents(provincialTax) + toCents(municipalTax) - toCents(firstTimeBuyerRebate))
+  };
+}
+
+/**
+ * Estimate closing costs and cash to close for a purchase
+ * Land transfer tax plus legal fees, title insurance, inspection, adjustments,
+ * the insurance premium sales tax and any interest adjustment. Non-tax costs
+ * come from DEFAULT_CLOSING_COSTS unless overridden.
+ */
+export function calculateClosingCosts(params: ClosingCostParams): ClosingCostResult {
+  const {
+    purchasePrice,
+    province,
+    downPayment = 0,
+    isFirstTimeBuyer = false,
+    isToronto = false,
+    premiumTax = 0,
+    interestAdjustment = 0,
+    costs = {}
+  } = params;
+
+  const { legalFees, titleInsurance, inspection, adjustments } = {
+    ...DEFAULT_CLOSING_COSTS,
+    ...costs
+  };
+
+  const landTransferTax = calculateLandTransferTax(
+    purchasePrice,
+    province,
+    isFirstTimeBuyer,
+    isToronto
+  );
+
+  const totalClosingCosts = sumMoney([
+    landTransferTax.totalTax,
+    legalFees,
+    titleInsurance,
+    inspection,
+    adjustments,
+    premiumTax,
+    interestAdjustment
+  ]);
+
+  return {
+    landTransferTax,
+    legalFees,
+    titleInsurance,
+    inspection,
+    adjustments,
+    premiumTax,
+    interestAdjustment,
+    totalClosingCosts,
+    downPayment,
+    cashToClose: sumMoney([downPayment, totalClosingCosts])
+  };
+}
@@ -0,0 +1,202 @@
+import type { InterestAdjustment, PaymentFrequency } from '@/types';
+import { roundMoney } from './money';
+
+// Semi-monthly payments fall on these two days of every month
+export const DEFAULT_SEMI_MONTHLY_DAYS: [number, number] = [1, 15];
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Build a date on a day of a month, clamped to the last day of that month
+ * (e.g. the 31st in February becomes the 28th/29th). Months past 11 roll
+ * into later years.
+ */
+function clampedDate(year: number, month: number, day: number, timeOf: Date): Date {
+  const lastDay = new Date(year, month + 1, 0).getDate();
+  const result = new Date(timeOf);
+  result.setFullYear(year, month, Math.min(day, lastDay));
+  return result;
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+/**
+ * Whole calendar days between two dates (ignores time of day and DST)
+ */
+export function daysBetween(from: Date, to: Date): number {
+  const fromUtc = Date.UTC(from.getFullYear(), from.getMonth(), from.getDate());
+  const toUtc = Date.UTC(to.getFullYear(), to.getMonth(), to.getDate());
+  return Math.round((toUtc - fromUtc) / MS_PER_DAY);
+}
+
+/**
+ * Locate a date in the semi-monthly cycle: the slot (0 or 1) and month of
+ * the first payment day on or after it
+ */
+function getSemiMonthlySlot(
+  date: Date,
+  semiMonthlyDays: [number, number]
+): { year: number; month: number; slot: number } {
+  const days = [...semiMonthlyDays].sort((a, b) => a - b);
+  const year = date.getFullYear();
+  const month = date.getMonth();
+  const lastDay = new Date(year, month + 1, 0).getDate();
+
+  for (let slot = 0; slot < 2; slot++) {
+    if (date.getDate() <= Math.min(days[slot], lastDay)) {
+      return { year, month, slot };
+    }
+  }
+  return { year, month: month + 1, slot: 0 };
+}
+
+/**
+ * Get the date of the payment `index` periods after the first payment
+ * - Monthly: same day of month as the first payment, clamped to month end
+ * - Semi-monthly: the two fixed days of each month
+ * - Weekly / bi-weekly (incl. accelerated): exactly 7 / 14 days apart
+ * Dates are computed from the date passed in, so clamping in a short month
+ * never shifts later payments. Schedules should count from the interest
+ * adjustment date (see getScheduledPaymentDate) rather than from a first
+ * payment that may itself have been clamped.
+ */
+export function getPaymentDate(
+  firstPaymentDate: Date,
+  frequency: PaymentFrequency,
+  index: number,
+  semiMonthlyDays: [number, number] = DEFAULT_SEMI_MONTHLY_DAYS
+): Date {
+  switch (frequency) {
+    case 'weekly':
+    case 'accelerated-weekly':
+      return addDays(firstPaymentDate, index * 7);
+
+    case 'bi-weekly':
+    case 'accelerated-bi-weekly':
+      return addDays(firstPaymentDate, index * 14);
+
+    case 'semi-monthly': {
+      const days = [...semiMonthlyDays].sort((a, b) => a - b);
+      const start = getSemiMonthlySlot(firstPaymentDate, semiMonthlyDays);
+      const position = start.slot + index;
+      const slot = ((position % 2) + 2) % 2;
+      const monthOffset = Math.floor(position / 2);
+      return clampedDate(start.year, start.month + monthOffset, days[slot], firstPaymentDate);
+    }
+
+    case 'monthly':
+    default:
+      return clampedDate(
+        firstPaymentDate.getFullYear(),
+        firstPaymentDate.getMonth() + index,
+        firstPaymentDate.getDate(),
+        firstPaymentDate
+      );
+  }
+}
+
+/**
+ * Generate the dates of `count` payments starting with the first payment
+ */
+export function generatePaymentDates(
+  firstPaymentDate: Date,
+  frequency: PaymentFrequency,
+  count: number,
+  semiMonthlyDays: [number, number] = DEFAULT_SEMI_MONTHLY_DAYS
+): Date[] {
+  return Array.from({ length: count }, (_, i) =>
+    getPaymentDate(firstPaymentDate, frequency, i, semiMonthlyDays)
+  );
+}
+
+/**
+ * Get the date of payment number `paymentNumber` (1 = first payment) in a
+ * schedule that starts on the interest adjustment date, one full payment
+ * period per payment.
+ * Monthly payments keep the adjustment date's day of month and clamp each
+ * month on its own, so a schedule starting on Jan 31 pays on Feb 28, Mar 31,
+ * Apr 30 and so on rather than drifting to the 28th.
+ */
+export function getScheduledPaymentDate(
+  interestAdjustmentDate: Date,
+  frequency: PaymentFrequency,
+  paymentNumber: number,
+  semiMonthlyDays: [number, number] = DEFAULT_SEMI_MONTHLY_DAYS
+): Date {
+  if (frequency === 'semi-monthly') {
+    // Counted from the next payment day strictly after the adjustment date
+    return getPaymentDate(
+      addDays(interestAdjustmentDate, 1),
+      frequency,
+      paymentNumber - 1,
+      semiMonthlyDays
+    );
+  }
+  return getPaymentDate(interestAdjustmentDate, frequency, paymentNumber, semiMonthlyDays);
+}
+
+/**
+ * Get the first payment date for a schedule starting on the interest
+ * adjustment date: one full payment period later
+ */
+export function getFirstPaymentDate(
+  interestAdjustmentDate: Date,
+  frequency: PaymentFrequency,
+  semiMonthlyDays: [number, number] = DEFAULT_SEMI_MONTHLY_DAYS
+): Date {
+  return getScheduledPaymentDate(interestAdjustmentDate, frequency, 1, semiMonthlyDays);
+}
+
+/**
+ * Get the interest adjustment date (IAD) for a funding date
+ * The IAD is where the regular schedule starts, one period before the first
+ * payment. Monthly mortgages adjust to the 1st of the next month and
+ * semi-monthly ones to the next payment day; weekly and bi-weekly schedules
+ * start on the funding date itself.
+ */
+export function getInterestAdjustmentDate(
+  fundingDate: Date,
+  frequency: PaymentFrequency,
+  semiMonthlyDays: [number, number] = DEFAULT_SEMI_MONTHLY_DAYS
+): Date {
+  switch (frequency) {
+    case 'monthly':
+      return fundingDate.getDate() === 1
+        ? new Date(fundingDate)
+        : clampedDate(fundingDate.getFullYear(), fundingDate.getMonth() + 1, 1, fundingDate);
+
+    case 'semi-monthly':
+      return getPaymentDate(fundingDate, frequency, 0, semiMonthlyDays);
+
+    default:
+      return new Date(fundingDate);
+  }
+}
+
+/**
+ * Calculate the interest owing for the stub period between funding and the
+ * interest adjustment date
+ * Interest accrues daily at the equivalent of the semi-annually compounded
+ * contract rate and is collected on the IAD (usually deducted from the advance).
+ */
+export function calculateInterestAdjustment(
+  principal: number,
+  annualRate: number,
+  fundingDate: Date,
+  interestAdjustmentDate: Date
+): InterestAdjustment {
+  const days = Math.max(0, daysBetween(fundingDate, interestAdjustmentDate));
+  const dailyFactor = Math.pow(1 + annualRate / 100 / 2, 2 / 365);
+  const amount = roundMoney(principal * (Math.pow(dailyFactor, days) - 1));
+
+  return {
+    fundingDate: new Date(fundingDate),
+    interestAdjustmentDate: new Date(interestAdjustmentDate),
+    days,
+    amount
+  };
+}
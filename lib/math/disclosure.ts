@@ -0,0 +1,152 @@
+import type { BorrowingCostDisclosure, BorrowingCostDisclosureParams } from '@/types';
+import { SEMI_ANNUAL_COMPOUNDING, getPaymentsPerYear } from './payment';
+import {
+  calculateInterestAdjustment,
+  daysBetween,
+  getFirstPaymentDate,
+  getInterestAdjustmentDate
+} from './dates';
+import { generateAmortizationSchedule } from './sensitivity';
+import { fromCents, roundTo, sumMoney, toCents } from './money';
+
+// Day count for discounting cash flows by date
+const DAYS_PER_YEAR = 365;
+
+// Bisection settings for the APR solve (rates as decimals)
+const APR_MAX_RATE = 1;
+const APR_TOLERANCE = 1e-10;
+const APR_MAX_ITERATIONS = 200;
+
+interface DatedCashFlow {
+  date: Date;
+  amount: number;
+}
+
+/**
+ * Present value on the funding date of dated cash flows, discounted at an
+ * annual rate with semi-annual compounding
+ */
+function presentValueByDate(cashFlows: DatedCashFlow[], fundingDate: Date, annualRate: number): number {
+  const compounding = SEMI_ANNUAL_COMPOUNDING;
+  return cashFlows.reduce((sum, cashFlow) => {
+    const years = daysBetween(fundingDate, cashFlow.date) / DAYS_PER_YEAR;
+    return sum + cashFlow.amount / Math.pow(1 + annualRate / compounding, compounding * years);
+  }, 0);
+}
+
+/**
+ * Solve the annual rate at which the dated repayments are worth exactly the
+ * amount advanced (the internal rate of return over the payment dates).
+ * Present value falls as the rate rises, so bisection converges on the root.
+ */
+function solveAprByDate(amountAdvanced: number, cashFlows: DatedCashFlow[], fundingDate: Date): number {
+  let low = 0;
+  let high = APR_MAX_RATE;
+  if (presentValueByDate(cashFlows, fundingDate, low) <= amountAdvanced) return 0;
+
+  for (let i = 0; i < APR_MAX_ITERATIONS && high - low > APR_TOLERANCE; i++) {
+    const mid = (low + high) / 2;
+    if (presentValueByDate(cashFlows, fundingDate, mid) > amountAdvanced) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return ((low + high) / 2) * 100;
+}
+
+/**
+ * Generate the cost-of-borrowing disclosure for a mortgage
+ *
+ * Figures come from the payment schedule over the term, which starts on the
+ * interest adjustment date (IAD) after funding:
+ * - Total payments: every regular payment in the term
+ * - Total interest: interest in those payments plus the interest adjustment
+ * - Cost of borrowing: interest, fees and any insurance premium
+ *
+ * The borrower receives the principal less fees on the funding date; the
+ * insurance premium is added to the mortgage, so interest is charged on it
+ * too. The APR is the rate, compounded semi-annually like the contract rate,
+ * that discounts the interest adjustment, every payment and the balance
+ * owing at term end back to the amount received, using the actual dates.
+ */
+export function generateBorrowingCostDisclosure(
+  params: BorrowingCostDisclosureParams
+): BorrowingCostDisclosure {
+  const {
+    principal,
+    annualRate,
+    amortizationYears,
+    termYears,
+    frequency,
+    fundingDate,
+    fees = {}
+  } = params;
+
+  if (termYears > amortizationYears) {
+    throw new Error('The term cannot be longer than the amortization');
+  }
+
+  const insurancePremium = fromCents(toCents(fees.insurancePremium ?? 0));
+  const totalLoanAmount = sumMoney([principal, insurancePremium]);
+  const otherCosts = sumMoney([fees.appraisalFee ?? 0, fees.brokerFee ?? 0, fees.otherFees ?? 0]);
+  const amountAdvanced = fromCents(toCents(principal) - toCents(otherCosts));
+  if (otherCosts > 0 && amountAdvanced <= 0) {
+    throw new Error('Fees must be less than the principal');
+  }
+
+  const interestAdjustmentDate = getInterestAdjustmentDate(fundingDate, frequency);
+  const interestAdjustment = calculateInterestAdjustment(
+    totalLoanAmount,
+    annualRate,
+    fundingDate,
+    interestAdjustmentDate
+  ).amount;
+
+  const termPayments = Math.round(termYears * getPaymentsPerYear(frequency));
+  const schedule = generateAmortizationSchedule(
+    totalLoanAmount,
+    annualRate,
+    amortizationYears,
+    frequency,
+    interestAdjustmentDate
+  ).slice(0, termPayments);
+  // Nothing borrowed leaves no payments; the term then ends on the IAD
+  const lastPayment = schedule.length > 0 ? schedule[schedule.length - 1] : undefined;
+  const termEndDate = lastPayment ? lastPayment.paymentDate : interestAdjustmentDate;
+
+  const totalPayments = sumMoney(schedule.map(entry => entry.payment));
+  const totalInterest = sumMoney([...schedule.map(entry => entry.interest), interestAdjustment]);
+  const balanceAtTermEnd = lastPayment ? lastPayment.balance : totalLoanAmount;
+
+  // Repayments as the borrower makes them; the balance is treated as repaid
+  // with the last payment of the term
+  const cashFlows: DatedCashFlow[] = [
+    { date: interestAdjustmentDate, amount: interestAdjustment },
+    ...schedule.map(entry => ({ date: entry.paymentDate, amount: entry.payment })),
+    { date: termEndDate, amount: balanceAtTermEnd }
+  ];
+
+  return {
+    principal: fromCents(toCents(principal)),
+    insurancePremium,
+    totalLoanAmount,
+    annualRate,
+    frequency,
+    termYears,
+    amortizationYears,
+    fundingDate: new Date(fundingDate),
+    interestAdjustmentDate,
+    firstPaymentDate: getFirstPaymentDate(interestAdjustmentDate, frequency),
+    termEndDate,
+    payment: schedule.length > 0 ? schedule[0].payment : 0,
+    numberOfPayments: schedule.length,
+    totalPayments,
+    interestAdjustment,
+    totalInterest,
+    fees: otherCosts,
+    balanceAtTermEnd,
+    costOfBorrowing: sumMoney([totalInterest, otherCosts, insurancePremium]),
+    apr: roundTo(solveAprByDate(amountAdvanced, cashFlows, fundingDate), 3)
+  };
+}
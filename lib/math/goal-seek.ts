@@ -0,0 +1,375 @@
+import type {
+  GoalSeekConstraint,
+  GoalSeekConstraintResult,
+  GoalSeekMetrics,
+  GoalSeekParams,
+  GoalSeekResult,
+  GoalSeekScenario,
+  GoalSeekVariable,
+  QualificationPolicy
+} from '@/types';
+import { calculatePayment, convertToMonthlyPayment } from './payment';
+import { calculateGDS, calculateTDS } from './affordability';
+import { DEFAULT_POLICY, getQualifyingRate } from './policy';
+import { calculateMinimumDownPayment, calculateMortgageInsurance } from './insurance';
+import { roundMoney, roundTo } from './money';
+
+const DEFAULT_CONSTRAINTS: GoalSeekConstraint[] = ['gds', 'tds', 'stress-test'];
+
+// Whether raising each unknown makes the constraints easier to meet
+const HIGHER_IS_EASIER: Record<GoalSeekVariable, boolean> = {
+  principal: false,
+  purchasePrice: false,
+  downPayment: true,
+  grossAnnualIncome: true,
+  monthlyDebts: false,
+  annualRate: false,
+  amortizationYears: true
+};
+
+// Default search range for each unknown
+const DEFAULT_BOUNDS: Record<GoalSeekVariable, { min: number; max: number }> = {
+  principal: { min: 0, max: 10000000 },
+  purchasePrice: { min: 0, max: 20000000 },
+  downPayment: { min: 0, max: 20000000 },
+  grossAnnualIncome: { min: 0, max: 10000000 },
+  monthlyDebts: { min: 0, max: 100000 },
+  annualRate: { min: 0, max: 25 },
+  amortizationYears: { min: 1, max: 40 }
+};
+
+// Bisection stops once the bracket is narrower than this
+const TOLERANCE: Record<GoalSeekVariable, number> = {
+  principal: 0.001,
+  purchasePrice: 0.001,
+  downPayment: 0.001,
+  grossAnnualIncome: 0.001,
+  monthlyDebts: 0.001,
+  annualRate: 0.000001,
+  amortizationYears: 0.0001
+};
+
+const MAX_ITERATIONS = 200;
+
+/**
+ * Round a solved value the way that unknown is normally quoted (rates to
+ * 3 decimals, money and years to 2), towards the side that still meets
+ * the constraints rather than to the nearest
+ */
+function roundSolvedValue(variable: GoalSeekVariable, value: number): number {
+  const factor = variable === 'annualRate' ? 1000 : 100;
+  // Snap float noise so an exact boundary isn't pushed a step too far
+  const scaled = Number((value * factor).toPrecision(15));
+  const rounded = HIGHER_IS_EASIER[variable] ? Math.ceil(scaled) : Math.floor(scaled);
+  return rounded / factor;
+}
+
+/**
+ * Mortgage amount for a scenario: the principal, or price less down payment
+ * plus any insurance premium when a purchase price is given
+ */
+function getMortgageAmount(
+  scenario: GoalSeekScenario,
+  policy: QualificationPolicy
+): { principal: number; meetsMinimumDownPayment: boolean } {
+  if (scenario.purchasePrice === undefined) {
+    return { principal: scenario.principal, meetsMinimumDownPayment: true };
+  }
+
+  const insurance = calculateMortgageInsurance(
+    scenario.purchasePrice,
+    scenario.downPayment ?? 0,
+    scenario.province,
+    policy.insuredPriceCap
+  );
+  return {
+    principal: insurance.insuredPrincipal,
+    meetsMinimumDownPayment: insurance.meetsMinimumDownPayment
+  };
+}
+
+/**
+ * Bisect for the value where `meets` changes from passing to failing
+ * Returns null as the boundary when the whole range passes, and infeasible
+ * when even the easiest end fails. `meets` must be monotonic over the range.
+ */
+function findBoundary(
+  constraint: GoalSeekConstraint,
+  meets: (value: number) => boolean,
+  bounds: { min: number; max: number },
+  higherIsEasier: boolean,
+  tolerance: number
+): GoalSeekConstraintResult {
+  const [easiest, hardest] = higherIsEasier
+    ? [bounds.max, bounds.min]
+    : [bounds.min, bounds.max];
+
+  if (!meets(easiest)) {
+    return { constraint, boundary: null, feasible: false };
+  }
+  if (meets(hardest)) {
+    return { constraint, boundary: null, feasible: true };
+  }
+
+  // Bisect between a passing and a failing value
+  let passing = easiest;
+  let failing = hardest;
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    if (Math.abs(failing - passing) < tolerance) break;
+    const mid = (passing + failing) / 2;
+    if (meets(mid)) {
+      passing = mid;
+    } else {
+      failing = mid;
+    }
+  }
+
+  return { constraint, boundary: passing, feasible: true };
+}
+
+/**
+ * Calculate the payment and ratios a scenario produces at the contract rate
+ * and at the policy's qualifying rate (unrounded, for solving)
+ */
+export function calculateGoalSeekMetrics(
+  scenario: GoalSeekScenario,
+  policy: QualificationPolicy = DEFAULT_POLICY
+): GoalSeekMetrics {
+  const { principal, meetsMinimumDownPayment } = getMortgageAmount(scenario, policy);
+  const { amortizationYears, frequency } = scenario;
+
+  const monthlyPaymentAt = (annualRate: number) =>
+    principal > 0
+      ? convertToMonthlyPayment(
+          calculatePayment({ principal, annualRate, amortizationYears, frequency }),
+          frequency
+        )
+      : 0;
+
+  // Include 50% of condo fees as per CMHC guidelines
+  const otherHousingCosts =
+    (scenario.propertyTax ?? 0) + (scenario.heatingCost ?? 0) + (scenario.condoFees ?? 0) * 0.5;
+  const grossMonthlyIncome = scenario.grossAnnualIncome / 12;
+
+  const monthlyPayment = monthlyPaymentAt(scenario.annualRate);
+  const qualifyingRate = getQualifyingRate(scenario.annualRate, policy);
+  const stressPayment = monthlyPaymentAt(qualifyingRate);
+
+  return {
+    principal,
+    monthlyPayment,
+    gdsRatio: calculateGDS(monthlyPayment + otherHousingCosts, grossMonthlyIncome),
+    tdsRatio: calculateTDS(monthlyPayment + otherHousingCosts, scenario.monthlyDebts, grossMonthlyIncome),
+    qualifyingRate,
+    stressGdsRatio: calculateGDS(stressPayment + otherHousingCosts, grossMonthlyIncome),
+    stressTdsRatio: calculateTDS(stressPayment + otherHousingCosts, scenario.monthlyDebts, grossMonthlyIncome),
+    meetsMinimumDownPayment
+  };
+}
+
+/**
+ * Set one input on a scenario
+ * Setting the principal drops the purchase price so the principal is used directly
+ */
+export function withScenarioValue(
+  scenario: GoalSeekScenario,
+  variable: GoalSeekVariable,
+  value: number
+): GoalSeekScenario {
+  if (variable === 'principal') {
+    return { ...scenario, principal: value, purchasePrice: undefined };
+  }
+  return { ...scenario, [variable]: value };
+}
+
+/**
+ * Solve the minimum down payment constraint for a purchase
+ * The down payment's boundary is the minimum itself; for other unknowns the
+ * boundary is found by bisection (the minimum only rises with the price).
+ */
+function solveMinimumDownPayment(
+  scenario: GoalSeekScenario,
+  solveFor: GoalSeekVariable,
+  bounds: { min: number; max: number },
+  policy: QualificationPolicy
+): GoalSeekConstraintResult {
+  const constraint: GoalSeekConstraint = 'minimum-down-payment';
+
+  if (solveFor === 'downPayment') {
+    const minimum = calculateMinimumDownPayment(scenario.purchasePrice ?? 0, policy.insuredPriceCap);
+    if (minimum > bounds.max) return { constraint, boundary: null, feasible: false };
+    if (minimum <= bounds.min) return { constraint, boundary: null, feasible: true };
+    return { constraint, boundary: minimum, feasible: true };
+  }
+
+  return findBoundary(
+    constraint,
+    value => {
+      const solved = withScenarioValue(scenario, solveFor, value);
+      return (
+        (solved.downPayment ?? 0) >=
+        calculateMinimumDownPayment(solved.purchasePrice ?? 0, policy.insuredPriceCap)
+      );
+    },
+    bounds,
+    HIGHER_IS_EASIER[solveFor],
+    TOLERANCE[solveFor]
+  );
+}
+
+/**
+ * Solve for one unknown so a scenario exactly meets its constraints
+ *
+ * Every input is held fixed except `solveFor`. For each constraint the solver
+ * bisects for the value where it is exactly met (GDS/TDS at their limits, the
+ * stress test just passing, or the payment at the cap). The most restrictive
+ * of those values is the answer, and that constraint is reported as binding:
+ * - Unknowns where more is harder (principal, price, debts, rate): the
+ *   smallest maximum wins, e.g. the max purchase price
+ * - Unknowns where more is easier (income, down payment, amortization): the
+ *   largest minimum wins, e.g. the income needed
+ * A constraint met across the whole search range never binds; one that can't
+ * be met anywhere in the range makes the scenario infeasible (value = null).
+ *
+ * With a purchase price, the minimum down payment is a hard constraint and is
+ * solved first: the search range is narrowed to the values that meet it
+ * (e.g. at least $25,000 down on $500,000) before the ratios are solved. Below
+ * the minimum an LTV over 95% can't be insured, so the premium drops to zero
+ * and the ratios stop moving in one direction; inside the range the premium
+ * band steps only ever push the mortgage the same way, which keeps the
+ * bisection sound.
+ */
+export function solveGoalSeek(params: GoalSeekParams): GoalSeekResult {
+  const {
+    scenario,
+    solveFor,
+    constraints = DEFAULT_CONSTRAINTS,
+    policy = DEFAULT_POLICY,
+    paymentCap
+  } = params;
+  const gdsLimit = params.gdsLimit ?? policy.gdsThreshold;
+  const tdsLimit = params.tdsLimit ?? policy.tdsThreshold;
+  const higherIsEasier = HIGHER_IS_EASIER[solveFor];
+
+  const initialBounds = params.bounds ?? {
+    ...DEFAULT_BOUNDS[solveFor],
+    // The down payment can't exceed the price
+    ...(solveFor === 'downPayment' &&
+      scenario.purchasePrice !== undefined && { max: scenario.purchasePrice })
+  };
+
+  if (constraints.includes('payment-cap') && paymentCap === undefined) {
+    throw new Error('A payment cap is required for the payment-cap constraint');
+  }
+
+  const metricsAt = (value: number) =>
+    calculateGoalSeekMetrics(withScenarioValue(scenario, solveFor, value), policy);
+
+  // The minimum down payment applies whenever the mortgage comes from a price
+  const checksDownPayment = scenario.purchasePrice !== undefined && solveFor !== 'principal';
+  const downPaymentResult = checksDownPayment
+    ? solveMinimumDownPayment(scenario, solveFor, initialBounds, policy)
+    : null;
+
+  if (downPaymentResult && !downPaymentResult.feasible) {
+    return {
+      solveFor,
+      value: null,
+      bindingConstraint: 'minimum-down-payment',
+      constraints: [downPaymentResult],
+      scenario,
+      metrics: null
+    };
+  }
+
+  // Only search values that meet the minimum down payment
+  const bounds = { ...initialBounds };
+  if (downPaymentResult?.boundary != null) {
+    if (higherIsEasier) {
+      bounds.min = downPaymentResult.boundary;
+    } else {
+      bounds.max = downPaymentResult.boundary;
+    }
+  }
+
+  // How far inside a constraint the scenario is (negative when it fails)
+  const slack = (constraint: GoalSeekConstraint, value: number): number => {
+    const metrics = metricsAt(value);
+    switch (constraint) {
+      case 'gds':
+        return gdsLimit - metrics.gdsRatio;
+      case 'tds':
+        return tdsLimit - metrics.tdsRatio;
+      case 'stress-test':
+        return Math.min(gdsLimit - metrics.stressGdsRatio, tdsLimit - metrics.stressTdsRatio);
+      case 'payment-cap':
+        return (paymentCap ?? 0) - metrics.monthlyPayment;
+      case 'minimum-down-payment':
+        return metrics.meetsMinimumDownPayment ? 0 : -1;
+    }
+  };
+
+  const constraintResults: GoalSeekConstraintResult[] = [
+    ...(downPaymentResult ? [downPaymentResult] : []),
+    ...constraints
+      .filter(constraint => !(downPaymentResult && constraint === 'minimum-down-payment'))
+      .map(constraint =>
+        findBoundary(
+          constraint,
+          value => slack(constraint, value) >= 0,
+          bounds,
+          higherIsEasier,
+          TOLERANCE[solveFor]
+        )
+      )
+  ];
+
+  const infeasible = constraintResults.find(result => !result.feasible);
+  if (infeasible) {
+    return {
+      solveFor,
+      value: null,
+      bindingConstraint: infeasible.constraint,
+      constraints: constraintResults,
+      scenario,
+      metrics: null
+    };
+  }
+
+  // The most restrictive boundary wins; with none, the whole range qualifies
+  let value = higherIsEasier ? bounds.min : bounds.max;
+  let bindingConstraint: GoalSeekConstraint | null = null;
+  for (const result of constraintResults) {
+    if (result.boundary === null) continue;
+    const isMoreRestrictive = higherIsEasier ? result.boundary > value : result.boundary < value;
+    if (bindingConstraint === null || isMoreRestrictive) {
+      value = result.boundary;
+      bindingConstraint = result.constraint;
+    }
+  }
+
+  const solvedValue = roundSolvedValue(solveFor, value);
+  const solvedScenario = withScenarioValue(scenario, solveFor, solvedValue);
+  const metrics = calculateGoalSeekMetrics(solvedScenario, policy);
+
+  return {
+    solveFor,
+    value: solvedValue,
+    bindingConstraint,
+    constraints: constraintResults.map(result => ({
+      ...result,
+      boundary: result.boundary === null ? null : roundSolvedValue(solveFor, result.boundary)
+    })),
+    scenario: solvedScenario,
+    metrics: {
+      principal: roundMoney(metrics.principal),
+      monthlyPayment: roundMoney(metrics.monthlyPayment),
+      gdsRatio: roundTo(metrics.gdsRatio),
+      tdsRatio: roundTo(metrics.tdsRatio),
+      qualifyingRate: roundTo(metrics.qualifyingRate, 3),
+      stressGdsRatio: roundTo(metrics.stressGdsRatio),
+      stressTdsRatio: roundTo(metrics.stressTdsRatio),
+      meetsMinimumDownPayment: metrics.meetsMinimumDownPayment
+    }
+  };
+}
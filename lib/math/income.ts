@@ -0,0 +1,152 @@
+import type {
+  Borrower,
+  IncomeSource,
+  QualificationPolicy,
+  QualifyingIncomeResult,
+  QualifyingIncomeSource
+} from '@/types';
+import { DEFAULT_POLICY } from './policy';
+import { roundMoney, sumMoney } from './money';
+
+// Guaranteed hours are annualized over a full year of weeks
+const WEEKS_PER_YEAR = 52;
+
+/**
+ * Average the current and previous year where both are known
+ * Falls back to the current year when there is no history
+ */
+function twoYearAverage(source: IncomeSource): number {
+  if (typeof source.previousYearAmount !== 'number') {
+    return source.annualAmount;
+  }
+  return (source.annualAmount + source.previousYearAmount) / 2;
+}
+
+/**
+ * Calculate the annual income a lender counts for one income source
+ * - Salaried and pension: annual amount as stated
+ * - Hourly: guaranteed hours × rate, plus overtime less the policy haircut
+ * - Bonus/commission and self-employed: two-year average
+ * - Rental: % of gross rent added to income (add-back method only;
+ *   the offset method adjusts debts instead, see calculateRentalOffset)
+ * - Child benefit: included only when the policy allows it
+ */
+export function getQualifyingIncome(
+  source: IncomeSource,
+  policy: QualificationPolicy = DEFAULT_POLICY
+): QualifyingIncomeSource {
+  const rules = policy.incomeRules;
+  let qualifyingAnnualIncome = source.annualAmount;
+  let note: string | undefined;
+
+  switch (source.type) {
+    case 'hourly': {
+      const guaranteed =
+        typeof source.hourlyRate === 'number' && typeof source.guaranteedHoursPerWeek === 'number'
+          ? source.hourlyRate * source.guaranteedHoursPerWeek * WEEKS_PER_YEAR
+          : source.annualAmount;
+      const overtime = (source.overtimeAmount ?? 0) * (1 - rules.overtimeHaircutPercent / 100);
+      qualifyingAnnualIncome = guaranteed + overtime;
+      if (source.overtimeAmount && rules.overtimeHaircutPercent > 0) {
+        note = `Overtime reduced by ${rules.overtimeHaircutPercent}%`;
+      }
+      break;
+    }
+
+    case 'bonus-commission':
+    case 'self-employed':
+      qualifyingAnnualIncome = twoYearAverage(source);
+      note = typeof source.previousYearAmount === 'number'
+        ? 'Two-year average'
+        : 'No prior year provided; current year used';
+      break;
+
+    case 'rental':
+      if (rules.rentalMethod === 'add-back') {
+        qualifyingAnnualIncome = source.annualAmount * (rules.rentalAddBackPercent / 100);
+        note = `${rules.rentalAddBackPercent}% of gross rent added to income`;
+      } else {
+        qualifyingAnnualIncome = 0;
+        note = 'Rent offset against rental expenses';
+      }
+      break;
+
+    case 'child-benefit':
+      if (!rules.includeChildBenefit) {
+        qualifyingAnnualIncome = 0;
+        note = 'Not counted under this policy';
+      }
+      break;
+  }
+
+  return {
+    source,
+    qualifyingAnnualIncome: roundMoney(qualifyingAnnualIncome),
+    note
+  };
+}
+
+/**
+ * Calculate the monthly rental offset for a rental income source
+ * Negative when the offset share of the rent covers the rental's expenses
+ * (reduces qualifying debts), positive when there is a shortfall (adds to debts).
+ * Zero under the add-back method.
+ */
+export function calculateRentalOffset(
+  source: IncomeSource,
+  policy: QualificationPolicy = DEFAULT_POLICY
+): number {
+  const rules = policy.incomeRules;
+  if (source.type !== 'rental' || rules.rentalMethod !== 'offset') return 0;
+
+  const monthlyRentCounted = (source.annualAmount / 12) * (rules.rentalOffsetPercent / 100);
+  const adjustment = (source.monthlyExpenses ?? 0) - monthlyRentCounted;
+  return roundMoney(adjustment);
+}
+
+/**
+ * Combine every borrower's income sources into one qualifying income figure
+ */
+export function calculateQualifyingIncome(
+  borrowers: Borrower[],
+  policy: QualificationPolicy = DEFAULT_POLICY
+): QualifyingIncomeResult {
+  let monthlyDebtAdjustment = 0;
+
+  const breakdown = borrowers.map(borrower => {
+    const sources = borrower.incomeSources.map(source => getQualifyingIncome(source, policy));
+    monthlyDebtAdjustment = sumMoney([
+      monthlyDebtAdjustment,
+      ...borrower.incomeSources.map(source => calculateRentalOffset(source, policy))
+    ]);
+    return {
+      borrower,
+      sources,
+      qualifyingAnnualIncome: sumMoney(sources.map(item => item.qualifyingAnnualIncome))
+    };
+  });
+
+  return {
+    borrowers: breakdown,
+    totalQualifyingIncome: sumMoney(breakdown.map(item => item.qualifyingAnnualIncome)),
+    monthlyDebtAdjustment
+  };
+}
+
+/**
+ * Accept either a single gross annual income or a borrower list
+ * Lets the affordability functions work from either input
+ */
+export function resolveQualifyingIncome(
+  income: number | Borrower[],
+  policy: QualificationPolicy = DEFAULT_POLICY
+): { annualIncome: number; monthlyDebtAdjustment: number } {
+  if (!Array.isArray(income)) {
+    return { annualIncome: income, monthlyDebtAdjustment: 0 };
+  }
+  const result = calculateQualifyingIncome(income, policy);
+  return {
+    annualIncome: result.totalQualifyingIncome,
+    monthlyDebtAdjustment: result.monthlyDebtAdjustment
+  };
+}
@@ -1,5 +1,26 @@
 // Export all math utilities from a single entry point
+export * from './money';
 export * from './payment';
+export * from './dates';
+export * from './policy';
+export * from './liabilities';
+export * from './income';
 export * from './affordability';
 export * from './stress-test';
+export * from './shock-scenarios';
+export * from './goal-seek';
 export * from './sensitivity';
+export * from './prepayment';
+export * from './renewal';
+export * from './renewal-risk';
+export * from './variable-rate';
+export * from './mixed-mortgage';
+export * from './alternative-lending';
+export * from './penalty';
+export * from './refinance';
+export * from './bridge-financing';
+export * from './insurance';
+export * from './closing-costs';
+export * from './disclosure';
+export * from './rent-vs-buy';
+export * from './investment-property';
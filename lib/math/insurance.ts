@@ -0,0 +1,118 @@
+import type { MortgageInsuranceResult, Province } from '@/types';
+import { fromCents, roundMoney, roundTo, toCents } from './money';
+
+// Purchases at or above this price can't be insured and need 20% down
+// (current rule; policy versions carry the cap in effect on other dates)
+export const INSURED_PRICE_CAP = 1500000;
+
+// Minimum down payment tiers: 5% of the first $500k, 10% of the rest
+export const MINIMUM_DOWN_PAYMENT_TIER_LIMIT = 500000;
+export const MINIMUM_DOWN_PAYMENT_FIRST_TIER = 5; // 5%
+export const MINIMUM_DOWN_PAYMENT_SECOND_TIER = 10; // 10%
+export const CONVENTIONAL_DOWN_PAYMENT = 20; // 20%
+
+// Highest LTV that can be insured
+export const MAXIMUM_INSURED_LTV = 95; // 95%
+
+/**
+ * CMHC premium rates by LTV band (standard purchase)
+ * Each band applies up to and including its maxLtv
+ */
+export const INSURANCE_PREMIUM_BANDS: Array<{ maxLtv: number; premiumRate: number }> = [
+  { maxLtv: 65, premiumRate: 0.6 },
+  { maxLtv: 75, premiumRate: 1.7 },
+  { maxLtv: 80, premiumRate: 2.4 },
+  { maxLtv: 85, premiumRate: 2.8 },
+  { maxLtv: 90, premiumRate: 3.1 },
+  { maxLtv: 95, premiumRate: 4.0 }
+];
+
+/**
+ * Provincial sales tax charged on the insurance premium
+ * It can't be added to the mortgage and is paid at closing
+ */
+export const PREMIUM_SALES_TAX_RATES: Partial<Record<Province, number>> = {
+  ON: 8, // 8%
+  QC: 9, // 9%
+  SK: 6 // 6%
+};
+
+/**
+ * Calculate the minimum down payment for a purchase price
+ * 5% of the first $500,000, 10% of the portion above it, and 20% of the
+ * full price at or above the insured price cap
+ */
+export function calculateMinimumDownPayment(
+  purchasePrice: number,
+  insuredPriceCap: number = INSURED_PRICE_CAP
+): number {
+  if (purchasePrice >= insuredPriceCap) {
+    return roundMoney(purchasePrice * (CONVENTIONAL_DOWN_PAYMENT / 100));
+  }
+
+  const firstTier = Math.min(purchasePrice, MINIMUM_DOWN_PAYMENT_TIER_LIMIT);
+  const secondTier = Math.max(0, purchasePrice - MINIMUM_DOWN_PAYMENT_TIER_LIMIT);
+  const minimum =
+    firstTier * (MINIMUM_DOWN_PAYMENT_FIRST_TIER / 100) +
+    secondTier * (MINIMUM_DOWN_PAYMENT_SECOND_TIER / 100);
+
+  return roundMoney(minimum);
+}
+
+/**
+ * Calculate loan-to-value ratio as a percentage
+ */
+export function calculateLTV(mortgageAmount: number, propertyValue: number): number {
+  if (propertyValue <= 0) return Infinity;
+  return (mortgageAmount / propertyValue) * 100;
+}
+
+/**
+ * Look up the insurance premium rate (%) for an LTV
+ * Returns 0 when the LTV is above the insurable maximum
+ */
+export function getInsurancePremiumRate(ltv: number): number {
+  const band = INSURANCE_PREMIUM_BANDS.find(b => ltv <= b.maxLtv);
+  return band ? band.premiumRate : 0;
+}
+
+/**
+ * Calculate mortgage default insurance for a purchase
+ * Insurance is required when the down payment is under 20%. The premium is
+ * added to the mortgage; the provincial sales tax on it is paid separately.
+ */
+export function calculateMortgageInsurance(
+  purchasePrice: number,
+  downPayment: number,
+  province: Province = 'ON',
+  insuredPriceCap: number = INSURED_PRICE_CAP
+): MortgageInsuranceResult {
+  const baseMortgage = Math.max(0, purchasePrice - downPayment);
+  const ltv = calculateLTV(baseMortgage, purchasePrice);
+  const minimumDownPayment = calculateMinimumDownPayment(purchasePrice, insuredPriceCap);
+
+  const isHighRatio = ltv > 100 - CONVENTIONAL_DOWN_PAYMENT;
+  const isInsurable = purchasePrice < insuredPriceCap && ltv <= MAXIMUM_INSURED_LTV;
+
+  const premiumRate = isHighRatio && isInsurable ? getInsurancePremiumRate(ltv) : 0;
+  const premium = roundMoney(baseMortgage * (premiumRate / 100));
+  const salesTaxRate = PREMIUM_SALES_TAX_RATES[province] ?? 0;
+  const premiumTax = roundMoney(premium * (salesTaxRate / 100));
+
+  return {
+    purchasePrice,
+    downPayment,
+    downPaymentPercent:
+      purchasePrice > 0 ? roundTo((downPayment / purchasePrice) * 100) : 0,
+    minimumDownPayment,
+    meetsMinimumDownPayment: downPayment >= minimumDownPayment,
+    baseMortgage: roundMoney(baseMortgage),
+    ltv: roundTo(ltv),
+    isHighRatio,
+    isInsurable,
+    premiumRate,
+    premium,
+    premiumTax,
+    insuredPrincipal: fromCents(toCents(baseMortgage) + toCents(premium))
+  };
+}
@@ -0,0 +1,171 @@
+import type {
+  Borrower,
+  IncomeSource,
+  InvestmentPropertyParams,
+  InvestmentPropertyResult,
+  QualificationPolicy,
+  RentalQualificationResult
+} from '@/types';
+import { calculatePayment, convertToMonthlyPayment } from './payment';
+import { calculateAffordabilityForPayment } from './affordability';
+import { calculateRentalOffset, getQualifyingIncome } from './income';
+import { resolveMonthlyDebts } from './liabilities';
+import { DEFAULT_POLICY, getQualifyingRate } from './policy';
+import { fromCents, roundMoney, roundTo, sumMoney, toCents } from './money';
+
+/**
+ * Add the rental to the investor's income as a rental income source
+ * A single income figure becomes one salaried borrower so the rental can sit
+ * alongside it
+ */
+function withRentalIncome(income: number | Borrower[], rental: IncomeSource): Borrower[] {
+  if (!Array.isArray(income)) {
+    return [{ name: 'Applicant', incomeSources: [{ type: 'salaried', annualAmount: income }, rental] }];
+  }
+  if (income.length === 0) {
+    return [{ name: 'Applicant', incomeSources: [rental] }];
+  }
+  const [first, ...rest] = income;
+  return [{ ...first, incomeSources: [...first.incomeSources, rental] }, ...rest];
+}
+
+/**
+ * Qualify the investor with the rental's payment and rent in the application
+ * - Add-back: a % of gross rent is added to income and the rental's payment
+ *   and operating expenses are added to debts in full
+ * - Offset: rent is not income; a % of it is netted against the rental's
+ *   expenses and only a shortfall (or surplus) moves debts
+ * GDS covers the home the investor lives in; the rental only affects TDS.
+ */
+function qualifyRental(
+  params: InvestmentPropertyParams,
+  grossAnnualRent: number,
+  monthlyPaymentAt: (annualRate: number) => number,
+  policy: QualificationPolicy
+): RentalQualificationResult {
+  const {
+    annualRate,
+    operatingExpenses = 0,
+    grossAnnualIncome,
+    monthlyDebts,
+    ownerOccupiedHousingCosts = 0
+  } = params;
+  const rentalMethod = policy.incomeRules.rentalMethod;
+  const otherDebts = resolveMonthlyDebts(monthlyDebts, policy);
+  const qualifyingRate = getQualifyingRate(annualRate, policy);
+
+  const assess = (rentalPayment: number) => {
+    const rental: IncomeSource = {
+      type: 'rental',
+      description: 'Subject property',
+      annualAmount: grossAnnualRent,
+      monthlyExpenses: roundMoney(rentalPayment + operatingExpenses / 12)
+    };
+    // The offset method moves debts through the income rules; add-back doesn't
+    const rentalDebts = rentalMethod === 'add-back' ? rental.monthlyExpenses ?? 0 : 0;
+    const affordability = calculateAffordabilityForPayment(
+      ownerOccupiedHousingCosts,
+      withRentalIncome(grossAnnualIncome, rental),
+      sumMoney([otherDebts, rentalDebts]),
+      0,
+      0,
+      0,
+      policy
+    );
+    return { rental, affordability };
+  };
+
+  const atContract = assess(monthlyPaymentAt(annualRate));
+  const atStress = assess(monthlyPaymentAt(qualifyingRate));
+  const { rental } = atContract;
+
+  return {
+    rentalMethod,
+    rentalIncomeCounted: getQualifyingIncome(rental, policy).qualifyingAnnualIncome,
+    rentalMonthlyExpenses: rental.monthlyExpenses ?? 0,
+    monthlyDebtAdjustment: rentalMethod === 'add-back'
+      ? rental.monthlyExpenses ?? 0
+      : calculateRentalOffset(rental, policy),
+    affordability: atContract.affordability,
+    affordabilityAtStress: atStress.affordability,
+    qualifyingRate,
+    qualifies: atStress.affordability.isAffordable
+  };
+}
+
+/**
+ * Analyze the cash flow of a rental property and whether the investor qualifies
+ *
+ * NOI = gross rent - vacancy - management fees - operating expenses
+ * Cap rate = NOI / purchase price
+ * DSCR = NOI / annual mortgage payments
+ * Cash-on-cash = (NOI - annual mortgage payments) / (down payment + closing costs)
+ *
+ * Management fees are charged on the rent collected (after vacancy).
+ * Investment properties can't be insured, so the mortgage is the price less
+ * the down payment.
+ */
+export function analyzeInvestmentProperty(params: InvestmentPropertyParams): InvestmentPropertyResult {
+  const {
+    purchasePrice,
+    downPayment,
+    amortizationYears,
+    frequency,
+    units,
+    vacancyPercent = 0,
+    managementFeePercent = 0,
+    closingCosts = 0
+  } = params;
+  const basePolicy = params.policy ?? DEFAULT_POLICY;
+  const policy: QualificationPolicy = params.rentalMethod
+    ? { ...basePolicy, incomeRules: { ...basePolicy.incomeRules, rentalMethod: params.rentalMethod } }
+    : basePolicy;
+
+  if (purchasePrice <= 0) {
+    throw new Error('Purchase price must be greater than zero');
+  }
+  if (units.length === 0) {
+    throw new Error('An investment property needs at least one rental unit');
+  }
+
+  const principal = fromCents(Math.max(0, toCents(purchasePrice) - toCents(downPayment)));
+  const monthlyPaymentAt = (annualRate: number) =>
+    principal > 0
+      ? convertToMonthlyPayment(
+          calculatePayment({ principal, annualRate, amortizationYears, frequency }),
+          frequency
+        )
+      : 0;
+  const monthlyPayment = roundMoney(monthlyPaymentAt(params.annualRate));
+
+  const grossAnnualRent = sumMoney(units.map(unit => unit.monthlyRent * 12));
+  const vacancyLoss = roundMoney((grossAnnualRent * vacancyPercent) / 100);
+  const effectiveGrossIncome = fromCents(toCents(grossAnnualRent) - toCents(vacancyLoss));
+  const managementFees = roundMoney((effectiveGrossIncome * managementFeePercent) / 100);
+  const operatingExpenses = sumMoney([params.operatingExpenses ?? 0, managementFees]);
+  const netOperatingIncome = fromCents(toCents(effectiveGrossIncome) - toCents(operatingExpenses));
+
+  const annualDebtService = roundMoney(monthlyPayment * 12);
+  const annualCashFlow = fromCents(toCents(netOperatingIncome) - toCents(annualDebtService));
+  const cashInvested = sumMoney([downPayment, closingCosts]);
+
+  return {
+    principal,
+    monthlyPayment,
+    grossAnnualRent,
+    vacancyLoss,
+    effectiveGrossIncome,
+    managementFees,
+    operatingExpenses,
+    netOperatingIncome,
+    capRate: roundTo((netOperatingIncome / purchasePrice) * 100),
+    annualDebtService,
+    debtServiceCoverageRatio:
+      annualDebtService > 0 ? roundTo(netOperatingIncome / annualDebtService) : null,
+    annualCashFlow,
+    monthlyCashFlow: roundMoney(annualCashFlow / 12),
+    cashInvested,
+    cashOnCashReturn: cashInvested > 0 ? roundTo((annualCashFlow / cashInvested) * 100) : null,
+    qualification: qualifyRental(params, grossAnnualRent, monthlyPaymentAt, policy)
+  };
+}
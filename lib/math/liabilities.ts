@@ -0,0 +1,96 @@
+import type { Liability, QualificationPolicy, QualifyingLiability } from '@/types';
+import { DEFAULT_POLICY } from './policy';
+import { roundMoney, sumMoney } from './money';
+
+const INSTALLMENT_TYPES: Liability['type'][] = ['auto-loan', 'student-loan', 'personal-loan'];
+
+/**
+ * Calculate the monthly payment a lender counts for one liability
+ * - Credit cards: greater of the reported payment and a % of the balance
+ * - Lines of credit: % of the balance, or interest-only at the LOC rate
+ * - Installment loans: reported payment, unless few enough payments are left
+ * - Anything being paid off from proceeds is excluded
+ */
+export function getQualifyingLiabilityPayment(
+  liability: Liability,
+  policy: QualificationPolicy = DEFAULT_POLICY
+): QualifyingLiability {
+  const rules = policy.liabilityRules;
+
+  if (liability.toBePaidOff) {
+    return { liability, qualifyingPayment: 0, excluded: true, reason: 'Paid off at closing' };
+  }
+
+  let qualifyingPayment = liability.monthlyPayment;
+
+  switch (liability.type) {
+    case 'credit-card':
+      qualifyingPayment = Math.max(
+        liability.monthlyPayment,
+        liability.balance * (rules.revolvingPaymentPercent / 100)
+      );
+      break;
+
+    case 'line-of-credit':
+      if (rules.lineOfCreditMethod === 'interest-only') {
+        const rate = liability.interestRate ?? rules.lineOfCreditFallbackRate;
+        qualifyingPayment = (liability.balance * (rate / 100)) / 12;
+      } else {
+        qualifyingPayment = liability.balance * (rules.lineOfCreditPaymentPercent / 100);
+      }
+      break;
+
+    default:
+      if (
+        INSTALLMENT_TYPES.includes(liability.type) &&
+        typeof liability.remainingPayments === 'number' &&
+        liability.remainingPayments < rules.excludeInstallmentsUnderPayments
+      ) {
+        return {
+          liability,
+          qualifyingPayment: 0,
+          excluded: true,
+          reason: `Fewer than ${rules.excludeInstallmentsUnderPayments} payments left`
+        };
+      }
+  }
+
+  return {
+    liability,
+    qualifyingPayment: roundMoney(qualifyingPayment),
+    excluded: false
+  };
+}
+
+/**
+ * Derive the qualifying payment for every liability under a policy
+ */
+export function calculateQualifyingDebtBreakdown(
+  liabilities: Liability[],
+  policy: QualificationPolicy = DEFAULT_POLICY
+): QualifyingLiability[] {
+  return liabilities.map(liability => getQualifyingLiabilityPayment(liability, policy));
+}
+
+/**
+ * Calculate the total qualifying monthly debt figure used in TDS
+ */
+export function calculateQualifyingMonthlyDebts(
+  liabilities: Liability[],
+  policy: QualificationPolicy = DEFAULT_POLICY
+): number {
+  return sumMoney(
+    calculateQualifyingDebtBreakdown(liabilities, policy).map(item => item.qualifyingPayment)
+  );
+}
+
+/**
+ * Accept either a pre-computed monthly debt figure or a liability list
+ * Lets the affordability functions work from either input
+ */
+export function resolveMonthlyDebts(
+  debts: number | Liability[],
+  policy: QualificationPolicy = DEFAULT_POLICY
+): number {
+  return Array.isArray(debts) ? calculateQualifyingMonthlyDebts(debts, policy) : debts;
+}
@@ -0,0 +1,192 @@
+import type {
+  MixedMortgageParams,
+  MixedMortgageResult,
+  MortgageSegment,
+  MortgageSegmentResult,
+  PaymentFrequency,
+  QualificationPolicy,
+  ReadvanceableCreditPoint
+} from '@/types';
+import { calculatePayment, convertToMonthlyPayment } from './payment';
+import { calculateAffordabilityForPayment } from './affordability';
+import { generateYearlyAmortizationSummary } from './sensitivity';
+import { DEFAULT_POLICY, getQualifyingRate } from './policy';
+import { fromCents, roundMoney, sumMoney, toCents } from './money';
+
+// HELOCs qualify as if amortized over 25 years at the qualifying rate
+export const HELOC_QUALIFYING_AMORTIZATION_YEARS = 25;
+
+/**
+ * Interest-only minimum payment on a HELOC balance (simple monthly interest)
+ */
+export function calculateHelocMinimumPayment(balance: number, annualRate: number): number {
+  return roundMoney((balance * annualRate) / 100 / 12);
+}
+
+function getAmortizationYears(segment: MortgageSegment): number {
+  if (!segment.amortizationYears || segment.amortizationYears <= 0) {
+    throw new Error(`Segment ${segment.label ?? segment.type} needs an amortization period`);
+  }
+  return segment.amortizationYears;
+}
+
+/**
+ * Calculate one segment's monthly payment and its payment at the qualifying rate
+ * - Fixed / variable: amortizing payment at the segment's rate
+ * - HELOC: interest-only minimum on the amount drawn; qualifies on the full
+ *   limit (or the balance without one) amortized over 25 years at the
+ *   qualifying rate
+ */
+export function calculateSegmentPayment(
+  segment: MortgageSegment,
+  frequency: PaymentFrequency,
+  policy: QualificationPolicy = DEFAULT_POLICY
+): MortgageSegmentResult {
+  const qualifyingRate = getQualifyingRate(segment.annualRate, policy);
+
+  if (segment.type === 'heloc') {
+    const qualifyingBalance = segment.creditLimit ?? segment.principal;
+    return {
+      segment,
+      monthlyPayment: calculateHelocMinimumPayment(segment.principal, segment.annualRate),
+      qualifyingRate,
+      stressMonthlyPayment: roundMoney(
+        calculatePayment({
+          principal: qualifyingBalance,
+          annualRate: qualifyingRate,
+          amortizationYears: HELOC_QUALIFYING_AMORTIZATION_YEARS,
+          frequency: 'monthly'
+        })
+      ),
+      availableCredit:
+        segment.creditLimit != null
+          ? roundMoney(Math.max(0, segment.creditLimit - segment.principal))
+          : null
+    };
+  }
+
+  const amortizationYears = getAmortizationYears(segment);
+  const monthlyPaymentAt = (annualRate: number) =>
+    convertToMonthlyPayment(
+      calculatePayment({ principal: segment.principal, annualRate, amortizationYears, frequency }),
+      frequency
+    );
+
+  return {
+    segment,
+    monthlyPayment: roundMoney(monthlyPaymentAt(segment.annualRate)),
+    qualifyingRate,
+    stressMonthlyPayment: roundMoney(monthlyPaymentAt(qualifyingRate)),
+    availableCredit: null
+  };
+}
+
+/**
+ * Project the credit that opens up under a readvanceable limit
+ * Principal repaid on the amortizing segments becomes available to draw on the
+ * HELOC, so available credit = global limit - amortizing balances - HELOC
+ * balances, year by year. HELOC balances stay flat (interest-only).
+ */
+export function projectReadvanceableCredit(
+  segments: MortgageSegment[],
+  frequency: PaymentFrequency,
+  readvanceableLimit: number
+): ReadvanceableCreditPoint[] {
+  const helocBalance = sumMoney(
+    segments.filter(segment => segment.type === 'heloc').map(segment => segment.principal)
+  );
+  const amortizing = segments.filter(segment => segment.type !== 'heloc');
+  const summaries = amortizing.map(segment =>
+    generateYearlyAmortizationSummary(
+      segment.principal,
+      segment.annualRate,
+      getAmortizationYears(segment),
+      frequency
+    )
+  );
+  const years = Math.max(0, ...summaries.map(summary => summary.length));
+
+  const points: ReadvanceableCreditPoint[] = [];
+  for (let year = 0; year <= years; year++) {
+    // A segment's balance after `year` years (0 once it's paid off)
+    const amortizingCents = amortizing.reduce((sum, segment, i) => {
+      const balance = year === 0
+        ? segment.principal
+        : summaries[i][year - 1]?.balance ?? 0;
+      return sum + toCents(balance);
+    }, 0);
+    const availableCents = toCents(readvanceableLimit) - amortizingCents - toCents(helocBalance);
+
+    points.push({
+      year,
+      amortizingBalance: fromCents(amortizingCents),
+      helocBalance,
+      availableCredit: fromCents(Math.max(0, availableCents))
+    });
+  }
+
+  return points;
+}
+
+/**
+ * Analyze a multi-segment ("mixed") mortgage
+ * Every segment is stress tested at its own qualifying rate. Affordability
+ * uses the combined payment of all segments: at contract rates, and with
+ * every segment at its qualifying rate for the stress test.
+ */
+export function analyzeMixedMortgage(params: MixedMortgageParams): MixedMortgageResult {
+  const {
+    segments,
+    frequency,
+    readvanceableLimit,
+    grossAnnualIncome,
+    monthlyDebts,
+    propertyTax = 0,
+    heatingCost = 0,
+    condoFees = 0,
+    policy = DEFAULT_POLICY
+  } = params;
+
+  if (segments.length === 0) {
+    throw new Error('A mixed mortgage needs at least one segment');
+  }
+
+  const segmentResults = segments.map(segment => calculateSegmentPayment(segment, frequency, policy));
+  const combinedMonthlyPayment = sumMoney(segmentResults.map(result => result.monthlyPayment));
+  const combinedStressMonthlyPayment = sumMoney(
+    segmentResults.map(result => result.stressMonthlyPayment)
+  );
+
+  const affordability = calculateAffordabilityForPayment(
+    combinedMonthlyPayment,
+    grossAnnualIncome,
+    monthlyDebts,
+    propertyTax,
+    heatingCost,
+    condoFees,
+    policy
+  );
+  const affordabilityAtStress = calculateAffordabilityForPayment(
+    combinedStressMonthlyPayment,
+    grossAnnualIncome,
+    monthlyDebts,
+    propertyTax,
+    heatingCost,
+    condoFees,
+    policy
+  );
+
+  return {
+    segments: segmentResults,
+    totalBalance: sumMoney(segments.map(segment => segment.principal)),
+    combinedMonthlyPayment,
+    combinedStressMonthlyPayment,
+    affordability,
+    affordabilityAtStress,
+    passesStressTest: affordabilityAtStress.isAffordable,
+    readvanceableCredit:
+      readvanceableLimit !== undefined
+        ? projectReadvanceableCredit(segments, frequency, readvanceableLimit)
+        : []
+  };
+}
@@ -0,0 +1,77 @@
+/**
+ * Money arithmetic and the rounding policy for lib/math
+ *
+ * Money is held as integer cents inside every calculation that steps through
+ * payments (schedules, balances, totals). Public functions still take and
+ * return dollars as numbers; the conversion happens at the boundary with
+ * toCents/fromCents.
+ *
+ * Rounding policy:
+ * 1. Half-cents round away from zero: $0.005 → $0.01, -$0.005 → -$0.01.
+ *    Float noise below 15 significant digits is ignored first, so 1.005
+ *    (stored as 1.00499999…) still rounds to 1.01.
+ * 2. The regular payment is the formula payment rounded to the nearest cent.
+ * 3. Interest for each period is the cent balance × periodic rate, rounded to
+ *    the nearest cent.
+ * 4. Principal is payment − interest, so balances never hold fractions of a cent.
+ * 5. The final payment is adjusted to the remaining balance plus that period's
+ *    interest, leaving a balance of exactly 0.
+ * 6. Totals are sums of the cents on the schedule, never re-derived from the
+ *    payment formula, so they always match the schedule.
+ *
+ * Rates and ratios are not money: periodic rates keep full double precision
+ * and are only rounded (with roundTo) for display.
+ */
+
+/**
+ * Round to the nearest integer, half away from zero
+ */
+function roundHalfAwayFromZero(value: number): number {
+  // Snap away float noise (e.g. 100.49999999999999) before deciding the half
+  const snapped = Number(value.toPrecision(15));
+  return Math.sign(snapped) * Math.round(Math.abs(snapped)) || 0;
+}
+
+/**
+ * Convert dollars to integer cents
+ */
+export function toCents(amount: number): number {
+  return roundHalfAwayFromZero(amount * 100);
+}
+
+/**
+ * Convert integer cents back to dollars
+ */
+export function fromCents(cents: number): number {
+  return cents / 100;
+}
+
+/**
+ * Round a dollar amount to the cent
+ */
+export function roundMoney(amount: number): number {
+  return fromCents(toCents(amount));
+}
+
+/**
+ * Round a rate or ratio to a number of decimals (half away from zero)
+ */
+export function roundTo(value: number, decimals: number = 2): number {
+  if (!Number.isFinite(value)) return value;
+  const factor = Math.pow(10, decimals);
+  return roundHalfAwayFromZero(value * factor) / factor;
+}
+
+/**
+ * Interest for one period on a cent balance, in cents
+ */
+export function calculateInterestCents(balanceCents: number, periodicRate: number): number {
+  return roundHalfAwayFromZero(balanceCents * periodicRate);
+}
+
+/**
+ * Add dollar amounts exactly (summed as cents)
+ */
+export function sumMoney(amounts: number[]): number {
+  return fromCents(amounts.reduce((sum, amount) => sum + toCents(amount), 0));
+}
@@ -1,5 +1,15 @@
 import type { PaymentFrequency, PaymentCalculationParams } from '@/types';
 
+// Every supported payment frequency, in display order
+export const PAYMENT_FREQUENCIES: PaymentFrequency[] = [
+  'monthly',
+  'semi-monthly',
+  'bi-weekly',
+  'accelerated-bi-weekly',
+  'weekly',
+  'accelerated-weekly'
+];
+
 /**
  * Get the number of payments per year based on frequency
  */
@@ -22,28 +32,44 @@ export function getPaymentsPerYear(frequency: PaymentFrequency): number {
   }
 }
 
+// Times a year interest compounds: semi-annual for Canadian mortgages,
+// monthly for most private and alternative loans
+export const SEMI_ANNUAL_COMPOUNDING = 2;
+export const MONTHLY_COMPOUNDING = 12;
+
 /**
  * Calculate periodic interest rate from annual rate
- * 
- * Canadian mortgages compound semi-annually, not monthly.
- * Formula: (1 + r/2)^(2/n) - 1
- * 
- * Note: Result is rounded to 10 decimal places to prevent tiny
- * floating-point precision errors from propagating through calculations.
+ *
+ * Formula: (1 + r/m)^(m/n) - 1 for m compoundings and n payments a year
+ * m defaults to 2: Canadian mortgages compound semi-annually, not monthly.
+ *
+ * Rates keep full precision; rounding is applied to money amounts only
+ * (see the rounding policy in money.ts).
  */
-export function getPeriodicRate(annualRate: number, paymentsPerYear: number): number {
+export function getPeriodicRate(
+  annualRate: number,
+  paymentsPerYear: number,
+  compoundingsPerYear: number = SEMI_ANNUAL_COMPOUNDING
+): number {
   // Convert percentage to decimal
   const rateDecimal = annualRate / 100;
 
-  // Canadian mortgages compound semi-annually, not monthly
-  // Formula: (1 + r/2)^(2/n) - 1
-  const semiAnnualRate = rateDecimal / 2;
-  const periodicRate = Math.pow(1 + semiAnnualRate, 2 / paymentsPerYear) - 1;
+  // (1 + r/m)^(m/n) - 1; semi-annual (m = 2) unless told otherwise
+  const compoundingRate = rateDecimal / compoundingsPerYear;
+  return Math.pow(1 + compoundingRate, compoundingsPerYear / paymentsPerYear) - 1;
+}
 
-  // Round to 10 decimal places to prevent precision errors from propagating
-  // This is still more precise than needed (cents = 2 decimals) but prevents
-  // tiny errors from accumulating in intermediate calculations
-  return Math.round(periodicRate * 1e10) / 1e10;
+/**
+ * Convert a periodic interest rate back to the annual rate (as percentage)
+ * Inverse of getPeriodicRate, using the same compounding
+ */
+export function getAnnualRateFromPeriodicRate(
+  periodicRate: number,
+  paymentsPerYear: number,
+  compoundingsPerYear: number = SEMI_ANNUAL_COMPOUNDING
+): number {
+  const compoundingRate = Math.pow(1 + periodicRate, paymentsPerYear / compoundingsPerYear) - 1;
+  return compoundingRate * compoundingsPerYear * 100;
 }
 
 /**
@@ -54,9 +80,11 @@ export function getPeriodicRate(annualRate: number, paymentsPerYear: number): nu
  *   L = loan principal
  *   c = periodic interest rate
  *   n = total number of payments
+ *
+ * Returns the unrounded formula payment; schedules charge it rounded to the cent.
  */
 export function calculatePayment(params: PaymentCalculationParams): number {
-  const { principal, annualRate, amortizationYears, frequency } = params;
+  const { principal, annualRate, amortizationYears, frequency, compoundingsPerYear } = params;
 
   // Handle zero interest rate edge case
   if (annualRate === 0) {
@@ -66,7 +94,7 @@ export function calculatePayment(params: PaymentCalculationParams): number {
   }
 
   const paymentsPerYear = getPaymentsPerYear(frequency);
-  const periodicRate = getPeriodicRate(annualRate, paymentsPerYear);
+  const periodicRate = getPeriodicRate(annualRate, paymentsPerYear, compoundingsPerYear);
   const totalPayments = amortizationYears * paymentsPerYear;
 
   // Mortgage payment formula
@@ -105,19 +133,43 @@ export function convertToMonthlyPayment(
 }
 
 /**
- * Calculate total interest paid over the life of the mortgage
+ * Calculate how many payments it takes to pay off a balance
+ * Solves the payment formula for n: n = -ln(1 - L·c/P) / ln(1 + c)
+ * Accelerated payments are larger than the amortizing payment, so n comes out
+ * below amortizationYears × paymentsPerYear. Returns Infinity when the payment
+ * doesn't cover the interest.
  */
-export function calculateTotalInterest(
+export function calculateNumberOfPayments(
   principal: number,
+  annualRate: number,
   payment: number,
-  frequency: PaymentFrequency,
-  amortizationYears: number
+  frequency: PaymentFrequency
 ): number {
-  const paymentsPerYear = getPaymentsPerYear(frequency);
-  const totalPayments = amortizationYears * paymentsPerYear;
-  const totalPaid = payment * totalPayments;
+  if (principal <= 0) return 0;
+  if (payment <= 0) return Infinity;
+  if (annualRate === 0) return principal / payment;
+
+  const periodicRate = getPeriodicRate(annualRate, getPaymentsPerYear(frequency));
+  const ratio = (principal * periodicRate) / payment;
+  if (ratio >= 1) return Infinity;
+
+  return -Math.log(1 - ratio) / Math.log(1 + periodicRate);
+}
 
-  return totalPaid - principal;
+/**
+ * Calculate the effective amortization in years for a frequency
+ * Equal to amortizationYears except for accelerated frequencies, which pay
+ * the mortgage off early
+ */
+export function calculateEffectiveAmortization(
+  principal: number,
+  annualRate: number,
+  amortizationYears: number,
+  frequency: PaymentFrequency
+): number {
+  const payment = calculatePayment({ principal, annualRate, amortizationYears, frequency });
+  const payments = calculateNumberOfPayments(principal, annualRate, payment, frequency);
+  return payments / getPaymentsPerYear(frequency);
 }
 
 /**
@@ -0,0 +1,103 @@
+import type { PrepaymentPenaltyParams, PrepaymentPenaltyResult } from '@/types';
+import { getPeriodicRate } from './payment';
+import { calculateBalanceAtDate } from './renewal';
+import { roundMoney, roundTo } from './money';
+
+/**
+ * Calculate the three months' interest penalty
+ * Three payments' worth of interest at the contract rate on the balance owing
+ */
+export function calculateThreeMonthsInterest(balance: number, contractRate: number): number {
+  const monthlyRate = getPeriodicRate(contractRate, 12);
+  return roundMoney(balance * monthlyRate * 3);
+}
+
+/**
+ * Calculate the interest rate differential (IRD) penalty
+ * IRD = balance × (contract rate - comparison rate) over the remaining term
+ * The differential is applied at the monthly periodic rate, so it compounds
+ * semi-annually like the mortgage itself. No IRD is owed when rates have risen.
+ */
+export function calculateIRD(
+  balance: number,
+  contractRate: number,
+  comparisonRate: number,
+  remainingTermMonths: number
+): number {
+  if (comparisonRate >= contractRate || remainingTermMonths <= 0) return 0;
+
+  const monthlyDifferential =
+    getPeriodicRate(contractRate, 12) - getPeriodicRate(comparisonRate, 12);
+  return roundMoney(balance * monthlyDifferential * remainingTermMonths);
+}
+
+/**
+ * Get the IRD comparison rate for the chosen method
+ * Posted-rate: the current posted rate less the discount given at signing
+ * (original posted rate - contract rate). Discounted-rate: used as given.
+ */
+export function getIRDComparisonRate(
+  params: Pick<
+    PrepaymentPenaltyParams,
+    'irdMethod' | 'comparisonRate' | 'contractRate' | 'originalPostedRate'
+  >
+): number {
+  const { irdMethod, comparisonRate, contractRate, originalPostedRate } = params;
+
+  if (irdMethod === 'posted-rate') {
+    const discount = Math.max(0, (originalPostedRate ?? contractRate) - contractRate);
+    return Math.max(0, roundTo(comparisonRate - discount, 3));
+  }
+
+  return comparisonRate;
+}
+
+/**
+ * Calculate the cost of breaking a mortgage
+ * Returns the greater of three months' interest and the IRD with a breakdown.
+ * Variable-rate mortgages are only charged three months' interest.
+ */
+export function calculatePrepaymentPenalty(
+  params: PrepaymentPenaltyParams
+): PrepaymentPenaltyResult {
+  const {
+    principal,
+    contractRate,
+    amortizationYears,
+    frequency,
+    startDate,
+    penaltyDate = new Date(),
+    remainingTermMonths,
+    irdMethod,
+    mortgageType = 'fixed'
+  } = params;
+
+  const balance = calculateBalanceAtDate(
+    principal,
+    contractRate,
+    amortizationYears,
+    frequency,
+    startDate,
+    penaltyDate
+  );
+
+  const threeMonthsInterest = calculateThreeMonthsInterest(balance, contractRate);
+  const irdComparisonRate = getIRDComparisonRate(params);
+  const ird = mortgageType === 'variable'
+    ? 0
+    : calculateIRD(balance, contractRate, irdComparisonRate, remainingTermMonths);
+
+  const isIRD = ird > threeMonthsInterest;
+
+  return {
+    balance,
+    remainingTermMonths,
+    threeMonthsInterest,
+    ird,
+    irdMethod,
+    irdComparisonRate,
+    rateDifferential: roundTo(contractRate - irdComparisonRate, 3),
+    penalty: isIRD ? ird : threeMonthsInterest,
+    penaltyType: isIRD ? 'ird' : 'three-months-interest'
+  };
+}
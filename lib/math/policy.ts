@@ -0,0 +1,271 @@
+import type { PolicyProfileId, QualificationPolicy } from '@/types';
+
+type PolicyRules = Omit<QualificationPolicy, 'version' | 'effectiveFrom' | 'effectiveTo'>;
+type PolicyChange = { effectiveFrom: string } & Partial<PolicyRules>;
+
+/**
+ * Federal rule changes shared by the regulated profiles
+ * - 2018-01-01: B-20 stress test for uninsured mortgages (5-year benchmark rate)
+ * - 2020-03-18: benchmark rate falls to 4.79%
+ * - 2021-06-01: 5.25% qualifying rate floor
+ * - 2024-12-15: insured price cap raised to $1.5M, 30-year insured
+ *   amortization for first-time buyers
+ */
+const FEDERAL_RULE_CHANGES: PolicyChange[] = [
+  {
+    effectiveFrom: '2018-01-01',
+    qualifyingRate: { buffer: 2.0, floorRate: 5.34 },
+    insuredPriceCap: 1000000
+  },
+  { effectiveFrom: '2020-03-18', qualifyingRate: { buffer: 2.0, floorRate: 4.79 } },
+  { effectiveFrom: '2021-06-01', qualifyingRate: { buffer: 2.0, floorRate: 5.25 } },
+  { effectiveFrom: '2024-12-15', insuredPriceCap: 1500000 }
+];
+
+/**
+ * Build the dated versions of a profile by applying each change in turn
+ * A version stays in effect until the next one starts
+ */
+function buildPolicyVersions(base: PolicyRules, changes: PolicyChange[]): QualificationPolicy[] {
+  let rules = base;
+
+  return changes.map((change, i) => {
+    const { effectiveFrom, ...overrides } = change;
+    rules = { ...rules, ...overrides };
+    const next = changes[i + 1];
+
+    return {
+      ...rules,
+      version: `${base.id}@${effectiveFrom}`,
+      effectiveFrom: new Date(effectiveFrom),
+      effectiveTo: next ? new Date(next.effectiveFrom) : null
+    };
+  });
+}
+
+/**
+ * Versioned qualification policy table
+ * Each profile bundles debt service thresholds, the qualifying rate rule,
+ * maximum amortization and whether the mortgage is insured or uninsured,
+ * with effective dates so past assessments can be reproduced.
+ */
+export const POLICY_VERSIONS: QualificationPolicy[] = [
+  // Conservative 32/40 ratios with the federal stress test
+  ...buildPolicyVersions(
+    {
+      id: 'standard',
+      name: 'Standard 32/40',
+      gdsThreshold: 32,
+      tdsThreshold: 40,
+      qualifyingRate: { buffer: 2.0, floorRate: 5.25 },
+      maxAmortizationYears: 30,
+      firstTimeBuyerMaxAmortizationYears: 30,
+      insurance: 'either',
+      maxLtv: 95,
+      insuredPriceCap: 1500000,
+      liabilityRules: {
+        revolvingPaymentPercent: 3,
+        lineOfCreditMethod: 'percent-of-balance',
+        lineOfCreditPaymentPercent: 3,
+        lineOfCreditFallbackRate: 7,
+        excludeInstallmentsUnderPayments: 0
+      },
+      incomeRules: {
+        overtimeHaircutPercent: 50,
+        rentalMethod: 'add-back',
+        rentalAddBackPercent: 50,
+        rentalOffsetPercent: 50,
+        includeChildBenefit: true
+      }
+    },
+    FEDERAL_RULE_CHANGES
+  ),
+  // OSFI Guideline B-20: federally regulated lenders, 20%+ down
+  ...buildPolicyVersions(
+    {
+      id: 'osfi-b20-uninsured',
+      name: 'OSFI B-20 Uninsured',
+      gdsThreshold: 39,
+      tdsThreshold: 44,
+      qualifyingRate: { buffer: 2.0, floorRate: 5.25 },
+      maxAmortizationYears: 30,
+      firstTimeBuyerMaxAmortizationYears: 30,
+      insurance: 'uninsured',
+      maxLtv: 80,
+      insuredPriceCap: 1500000,
+      liabilityRules: {
+        revolvingPaymentPercent: 3,
+        lineOfCreditMethod: 'percent-of-balance',
+        lineOfCreditPaymentPercent: 3,
+        lineOfCreditFallbackRate: 7,
+        excludeInstallmentsUnderPayments: 10
+      },
+      incomeRules: {
+        overtimeHaircutPercent: 50,
+        rentalMethod: 'offset',
+        rentalAddBackPercent: 50,
+        rentalOffsetPercent: 80,
+        includeChildBenefit: true
+      }
+    },
+    FEDERAL_RULE_CHANGES
+  ),
+  // CMHC high-ratio insured mortgage
+  ...buildPolicyVersions(
+    {
+      id: 'cmhc-insured',
+      name: 'CMHC Insured 39/44',
+      gdsThreshold: 39,
+      tdsThreshold: 44,
+      qualifyingRate: { buffer: 2.0, floorRate: 5.25 },
+      maxAmortizationYears: 25,
+      firstTimeBuyerMaxAmortizationYears: 25,
+      insurance: 'insured',
+      maxLtv: 95,
+      insuredPriceCap: 1500000,
+      liabilityRules: {
+        revolvingPaymentPercent: 3,
+        lineOfCreditMethod: 'percent-of-balance',
+        lineOfCreditPaymentPercent: 3,
+        lineOfCreditFallbackRate: 7,
+        excludeInstallmentsUnderPayments: 0
+      },
+      incomeRules: {
+        overtimeHaircutPercent: 50,
+        rentalMethod: 'add-back',
+        rentalAddBackPercent: 50,
+        rentalOffsetPercent: 50,
+        includeChildBenefit: true
+      }
+    },
+    FEDERAL_RULE_CHANGES.map(change =>
+      change.effectiveFrom === '2024-12-15'
+        ? { ...change, firstTimeBuyerMaxAmortizationYears: 30 }
+        : change
+    )
+  ),
+  // Alternative lender: higher ratios, qualifies at the contract rate
+  ...buildPolicyVersions(
+    {
+      id: 'b-lender',
+      name: 'B-Lender',
+      gdsThreshold: 45,
+      tdsThreshold: 50,
+      qualifyingRate: { buffer: 0, floorRate: 0 },
+      maxAmortizationYears: 30,
+      firstTimeBuyerMaxAmortizationYears: 30,
+      insurance: 'uninsured',
+      maxLtv: 80,
+      insuredPriceCap: 1500000,
+      liabilityRules: {
+        revolvingPaymentPercent: 3,
+        lineOfCreditMethod: 'interest-only',
+        lineOfCreditPaymentPercent: 3,
+        lineOfCreditFallbackRate: 7,
+        excludeInstallmentsUnderPayments: 10
+      },
+      incomeRules: {
+        overtimeHaircutPercent: 0,
+        rentalMethod: 'add-back',
+        rentalAddBackPercent: 80,
+        rentalOffsetPercent: 80,
+        includeChildBenefit: true
+      }
+    },
+    [{ effectiveFrom: '2018-01-01' }]
+  )
+];
+
+const POLICY_PROFILE_IDS: PolicyProfileId[] = [
+  'standard',
+  'osfi-b20-uninsured',
+  'cmhc-insured',
+  'b-lender'
+];
+
+/**
+ * Look up the version of a profile in effect on a date
+ * Unknown ids fall back to the standard profile; dates before the first
+ * version use the earliest one.
+ */
+export function getPolicyProfile(id?: string, asOf: Date = new Date()): QualificationPolicy {
+  const profileId = POLICY_PROFILE_IDS.includes(id as PolicyProfileId)
+    ? (id as PolicyProfileId)
+    : 'standard';
+  const versions = POLICY_VERSIONS.filter(p => p.id === profileId);
+
+  const match = versions.find(
+    p =>
+      p.effectiveFrom.getTime() <= asOf.getTime() &&
+      (p.effectiveTo === null || asOf.getTime() < p.effectiveTo.getTime())
+  );
+
+  return match ?? versions[0];
+}
+
+/**
+ * Look up an exact policy version (e.g. one stored with a saved calculation)
+ */
+export function getPolicyVersion(version: string): QualificationPolicy | undefined {
+  return POLICY_VERSIONS.find(p => p.version === version);
+}
+
+/**
+ * Check that a policy version is the one its profile had in effect on a date
+ * (the version getPolicyProfile would pick for that date)
+ */
+export function isPolicyInEffect(policy: QualificationPolicy, asOf: Date): boolean {
+  return getPolicyProfile(policy.id, asOf).version === policy.version;
+}
+
+// Profiles currently in effect, keyed by id
+export const POLICY_PROFILES = Object.fromEntries(
+  POLICY_PROFILE_IDS.map(id => [id, getPolicyProfile(id)])
+) as Record<PolicyProfileId, QualificationPolicy>;
+
+export const DEFAULT_POLICY: QualificationPolicy = POLICY_PROFILES.standard;
+
+/**
+ * Calculate the qualifying rate under a policy
+ * Greater of the contract rate plus the buffer and the policy floor
+ */
+export function getQualifyingRate(
+  contractRate: number,
+  policy: QualificationPolicy = DEFAULT_POLICY
+): number {
+  const { buffer, floorRate } = policy.qualifyingRate;
+  return Math.max(contractRate + buffer, floorRate);
+}
+
+/**
+ * Check the non-ratio rules of a policy
+ * Returns a list of reasons the mortgage falls outside the policy (empty if eligible)
+ */
+export function checkPolicyEligibility(
+  amortizationYears: number,
+  ltv?: number,
+  policy: QualificationPolicy = DEFAULT_POLICY,
+  isFirstTimeBuyer: boolean = false
+): string[] {
+  const violations: string[] = [];
+  const maxAmortizationYears = isFirstTimeBuyer
+    ? policy.firstTimeBuyerMaxAmortizationYears
+    : policy.maxAmortizationYears;
+
+  if (amortizationYears > maxAmortizationYears) {
+    violations.push(
+      `Amortization exceeds the ${maxAmortizationYears}-year maximum`
+    );
+  }
+
+  if (ltv !== undefined) {
+    if (ltv > policy.maxLtv) {
+      violations.push(`LTV exceeds the ${policy.maxLtv}% maximum`);
+    }
+    if (policy.insurance === 'insured' && ltv <= 80) {
+      violations.push('Policy requires a high-ratio insured mortgage');
+    }
+  }
+
+  return violations;
+}
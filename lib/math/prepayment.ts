@@ -0,0 +1,83 @@
+import type {
+  PaymentFrequency,
+  PrepaymentOptions,
+  PrepaymentComparison,
+  AmortizationEntry
+} from '@/types';
+import { getPaymentsPerYear } from './payment';
+import { generateAmortizationSchedule } from './sensitivity';
+import { fromCents, roundMoney, sumMoney, toCents } from './money';
+
+// Typical annual lump-sum privilege on a closed Canadian mortgage
+export const DEFAULT_LUMP_SUM_PRIVILEGE_PERCENT = 15; // 15% of original principal
+
+/**
+ * Calculate the maximum annual lump sum allowed by the prepayment privilege
+ * Most lenders allow 10-20% of the original principal per mortgage year
+ */
+export function calculateLumpSumPrivilege(
+  originalPrincipal: number,
+  privilegePercent: number = DEFAULT_LUMP_SUM_PRIVILEGE_PERCENT
+): number {
+  return roundMoney(originalPrincipal * (privilegePercent / 100));
+}
+
+/**
+ * Sum a schedule column exactly (in cents)
+ */
+function sumSchedule(
+  schedule: AmortizationEntry[],
+  pick: (entry: AmortizationEntry) => number
+): number {
+  return sumMoney(schedule.map(pick));
+}
+
+/**
+ * Compare a prepayment scenario against the baseline schedule
+ * Reports the interest saved and how much sooner the mortgage is paid off
+ */
+export function comparePrepaymentScenario(
+  principal: number,
+  annualRate: number,
+  amortizationYears: number,
+  frequency: PaymentFrequency,
+  prepayments: PrepaymentOptions,
+  startDate: Date = new Date()
+): PrepaymentComparison {
+  const baselineSchedule = generateAmortizationSchedule(
+    principal,
+    annualRate,
+    amortizationYears,
+    frequency,
+    startDate
+  );
+
+  const prepaymentSchedule = generateAmortizationSchedule(
+    principal,
+    annualRate,
+    amortizationYears,
+    frequency,
+    startDate,
+    prepayments
+  );
+
+  const baselineTotalInterest = sumSchedule(baselineSchedule, e => e.interest);
+  const prepaymentTotalInterest = sumSchedule(prepaymentSchedule, e => e.interest);
+  const totalPrepaid = sumSchedule(prepaymentSchedule, e => e.prepayment ?? 0);
+
+  const paymentsSaved = baselineSchedule.length - prepaymentSchedule.length;
+  const paymentsPerYear = getPaymentsPerYear(frequency);
+
+  return {
+    baselineSchedule,
+    prepaymentSchedule,
+    baselineTotalInterest,
+    prepaymentTotalInterest,
+    totalPrepaid,
+    interestSaved: fromCents(toCents(baselineTotalInterest) - toCents(prepaymentTotalInterest)),
+    paymentsSaved,
+    monthsSaved: Math.round((paymentsSaved * 12) / paymentsPerYear),
+    baselinePayoffDate: baselineSchedule[baselineSchedule.length - 1]?.paymentDate ?? startDate,
+    prepaymentPayoffDate: prepaymentSchedule[prepaymentSchedule.length - 1]?.paymentDate ?? startDate
+  };
+}
@@ -0,0 +1,261 @@
+import type { ExistingMortgage, Liability, RefinanceParams, RefinanceResult } from '@/types';
+import { calculatePayment, convertToMonthlyPayment, getPeriodicRate } from './payment';
+import { calculateAffordability } from './affordability';
+import { calculateIRD, calculateThreeMonthsInterest, getIRDComparisonRate } from './penalty';
+import { calculateTotalInterest } from './sensitivity';
+import { DEFAULT_POLICY } from './policy';
+import { fromCents, roundMoney, roundTo, sumMoney, toCents } from './money';
+
+// Refinances are capped at 80% of the property value (conventional limit)
+export const DEFAULT_REFINANCE_MAX_LTV = 80;
+
+/**
+ * Calculate the blended rate for a blend-and-extend
+ * The existing balance keeps its rate for the rest of the current term and
+ * takes the new rate for the extension; any new money is at the new rate for
+ * the whole new term. The blend is weighted by amount and by months:
+ *
+ * blended = (B × (r_old × m + r_new × (T − m)) + N × r_new × T) / ((B + N) × T)
+ *
+ * Where B = existing balance, N = new money, m = months left in the current
+ * term and T = months in the new term.
+ */
+export function calculateBlendedRate(
+  existingBalance: number,
+  existingRate: number,
+  remainingTermMonths: number,
+  newRate: number,
+  newTermMonths: number,
+  newMoney: number = 0
+): number {
+  if (newTermMonths < remainingTermMonths) {
+    throw new Error('The new term must be at least as long as the time left in the current term');
+  }
+
+  const total = existingBalance + newMoney;
+  if (total <= 0 || newTermMonths <= 0) return newRate;
+
+  const existingWeighted =
+    existingBalance *
+    (existingRate * remainingTermMonths + newRate * (newTermMonths - remainingTermMonths));
+  const newMoneyWeighted = newMoney * newRate * newTermMonths;
+
+  return roundTo((existingWeighted + newMoneyWeighted) / (total * newTermMonths), 3);
+}
+
+/**
+ * Estimate the penalty for paying out an existing mortgage today
+ * Greater of three months' interest and the IRD (variable: three months only).
+ * The comparison rate is the lender's current rate for the remaining term;
+ * without one, the contract rate is used and the IRD comes out at zero.
+ */
+export function estimatePayoutPenalty(
+  existing: ExistingMortgage,
+  comparisonRate: number = existing.irdComparisonRate ?? existing.annualRate
+): { penalty: number; penaltyType: 'three-months-interest' | 'ird' } {
+  const threeMonthsInterest = calculateThreeMonthsInterest(existing.balance, existing.annualRate);
+  const irdComparisonRate = getIRDComparisonRate({
+    irdMethod: existing.irdMethod ?? 'discounted-rate',
+    comparisonRate,
+    contractRate: existing.annualRate,
+    originalPostedRate: existing.originalPostedRate
+  });
+  const ird = existing.mortgageType === 'variable'
+    ? 0
+    : calculateIRD(existing.balance, existing.annualRate, irdComparisonRate, existing.remainingTermMonths);
+
+  return ird > threeMonthsInterest
+    ? { penalty: ird, penaltyType: 'ird' }
+    : { penalty: threeMonthsInterest, penaltyType: 'three-months-interest' };
+}
+
+/**
+ * Estimate the penalty for breaking the existing mortgage to refinance
+ * Uses the lender's quote when there is one; otherwise the new rate stands in
+ * for the IRD comparison rate unless the lender's rate is known
+ */
+function estimateRefinancePenalty(
+  params: RefinanceParams
+): { penalty: number; penaltyType: RefinanceResult['penaltyType'] } {
+  const { existing } = params;
+
+  if (params.penaltyOverride !== undefined) {
+    return { penalty: roundMoney(params.penaltyOverride), penaltyType: 'quoted' };
+  }
+
+  return estimatePayoutPenalty(existing, existing.irdComparisonRate ?? params.newRate);
+}
+
+/**
+ * Analyze refinancing an existing mortgage
+ *
+ * The new mortgage is the existing balance plus, where they apply, the
+ * penalty (full refinance only), refinance costs and consolidated debts
+ * (liabilities marked toBePaidOff). Cash-out is added on top, up to the
+ * maximum LTV. Affordability is run before (existing mortgage, every
+ * liability) and after (new mortgage, remaining liabilities).
+ *
+ * Break-even is the number of months of interest savings on the existing
+ * balance, at the old rate vs. the new one, needed to recover the penalty
+ * and costs. Lifetime interest compares the existing mortgage over its
+ * remaining amortization with the new one over its amortization, assuming
+ * each rate holds throughout.
+ */
+export function analyzeRefinance(params: RefinanceParams): RefinanceResult {
+  const {
+    existing,
+    type,
+    newTermYears,
+    newAmortizationYears,
+    propertyValue,
+    grossAnnualIncome,
+    liabilities = [],
+    propertyTax = 0,
+    heatingCost = 0,
+    condoFees = 0,
+    policy = DEFAULT_POLICY
+  } = params;
+  const newFrequency = params.newFrequency ?? existing.frequency;
+  const maxLtv = params.maxLtv ?? DEFAULT_REFINANCE_MAX_LTV;
+  const refinanceCosts = roundMoney(params.refinanceCosts ?? 0);
+  const requestedCashOut = roundMoney(params.cashOut ?? 0);
+
+  if (propertyValue <= 0) {
+    throw new Error('Property value must be greater than zero');
+  }
+
+  const { penalty, penaltyType } = type === 'full-refinance'
+    ? estimateRefinancePenalty(params)
+    : { penalty: 0, penaltyType: null };
+
+  // Debts being rolled into the mortgage
+  const consolidatedLiabilities = liabilities.filter(liability => liability.toBePaidOff);
+  const consolidatedDebt = sumMoney(consolidatedLiabilities.map(liability => liability.balance));
+  const consolidatedMonthlyPayments = sumMoney(
+    consolidatedLiabilities.map(liability => liability.monthlyPayment)
+  );
+
+  // Cash-out fills whatever room is left under the LTV limit
+  const maxMortgageCents = toCents((propertyValue * maxLtv) / 100);
+  const requiredCents =
+    toCents(existing.balance) + toCents(penalty) + toCents(refinanceCosts) + toCents(consolidatedDebt);
+  const cashOutCents = Math.min(toCents(requestedCashOut), Math.max(0, maxMortgageCents - requiredCents));
+  const newPrincipal = fromCents(requiredCents + cashOutCents);
+
+  // Blending applies the old rate to the existing balance only
+  const newMoney = fromCents(requiredCents + cashOutCents - toCents(existing.balance));
+  const newRate = type === 'blend-and-extend'
+    ? calculateBlendedRate(
+        existing.balance,
+        existing.annualRate,
+        existing.remainingTermMonths,
+        params.newRate,
+        newTermYears * 12,
+        newMoney
+      )
+    : params.newRate;
+
+  const existingMonthlyPayment = convertToMonthlyPayment(
+    calculatePayment({
+      principal: existing.balance,
+      annualRate: existing.annualRate,
+      amortizationYears: existing.remainingAmortizationYears,
+      frequency: existing.frequency
+    }),
+    existing.frequency
+  );
+  const newMonthlyPayment = convertToMonthlyPayment(
+    calculatePayment({
+      principal: newPrincipal,
+      annualRate: newRate,
+      amortizationYears: newAmortizationYears,
+      frequency: newFrequency
+    }),
+    newFrequency
+  );
+
+  // Before the refinance every liability is still being paid
+  const liabilitiesBefore: Liability[] = liabilities.map(liability => ({
+    ...liability,
+    toBePaidOff: false
+  }));
+  const affordabilityBefore = calculateAffordability(
+    existing.balance,
+    existing.annualRate,
+    existing.remainingAmortizationYears,
+    existing.frequency,
+    grossAnnualIncome,
+    liabilitiesBefore,
+    propertyTax,
+    heatingCost,
+    condoFees,
+    policy
+  );
+  const affordabilityAfter = calculateAffordability(
+    newPrincipal,
+    newRate,
+    newAmortizationYears,
+    newFrequency,
+    grossAnnualIncome,
+    liabilities,
+    propertyTax,
+    heatingCost,
+    condoFees,
+    policy
+  );
+
+  // Months for the lower rate on the existing balance to pay back the upfront cost
+  const monthlyInterestSavings =
+    existing.balance * (getPeriodicRate(existing.annualRate, 12) - getPeriodicRate(newRate, 12));
+  const upfrontCost = penalty + refinanceCosts;
+  const breakevenMonths = upfrontCost === 0
+    ? 0
+    : monthlyInterestSavings > 0
+      ? Math.ceil(upfrontCost / monthlyInterestSavings)
+      : null;
+
+  const existingLifetimeInterest = calculateTotalInterest(
+    existing.balance,
+    existing.annualRate,
+    existing.remainingAmortizationYears,
+    existing.frequency
+  );
+  const newLifetimeInterest = calculateTotalInterest(
+    newPrincipal,
+    newRate,
+    newAmortizationYears,
+    newFrequency
+  );
+
+  return {
+    type,
+    existingBalance: roundMoney(existing.balance),
+    penalty,
+    penaltyType,
+    consolidatedDebt,
+    consolidatedLiabilities,
+    refinanceCosts,
+    requestedCashOut,
+    cashOut: fromCents(cashOutCents),
+    newPrincipal,
+    maxMortgage: fromCents(maxMortgageCents),
+    ltv: roundTo((newPrincipal / propertyValue) * 100),
+    exceedsMaxLtv: requiredCents > maxMortgageCents,
+    newRate,
+    existingMonthlyPayment: roundMoney(existingMonthlyPayment),
+    newMonthlyPayment: roundMoney(newMonthlyPayment),
+    consolidatedMonthlyPayments,
+    monthlyCashFlowChange: roundMoney(
+      existingMonthlyPayment + consolidatedMonthlyPayments - newMonthlyPayment
+    ),
+    affordabilityBefore,
+    affordabilityAfter,
+    breakevenMonths,
+    recoversWithinTerm: breakevenMonths !== null && breakevenMonths <= newTermYears * 12,
+    existingLifetimeInterest,
+    newLifetimeInterest,
+    lifetimeInterestDifference: fromCents(
+      toCents(newLifetimeInterest) - toCents(existingLifetimeInterest)
+    )
+  };
+}
@@ -0,0 +1,235 @@
+import type {
+  PaymentFrequency,
+  PercentileBand,
+  RateModelConfig,
+  RenewalRiskParams,
+  RenewalRiskResult,
+  RenewalRiskTerm
+} from '@/types';
+import {
+  calculatePayment,
+  convertToMonthlyPayment,
+  getPaymentsPerYear,
+  getPeriodicRate
+} from './payment';
+import { calculateInterestCents, fromCents, roundMoney, roundTo, toCents } from './money';
+import rateModelConfig from './rate-model.json';
+
+/**
+ * Default rate model, read from rate-model.json
+ * Edit that file to change the long-term rate, volatility or default seed.
+ */
+export const DEFAULT_RATE_MODEL: RateModelConfig = rateModelConfig;
+
+/**
+ * Seeded pseudo-random generator (mulberry32) returning values in [0, 1)
+ * The same seed always yields the same sequence, so simulations repeat exactly.
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Standard normal draws from a uniform generator (Box-Muller)
+ */
+function createNormalRandom(random: () => number): () => number {
+  return () => {
+    // 1 - u keeps the log argument in (0, 1]
+    const u1 = 1 - random();
+    const u2 = random();
+    return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+  };
+}
+
+/**
+ * Percentile of sorted values, interpolating between neighbours
+ */
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const position = (sorted.length - 1) * p;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+function getPercentileBand(values: number[], round: (value: number) => number): PercentileBand {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    p10: round(percentile(sorted, 0.1)),
+    p50: round(percentile(sorted, 0.5)),
+    p90: round(percentile(sorted, 0.9))
+  };
+}
+
+/**
+ * Simulate one rate path, returning the rate at the start of each term
+ * Rates follow a Vasicek process stepped with Euler's method:
+ *   r(t+dt) = r(t) + κ(θ − r(t))dt + σ√dt·Z
+ * where κ is the mean reversion speed, θ the long-term rate and σ the
+ * volatility. The first term keeps the contract rate.
+ */
+function simulateTermRates(
+  contractRate: number,
+  termStartYears: number[],
+  model: RateModelConfig,
+  normal: () => number
+): number[] {
+  const dt = 1 / model.stepsPerYear;
+  const rates = [contractRate];
+  let rate = contractRate;
+  let step = 0;
+
+  for (const startYears of termStartYears.slice(1)) {
+    const targetStep = Math.round(startYears * model.stepsPerYear);
+    for (; step < targetStep; step++) {
+      rate +=
+        model.meanReversionSpeed * (model.longTermRate - rate) * dt +
+        model.volatility * Math.sqrt(dt) * normal();
+      rate = Math.max(rate, model.floorRate);
+    }
+    rates.push(rate);
+  }
+
+  return rates;
+}
+
+/**
+ * Run one term in cents: the payment re-amortizing the balance over the
+ * remaining amortization, and the interest and balance after the term
+ * Follows the same rounding as generateAmortizationSchedule.
+ */
+function simulateTerm(
+  balanceCents: number,
+  annualRate: number,
+  remainingAmortizationYears: number,
+  frequency: PaymentFrequency,
+  termYears: number
+): { paymentCents: number; interestCents: number; balanceCents: number } {
+  const paymentsPerYear = getPaymentsPerYear(frequency);
+  const periodicRate = getPeriodicRate(annualRate, paymentsPerYear);
+  const paymentCents = toCents(
+    calculatePayment({
+      principal: fromCents(balanceCents),
+      annualRate,
+      amortizationYears: remainingAmortizationYears,
+      frequency
+    })
+  );
+  const termPayments = Math.round(termYears * paymentsPerYear);
+  const isFinalTerm = termYears >= remainingAmortizationYears;
+
+  let balance = balanceCents;
+  let interestTotal = 0;
+
+  for (let i = 1; i <= termPayments && balance > 0; i++) {
+    const interestCents = calculateInterestCents(balance, periodicRate);
+    const principalCents = paymentCents - interestCents;
+    interestTotal += interestCents;
+
+    // Final payment: whatever is left plus this period's interest
+    if ((isFinalTerm && i === termPayments) || principalCents >= balance) {
+      balance = 0;
+    } else {
+      balance -= principalCents;
+    }
+  }
+
+  return { paymentCents, interestCents: interestTotal, balanceCents: balance };
+}
+
+/**
+ * Simulate renewal risk with Monte Carlo rate paths
+ *
+ * Each path draws mortgage rates from a mean-reverting model (see
+ * rate-model.json). The current term runs at the contract rate; at every
+ * renewal the balance re-amortizes over the remaining amortization at that
+ * path's rate. Results are percentile bands (P10/P50/P90) of the rate and
+ * monthly payment at each renewal and of total interest, plus the
+ * probability that the payment exceeds the client's comfort limit.
+ *
+ * Runs are seeded, so the same inputs and seed always give the same result.
+ */
+export function simulateRenewalRisk(params: RenewalRiskParams): RenewalRiskResult {
+  const { principal, annualRate, amortizationYears, frequency, termYears } = params;
+  const model: RateModelConfig = { ...DEFAULT_RATE_MODEL, ...params.model };
+  const simulations = params.simulations ?? model.simulations;
+  const seed = params.seed ?? model.seed;
+  const comfortLimit = params.comfortLimit ?? null;
+
+  if (termYears <= 0 || amortizationYears <= 0) {
+    throw new Error('Term and amortization must be greater than zero');
+  }
+  if (simulations < 1) {
+    throw new Error('At least one simulation is required');
+  }
+
+  // Terms are back to back until the amortization runs out
+  const termStartYears: number[] = [];
+  for (let start = 0; start < amortizationYears; start += termYears) {
+    termStartYears.push(start);
+  }
+
+  const normal = createNormalRandom(createRandom(seed));
+  const termRates: number[][] = termStartYears.map(() => []);
+  const termPayments: number[][] = termStartYears.map(() => []);
+  const totalInterest: number[] = [];
+  let pathsAboveComfort = 0;
+
+  for (let path = 0; path < simulations; path++) {
+    const rates = simulateTermRates(annualRate, termStartYears, model, normal);
+    let balanceCents = toCents(principal);
+    let interestCents = 0;
+    let aboveComfort = false;
+
+    termStartYears.forEach((startYears, i) => {
+      const remainingAmortizationYears = amortizationYears - startYears;
+      const term = simulateTerm(
+        balanceCents,
+        rates[i],
+        remainingAmortizationYears,
+        frequency,
+        Math.min(termYears, remainingAmortizationYears)
+      );
+      const monthlyPayment = convertToMonthlyPayment(fromCents(term.paymentCents), frequency);
+
+      termRates[i].push(rates[i]);
+      termPayments[i].push(monthlyPayment);
+      if (comfortLimit !== null && monthlyPayment > comfortLimit) aboveComfort = true;
+
+      balanceCents = term.balanceCents;
+      interestCents += term.interestCents;
+    });
+
+    totalInterest.push(fromCents(interestCents));
+    if (aboveComfort) pathsAboveComfort++;
+  }
+
+  const terms: RenewalRiskTerm[] = termStartYears.map((startYears, i) => ({
+    termNumber: i + 1,
+    yearsFromStart: startYears,
+    annualRate: getPercentileBand(termRates[i], rate => roundTo(rate, 3)),
+    monthlyPayment: getPercentileBand(termPayments[i], roundMoney),
+    probabilityAboveComfort:
+      comfortLimit === null
+        ? null
+        : roundTo(termPayments[i].filter(p => p > comfortLimit).length / simulations, 4)
+  }));
+
+  return {
+    simulations,
+    seed,
+    model,
+    terms,
+    totalInterest: getPercentileBand(totalInterest, roundMoney),
+    comfortLimit,
+    probabilityExceedsComfort:
+      comfortLimit === null ? null : roundTo(pathsAboveComfort / simulations, 4)
+  };
+}
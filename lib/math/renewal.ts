@@ -0,0 +1,164 @@
+import type {
+  AmortizationEntry,
+  PaymentFrequency,
+  TermSummary,
+  RenewalAssumption,
+  RenewalTerm,
+  RenewalProjection
+} from '@/types';
+import { convertToMonthlyPayment, getPaymentsPerYear } from './payment';
+import { generateAmortizationSchedule } from './sensitivity';
+import { fromCents, roundMoney, sumMoney, toCents } from './money';
+
+/**
+ * Add whole years to a date (used for term maturity dates)
+ */
+function addYears(date: Date, years: number): Date {
+  const result = new Date(date);
+  result.setFullYear(result.getFullYear() + years);
+  return result;
+}
+
+/**
+ * Get the balance owing on a given date from an amortization schedule
+ * The balance is the one left after the last payment made on or before the date
+ */
+export function getBalanceAtDate(
+  schedule: AmortizationEntry[],
+  openingBalance: number,
+  date: Date
+): number {
+  let balance = openingBalance;
+
+  for (const entry of schedule) {
+    if (entry.paymentDate.getTime() > date.getTime()) break;
+    balance = entry.balance;
+  }
+
+  return roundMoney(balance);
+}
+
+/**
+ * Calculate the balance owing on a date for a mortgage that started on startDate
+ */
+export function calculateBalanceAtDate(
+  principal: number,
+  annualRate: number,
+  amortizationYears: number,
+  frequency: PaymentFrequency,
+  startDate: Date,
+  date: Date
+): number {
+  const schedule = generateAmortizationSchedule(
+    principal,
+    annualRate,
+    amortizationYears,
+    frequency,
+    startDate
+  );
+
+  return getBalanceAtDate(schedule, principal, date);
+}
+
+/**
+ * Calculate the position at the end of a term:
+ * balance owing at maturity, and interest and principal paid during the term
+ */
+export function calculateTermSummary(
+  principal: number,
+  annualRate: number,
+  amortizationYears: number,
+  frequency: PaymentFrequency,
+  termYears: number,
+  startDate: Date = new Date()
+): TermSummary {
+  const schedule = generateAmortizationSchedule(
+    principal,
+    annualRate,
+    amortizationYears,
+    frequency,
+    startDate
+  );
+
+  // The term can't run past the end of the amortization
+  const effectiveTermYears = Math.min(termYears, amortizationYears);
+  const termPayments = schedule.slice(
+    0,
+    effectiveTermYears * getPaymentsPerYear(frequency)
+  );
+
+  const interestPaid = sumMoney(termPayments.map(p => p.interest));
+  const principalPaidCents = termPayments.reduce(
+    (sum, p) => sum + toCents(p.principal) + toCents(p.prepayment ?? 0),
+    0
+  );
+  const balanceAtMaturity =
+    termPayments[termPayments.length - 1]?.balance ?? principal;
+  const payment = schedule[0]?.payment ?? 0;
+
+  return {
+    termYears: effectiveTermYears,
+    startDate: new Date(startDate),
+    maturityDate: addYears(startDate, effectiveTermYears),
+    openingBalance: roundMoney(principal),
+    payment,
+    monthlyPayment: roundMoney(convertToMonthlyPayment(payment, frequency)),
+    interestPaid,
+    principalPaid: fromCents(principalPaidCents),
+    balanceAtMaturity: roundMoney(balanceAtMaturity)
+  };
+}
+
+/**
+ * Project a mortgage across multiple renewals
+ * The current term runs at the contract rate; each renewal re-amortizes the
+ * balance at maturity over the remaining amortization at its assumed rate.
+ * The projection stops when the mortgage is paid off or the renewals run out.
+ */
+export function projectRenewals(
+  principal: number,
+  annualRate: number,
+  amortizationYears: number,
+  frequency: PaymentFrequency,
+  termYears: number,
+  renewals: RenewalAssumption[] = [],
+  startDate: Date = new Date()
+): RenewalProjection {
+  const terms: RenewalTerm[] = [];
+  const assumptions: RenewalAssumption[] = [{ annualRate, termYears }, ...renewals];
+
+  let balance = principal;
+  let remainingAmortizationYears = amortizationYears;
+  let termStart = new Date(startDate);
+
+  for (let i = 0; i < assumptions.length; i++) {
+    if (balance <= 0 || remainingAmortizationYears <= 0) break;
+
+    const assumption = assumptions[i];
+    const summary = calculateTermSummary(
+      balance,
+      assumption.annualRate,
+      remainingAmortizationYears,
+      frequency,
+      assumption.termYears,
+      termStart
+    );
+
+    terms.push({
+      ...summary,
+      termNumber: i + 1,
+      annualRate: assumption.annualRate,
+      remainingAmortizationYears
+    });
+
+    balance = summary.balanceAtMaturity;
+    remainingAmortizationYears -= summary.termYears;
+    termStart = summary.maturityDate;
+  }
+
+  return {
+    terms,
+    totalInterest: sumMoney(terms.map(t => t.interestPaid)),
+    finalBalance: roundMoney(balance)
+  };
+}
@@ -0,0 +1,144 @@
+import type { RentVsBuyParams, RentVsBuyResult, RentVsBuyYear } from '@/types';
+import { convertToMonthlyPayment } from './payment';
+import { calculateMortgageInsurance } from './insurance';
+import { DEFAULT_POLICY } from './policy';
+import { generateAmortizationSchedule, summarizeScheduleByYear } from './sensitivity';
+import { roundMoney, sumMoney } from './money';
+
+/**
+ * Default rent-vs-buy assumptions (annual percentages)
+ */
+export const DEFAULT_RENT_VS_BUY_ASSUMPTIONS = {
+  rentGrowth: 3,
+  homeAppreciation: 3,
+  maintenancePercent: 1,
+  propertyTaxRate: 1, // % of the purchase price when no tax figure is given
+  propertyTaxGrowth: 2,
+  investmentReturn: 5,
+  sellingCostPercent: 5
+};
+
+/**
+ * Compare the net worth of buying a home with renting and investing instead
+ *
+ * The owner's equity comes from the amortization schedule (balance owing at
+ * each year end) and the home's appreciation, less selling costs. The renter
+ * invests the down payment and closing costs from day one. Each year,
+ * whichever side spends less (owning costs vs. rent) invests the difference,
+ * so both sides have the same total outlay. Portfolios grow at the
+ * investment return; savings are added at the end of each year.
+ */
+export function compareRentVsBuy(params: RentVsBuyParams): RentVsBuyResult {
+  const {
+    purchasePrice,
+    downPayment,
+    province,
+    annualRate,
+    amortizationYears,
+    frequency,
+    closingCosts,
+    monthlyRent,
+    rentGrowth = DEFAULT_RENT_VS_BUY_ASSUMPTIONS.rentGrowth,
+    homeAppreciation = DEFAULT_RENT_VS_BUY_ASSUMPTIONS.homeAppreciation,
+    maintenancePercent = DEFAULT_RENT_VS_BUY_ASSUMPTIONS.maintenancePercent,
+    propertyTaxGrowth = DEFAULT_RENT_VS_BUY_ASSUMPTIONS.propertyTaxGrowth,
+    condoFees = 0,
+    investmentReturn = DEFAULT_RENT_VS_BUY_ASSUMPTIONS.investmentReturn,
+    sellingCostPercent = DEFAULT_RENT_VS_BUY_ASSUMPTIONS.sellingCostPercent,
+    years = amortizationYears,
+    startDate = new Date(),
+    policy = DEFAULT_POLICY
+  } = params;
+  const propertyTax =
+    params.propertyTax ?? (purchasePrice * DEFAULT_RENT_VS_BUY_ASSUMPTIONS.propertyTaxRate) / 100;
+
+  // Any insurance premium is added to the mortgage
+  const { insuredPrincipal: principal } = calculateMortgageInsurance(
+    purchasePrice,
+    downPayment,
+    province,
+    policy.insuredPriceCap
+  );
+  const schedule = generateAmortizationSchedule(
+    principal,
+    annualRate,
+    amortizationYears,
+    frequency,
+    startDate
+  );
+  const yearlySchedule = summarizeScheduleByYear(schedule, frequency);
+
+  const homeEquity = (homeValue: number, balance: number) =>
+    roundMoney(homeValue * (1 - sellingCostPercent / 100) - balance);
+
+  let homeValue = purchasePrice;
+  let ownerPortfolio = 0;
+  let renterPortfolio = downPayment + closingCosts;
+
+  const initialEquity = homeEquity(homeValue, principal);
+  const points: RentVsBuyYear[] = [
+    {
+      year: 0,
+      homeValue: roundMoney(homeValue),
+      mortgageBalance: roundMoney(principal),
+      homeEquity: initialEquity,
+      ownerCosts: 0,
+      rent: 0,
+      ownerPortfolio: 0,
+      renterPortfolio: roundMoney(renterPortfolio),
+      ownerNetWorth: initialEquity,
+      renterNetWorth: roundMoney(renterPortfolio),
+      difference: roundMoney(initialEquity - renterPortfolio)
+    }
+  ];
+
+  for (let year = 1; year <= years; year++) {
+    const growth = (rate: number) => Math.pow(1 + rate / 100, year - 1);
+
+    // Costs for the year, at this year's rent, tax and (start of year) value
+    const mortgagePayments = yearlySchedule[year - 1]?.totalPaid ?? 0;
+    const ownerCosts =
+      mortgagePayments +
+      propertyTax * growth(propertyTaxGrowth) +
+      homeValue * (maintenancePercent / 100) +
+      condoFees * 12;
+    const rent = monthlyRent * 12 * growth(rentGrowth);
+
+    homeValue *= 1 + homeAppreciation / 100;
+    ownerPortfolio = ownerPortfolio * (1 + investmentReturn / 100) + Math.max(0, rent - ownerCosts);
+    renterPortfolio = renterPortfolio * (1 + investmentReturn / 100) + Math.max(0, ownerCosts - rent);
+
+    // Balance owing at year end (0 once the mortgage is paid off)
+    const mortgageBalance = yearlySchedule[year - 1]?.balance ?? 0;
+    const equity = homeEquity(homeValue, mortgageBalance);
+    const ownerNetWorth = roundMoney(equity + ownerPortfolio);
+    const renterNetWorth = roundMoney(renterPortfolio);
+
+    points.push({
+      year,
+      homeValue: roundMoney(homeValue),
+      mortgageBalance,
+      homeEquity: equity,
+      ownerCosts: roundMoney(ownerCosts),
+      rent: roundMoney(rent),
+      ownerPortfolio: roundMoney(ownerPortfolio),
+      renterPortfolio: renterNetWorth,
+      ownerNetWorth,
+      renterNetWorth,
+      difference: roundMoney(ownerNetWorth - renterNetWorth)
+    });
+  }
+
+  const crossover = points.find(point => point.year > 0 && point.difference >= 0);
+  const monthlyPayment = convertToMonthlyPayment(schedule[0]?.payment ?? 0, frequency);
+
+  return {
+    principal,
+    monthlyPayment: roundMoney(monthlyPayment),
+    years: points,
+    crossoverYear: crossover?.year ?? null,
+    totalOwnerCosts: sumMoney(points.map(point => point.ownerCosts)),
+    totalRent: sumMoney(points.map(point => point.rent)),
+    finalDifference: points[points.length - 1].difference
+  };
+}
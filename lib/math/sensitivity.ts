@@ -1,15 +1,30 @@
 import type {
+  FrequencyComparison,
   SensitivityDataPoint,
+  SensitivityGrid,
+  SensitivityGridCell,
+  SensitivityGridParams,
   AmortizationEntry,
-  PaymentFrequency
+  PaymentFrequency,
+  PrepaymentOptions,
+  RateBreakevenParams,
+  RateBreakevenPoint,
+  RateBreakevenResult,
+  AmortizationPeriodComparison,
+  YearlyAmortizationSummary
 } from '@/types';
 import {
+  PAYMENT_FREQUENCIES,
   calculatePayment,
   convertToMonthlyPayment,
-  calculateTotalInterest,
   getPaymentsPerYear,
   getPeriodicRate
 } from './payment';
+import { calculateInterestCents, fromCents, roundMoney, roundTo, toCents } from './money';
+import { getPaymentDate, getScheduledPaymentDate } from './dates';
+import { calculateGoalSeekMetrics, withScenarioValue } from './goal-seek';
+import { DEFAULT_POLICY } from './policy';
+import { generateVariableRateSchedule } from './variable-rate';
 
 /**
  * Generate sensitivity analysis data across a range of interest rates
@@ -40,38 +55,125 @@ export function generateSensitivityAnalysis(
 
     const totalInterest = calculateTotalInterest(
       principal,
-      payment,
-      frequency,
-      amortizationYears
+      rate,
+      amortizationYears,
+      frequency
     );
 
-    const totalCost = principal + totalInterest;
+    const totalCost = fromCents(toCents(principal) + toCents(totalInterest));
 
     dataPoints.push({
-      interestRate: Math.round(rate * 100) / 100,
-      monthlyPayment: Math.round(monthlyPayment * 100) / 100,
-      totalInterest: Math.round(totalInterest * 100) / 100,
-      totalCost: Math.round(totalCost * 100) / 100
+      interestRate: roundTo(rate),
+      monthlyPayment: roundMoney(monthlyPayment),
+      totalInterest,
+      totalCost
     });
   }
 
   return dataPoints;
 }
 
+/**
+ * Generate evenly spaced values for a sensitivity grid axis, centred on a
+ * base value (e.g. 5% ± 4 steps of 0.5%). Values below `min` are dropped.
+ */
+export function generateGridAxisValues(
+  center: number,
+  step: number,
+  stepsEachSide: number,
+  min: number = 0
+): number[] {
+  const values: number[] = [];
+  for (let i = -stepsEachSide; i <= stepsEachSide; i++) {
+    const value = roundTo(center + i * step, 4);
+    if (value >= min) values.push(value);
+  }
+  return values;
+}
+
+/**
+ * Generate a two-way sensitivity grid varying any two inputs of a scenario,
+ * e.g. rate × amortization, rate × income or price × down payment
+ * Each cell holds the payment, GDS/TDS at the contract and qualifying rates
+ * and whether it passes, so a heatmap can show where qualification fails.
+ */
+export function generateSensitivityGrid(params: SensitivityGridParams): SensitivityGrid {
+  const { scenario, x, y, policy = DEFAULT_POLICY } = params;
+  const gdsLimit = params.gdsLimit ?? policy.gdsThreshold;
+  const tdsLimit = params.tdsLimit ?? policy.tdsThreshold;
+
+  if (x.variable === y.variable) {
+    throw new Error('Sensitivity grid axes must vary two different inputs');
+  }
+
+  const cells = y.values.map(yValue =>
+    x.values.map((xValue): SensitivityGridCell => {
+      const cellScenario = withScenarioValue(
+        withScenarioValue(scenario, x.variable, xValue),
+        y.variable,
+        yValue
+      );
+      const metrics = calculateGoalSeekMetrics(cellScenario, policy);
+
+      const passesGds = metrics.gdsRatio <= gdsLimit;
+      const passesTds = metrics.tdsRatio <= tdsLimit;
+      const passesStressTest =
+        metrics.stressGdsRatio <= gdsLimit && metrics.stressTdsRatio <= tdsLimit;
+      const { meetsMinimumDownPayment } = metrics;
+
+      return {
+        x: xValue,
+        y: yValue,
+        principal: roundMoney(metrics.principal),
+        monthlyPayment: roundMoney(metrics.monthlyPayment),
+        gdsRatio: roundTo(metrics.gdsRatio),
+        tdsRatio: roundTo(metrics.tdsRatio),
+        stressGdsRatio: roundTo(metrics.stressGdsRatio),
+        stressTdsRatio: roundTo(metrics.stressTdsRatio),
+        passesGds,
+        passesTds,
+        passesStressTest,
+        meetsMinimumDownPayment,
+        qualifies: passesGds && passesTds && passesStressTest && meetsMinimumDownPayment
+      };
+    })
+  );
+
+  return {
+    xVariable: x.variable,
+    yVariable: y.variable,
+    xValues: x.values,
+    yValues: y.values,
+    baseX: scenario[x.variable] ?? 0,
+    baseY: scenario[y.variable] ?? 0,
+    cells
+  };
+}
+
 /**
  * Generate amortization schedule showing principal/interest breakdown
  * per payment over the entire mortgage term
- * 
- * Note: Uses rounded intermediate calculations to prevent floating-point
- * precision errors from accumulating over many payments. The final payment
- * is adjusted to ensure the balance is exactly 0.
+ *
+ * Balances, interest and principal are stepped in integer cents following
+ * the rounding policy in money.ts; the final payment is adjusted so the
+ * balance ends at exactly 0.
+ *
+ * Optional prepayments (lump sums and a permanent payment increase) are
+ * applied as extra principal; the schedule ends as soon as the balance
+ * reaches 0, which may be well before the full amortization. Accelerated
+ * frequencies end early the same way: their payment is larger than the
+ * amortizing one, so there is no balloon at the end.
+ *
+ * startDate is the interest adjustment date: the first payment falls one
+ * period later and payment dates follow the frequency's calendar (see dates.ts).
  */
 export function generateAmortizationSchedule(
   principal: number,
   annualRate: number,
   amortizationYears: number,
   frequency: PaymentFrequency,
-  startDate: Date = new Date()
+  startDate: Date = new Date(),
+  prepayments: PrepaymentOptions = {}
 ): AmortizationEntry[] {
   const schedule: AmortizationEntry[] = [];
 
@@ -84,66 +186,103 @@ export function generateAmortizationSchedule(
 
   const paymentsPerYear = getPaymentsPerYear(frequency);
   const periodicRate = getPeriodicRate(annualRate, paymentsPerYear);
-  const totalPayments = amortizationYears * paymentsPerYear;
+  // Whole payments, so a fractional amortization (e.g. a remaining 22.5
+  // years) still ends on a final payment
+  const totalPayments = Math.round(amortizationYears * paymentsPerYear);
 
-  // Round payment to cents to prevent propagation of tiny errors
-  const roundedPayment = Math.round(payment * 100) / 100;
+  // The regular payment is charged rounded to the cent
+  const paymentCents = toCents(payment) + toCents(prepayments.paymentIncrease ?? 0);
 
-  // Round balance to cents to prevent error accumulation
-  let balance = Math.round(principal * 100) / 100;
-  let paymentDate = new Date(startDate);
+  // One-time lump sums, applied in date order
+  const lumpSums = [...(prepayments.lumpSums ?? [])].sort(
+    (a, b) => a.date.getTime() - b.date.getTime()
+  );
+  let nextLumpSum = 0;
 
-  // Calculate days between payments
-  const daysPerPayment = Math.floor(365 / paymentsPerYear);
+  let balanceCents = toCents(principal);
 
   for (let i = 1; i <= totalPayments; i++) {
-    const isLastPayment = i === totalPayments;
-
-    // Interest portion - round to cents
-    const interestPayment = balance * periodicRate;
-    const roundedInterest = Math.round(interestPayment * 100) / 100;
-
-    // Principal portion
-    let principalPayment = roundedPayment - roundedInterest;
-
-    // Adjust final payment to ensure balance = 0 exactly
-    // This prevents floating-point errors from leaving a small remaining balance
-    if (isLastPayment) {
-      principalPayment = balance; // Pay remaining balance exactly
-      const adjustedPayment = roundedInterest + principalPayment;
+    const paymentDate = getScheduledPaymentDate(startDate, frequency, i);
+    const interestCents = calculateInterestCents(balanceCents, periodicRate);
+    const principalCents = paymentCents - interestCents;
 
+    // Final payment: whatever is left plus this period's interest
+    if (i === totalPayments || principalCents >= balanceCents) {
       schedule.push({
         paymentNumber: i,
         paymentDate: new Date(paymentDate),
-        payment: Math.round(adjustedPayment * 100) / 100,
-        principal: Math.round(principalPayment * 100) / 100,
-        interest: roundedInterest,
-        balance: 0 // Guaranteed to be 0
+        payment: fromCents(balanceCents + interestCents),
+        principal: fromCents(balanceCents),
+        interest: fromCents(interestCents),
+        balance: 0
       });
       break;
     }
 
-    // Update balance with rounded values to prevent error accumulation
-    // Round after each calculation to prevent tiny errors from compounding
-    balance = Math.max(0, Math.round((balance - principalPayment) * 100) / 100);
+    balanceCents -= principalCents;
+
+    // Collect lump sums due on or before this payment date
+    let prepaymentCents = 0;
+    while (
+      nextLumpSum < lumpSums.length &&
+      lumpSums[nextLumpSum].date.getTime() <= paymentDate.getTime()
+    ) {
+      prepaymentCents += toCents(lumpSums[nextLumpSum].amount);
+      nextLumpSum++;
+    }
+
+    // Recurring annual lump sum goes in with the last payment of the year
+    const annualLumpSum = prepayments.annualLumpSum;
+    if (annualLumpSum && i % paymentsPerYear === 0) {
+      const year = i / paymentsPerYear;
+      const startYear = annualLumpSum.startYear ?? 1;
+      const endYear = annualLumpSum.endYear ?? Infinity;
+      if (year >= startYear && year <= endYear) {
+        prepaymentCents += toCents(annualLumpSum.amount);
+      }
+    }
+
+    // A prepayment can never exceed what is left owing
+    prepaymentCents = Math.min(prepaymentCents, balanceCents);
+    balanceCents -= prepaymentCents;
 
     schedule.push({
       paymentNumber: i,
       paymentDate: new Date(paymentDate),
-      payment: roundedPayment,
-      principal: Math.round(principalPayment * 100) / 100,
-      interest: roundedInterest,
-      balance: balance
+      payment: fromCents(paymentCents),
+      principal: fromCents(principalCents),
+      interest: fromCents(interestCents),
+      balance: fromCents(balanceCents),
+      ...(prepaymentCents > 0 && { prepayment: fromCents(prepaymentCents) })
     });
 
-    // Move to next payment date
-    paymentDate = new Date(paymentDate);
-    paymentDate.setDate(paymentDate.getDate() + daysPerPayment);
+    // Paid off early by prepayments
+    if (balanceCents === 0) break;
   }
 
   return schedule;
 }
 
+/**
+ * Calculate total interest paid over the life of the mortgage
+ * This is the sum of the interest on the amortization schedule, so it
+ * always matches the schedule to the cent.
+ */
+export function calculateTotalInterest(
+  principal: number,
+  annualRate: number,
+  amortizationYears: number,
+  frequency: PaymentFrequency
+): number {
+  const schedule = generateAmortizationSchedule(
+    principal,
+    annualRate,
+    amortizationYears,
+    frequency
+  );
+  return fromCents(schedule.reduce((sum, entry) => sum + toCents(entry.interest), 0));
+}
+
 /**
  * Generate aggregated amortization data (yearly summary)
  * Better for charts - shows yearly totals instead of every payment
@@ -152,47 +291,55 @@ export function generateYearlyAmortizationSummary(
   principal: number,
   annualRate: number,
   amortizationYears: number,
-  frequency: PaymentFrequency
-): Array<{
-  year: number;
-  principalPaid: number;
-  interestPaid: number;
-  balance: number;
-  totalPaid: number;
-}> {
+  frequency: PaymentFrequency,
+  prepayments: PrepaymentOptions = {}
+): YearlyAmortizationSummary[] {
   const fullSchedule = generateAmortizationSchedule(
     principal,
     annualRate,
     amortizationYears,
-    frequency
+    frequency,
+    new Date(),
+    prepayments
   );
 
+  return summarizeScheduleByYear(fullSchedule, frequency);
+}
+
+/**
+ * Aggregate any amortization schedule into yearly totals
+ * Lets schedules from other generators (e.g. variable-rate paths) feed the
+ * same charts as the fixed-rate schedule
+ */
+export function summarizeScheduleByYear(
+  fullSchedule: AmortizationEntry[],
+  frequency: PaymentFrequency
+): YearlyAmortizationSummary[] {
   const paymentsPerYear = getPaymentsPerYear(frequency);
-  const yearlySummary: Array<{
-    year: number;
-    principalPaid: number;
-    interestPaid: number;
-    balance: number;
-    totalPaid: number;
-  }> = [];
-
-  for (let year = 1; year <= amortizationYears; year++) {
+  // Prepayments can pay the mortgage off before the full amortization
+  const scheduleYears = Math.ceil(fullSchedule.length / paymentsPerYear);
+  const yearlySummary: YearlyAmortizationSummary[] = [];
+
+  for (let year = 1; year <= scheduleYears; year++) {
     const startIdx = (year - 1) * paymentsPerYear;
     const endIdx = Math.min(year * paymentsPerYear, fullSchedule.length);
 
     const yearPayments = fullSchedule.slice(startIdx, endIdx);
 
-    const principalPaid = yearPayments.reduce((sum, p) => sum + p.principal, 0);
-    const interestPaid = yearPayments.reduce((sum, p) => sum + p.interest, 0);
-    const totalPaid = principalPaid + interestPaid;
+    // Prepayments count towards principal paid for the year
+    const principalCents = yearPayments.reduce(
+      (sum, p) => sum + toCents(p.principal) + toCents(p.prepayment ?? 0),
+      0
+    );
+    const interestCents = yearPayments.reduce((sum, p) => sum + toCents(p.interest), 0);
     const endBalance = yearPayments[yearPayments.length - 1]?.balance || 0;
 
     yearlySummary.push({
       year,
-      principalPaid: Math.round(principalPaid * 100) / 100,
-      interestPaid: Math.round(interestPaid * 100) / 100,
-      balance: Math.round(endBalance * 100) / 100,
-      totalPaid: Math.round(totalPaid * 100) / 100
+      principalPaid: fromCents(principalCents),
+      interestPaid: fromCents(interestCents),
+      balance: roundMoney(endBalance),
+      totalPaid: fromCents(principalCents + interestCents)
     });
   }
 
@@ -208,12 +355,7 @@ export function compareAmortizationPeriods(
   annualRate: number,
   frequency: PaymentFrequency,
   periods: number[] = [15, 20, 25, 30]
-): Array<{
-  years: number;
-  monthlyPayment: number;
-  totalInterest: number;
-  totalCost: number;
-}> {
+): AmortizationPeriodComparison[] {
   return periods.map(years => {
     const payment = calculatePayment({
       principal,
@@ -226,74 +368,225 @@ export function compareAmortizationPeriods(
 
     const totalInterest = calculateTotalInterest(
       principal,
-      payment,
-      frequency,
-      years
+      annualRate,
+      years,
+      frequency
     );
 
     return {
       years,
-      monthlyPayment: Math.round(monthlyPayment * 100) / 100,
-      totalInterest: Math.round(totalInterest * 100) / 100,
-      totalCost: Math.round((principal + totalInterest) * 100) / 100
+      monthlyPayment: roundMoney(monthlyPayment),
+      totalInterest,
+      totalCost: fromCents(toCents(principal) + toCents(totalInterest))
     };
   });
 }
 
 /**
- * Calculate breakeven point for different interest rates
- * Useful for comparing fixed vs variable rates
+ * Compare every payment frequency side by side
+ * Payoff dates and interest come from each frequency's actual schedule, so
+ * accelerated frequencies show their true (shorter) amortization.
  */
-export function calculateRateBreakeven(
+export function comparePaymentFrequencies(
   principal: number,
-  fixedRate: number,
-  variableRate: number,
+  annualRate: number,
   amortizationYears: number,
-  frequency: PaymentFrequency
-): {
-  monthlyDifference: number;
-  breakevenMonths: number;
-  totalSavingsVariable: number;
-} {
-  const fixedPayment = calculatePayment({
-    principal,
-    annualRate: fixedRate,
-    amortizationYears,
-    frequency
-  });
+  startDate: Date = new Date()
+): FrequencyComparison[] {
+  const comparisons = PAYMENT_FREQUENCIES.map(frequency => {
+    const schedule = generateAmortizationSchedule(
+      principal,
+      annualRate,
+      amortizationYears,
+      frequency,
+      startDate
+    );
+    const payment = schedule[0]?.payment ?? 0;
 
-  const variablePayment = calculatePayment({
-    principal,
-    annualRate: variableRate,
-    amortizationYears,
-    frequency
+    return {
+      frequency,
+      payment,
+      monthlyEquivalent: roundMoney(convertToMonthlyPayment(payment, frequency)),
+      numberOfPayments: schedule.length,
+      effectiveAmortizationYears: roundTo(schedule.length / getPaymentsPerYear(frequency)),
+      payoffDate: schedule[schedule.length - 1]?.paymentDate ?? new Date(startDate),
+      totalInterest: fromCents(schedule.reduce((sum, entry) => sum + toCents(entry.interest), 0))
+    };
   });
 
-  const monthlyFixedPayment = convertToMonthlyPayment(fixedPayment, frequency);
-  const monthlyVariablePayment = convertToMonthlyPayment(variablePayment, frequency);
+  // Savings are measured against ordinary monthly payments
+  const monthlyInterest =
+    comparisons.find(comparison => comparison.frequency === 'monthly')?.totalInterest ?? 0;
+
+  return comparisons.map(comparison => ({
+    ...comparison,
+    interestSaved: fromCents(toCents(monthlyInterest) - toCents(comparison.totalInterest))
+  }));
+}
 
-  const monthlyDifference = monthlyFixedPayment - monthlyVariablePayment;
+/**
+ * Interest paid through a date and the balance owing on it, in cents
+ * `cursor` resumes the walk from a previous, earlier date.
+ */
+function accumulateToDate(
+  schedule: AmortizationEntry[],
+  openingBalanceCents: number,
+  date: Date,
+  cursor: { index: number; interestCents: number; balanceCents: number } = {
+    index: 0,
+    interestCents: 0,
+    balanceCents: openingBalanceCents
+  }
+): { index: number; interestCents: number; balanceCents: number } {
+  let { index, interestCents, balanceCents } = cursor;
 
-  // Calculate total interest for each
-  const fixedTotalInterest = calculateTotalInterest(
+  while (index < schedule.length && schedule[index].paymentDate.getTime() <= date.getTime()) {
+    interestCents += toCents(schedule[index].interest);
+    balanceCents = toCents(schedule[index].balance);
+    index++;
+  }
+
+  return { index, interestCents, balanceCents };
+}
+
+/**
+ * Fixed-minus-variable cost at the end of a term, in cents, with the variable
+ * path shifted by `rateShift` percentage points
+ */
+function getVariableSavingsAtMaturity(
+  params: RateBreakevenParams,
+  fixedCostCents: number,
+  maturityDate: Date,
+  rateShift: number
+): number {
+  const { schedule } = generateVariableRateSchedule({
+    principal: params.principal,
+    amortizationYears: params.amortizationYears,
+    frequency: params.frequency,
+    primeRatePath: params.primeRatePath,
+    discountToPrime: params.discountToPrime - rateShift,
+    paymentType: params.paymentType ?? 'adjustable-payment',
+    startDate: params.startDate
+  });
+  const variable = accumulateToDate(schedule, toCents(params.principal), maturityDate);
+
+  return fixedCostCents - (variable.interestCents + variable.balanceCents);
+}
+
+/**
+ * Compare a fixed rate with a variable rate path over a term
+ *
+ * Each month, the cost of each option is the interest paid so far plus the
+ * balance still owing, so paying down more principal counts in an option's
+ * favour. The result tracks the variable option's cumulative savings, the
+ * month it stops being cheaper (0 if it never was; null if it stays cheaper
+ * to maturity), and how far the whole variable path would have to rise (or
+ * fall) for both to cost the same at maturity.
+ */
+export function calculateRateBreakeven(params: RateBreakevenParams): RateBreakevenResult {
+  const {
     principal,
-    fixedPayment,
+    amortizationYears,
     frequency,
-    amortizationYears
-  );
-
-  const variableTotalInterest = calculateTotalInterest(
+    termYears,
+    fixedRate,
+    primeRatePath,
+    discountToPrime,
+    paymentType = 'adjustable-payment',
+    startDate = new Date()
+  } = params;
+
+  const termMonths = Math.round(Math.min(termYears, amortizationYears) * 12);
+  const principalCents = toCents(principal);
+
+  const fixedSchedule = generateAmortizationSchedule(
     principal,
-    variablePayment,
+    fixedRate,
+    amortizationYears,
     frequency,
-    amortizationYears
+    startDate
   );
+  const variable = generateVariableRateSchedule({
+    principal,
+    amortizationYears,
+    frequency,
+    primeRatePath,
+    discountToPrime,
+    paymentType,
+    startDate
+  });
+
+  const points: RateBreakevenPoint[] = [];
+  let fixedCursor = accumulateToDate(fixedSchedule, principalCents, startDate);
+  let variableCursor = accumulateToDate(variable.schedule, principalCents, startDate);
+  let breakevenMonth: number | null = null;
+
+  for (let month = 1; month <= termMonths; month++) {
+    const date = getPaymentDate(startDate, 'monthly', month);
+    fixedCursor = accumulateToDate(fixedSchedule, principalCents, date, fixedCursor);
+    variableCursor = accumulateToDate(variable.schedule, principalCents, date, variableCursor);
+
+    const fixedCostCents = fixedCursor.interestCents + fixedCursor.balanceCents;
+    const variableCostCents = variableCursor.interestCents + variableCursor.balanceCents;
+    const savingsCents = fixedCostCents - variableCostCents;
+
+    // Variable was cheaper last month (or this is the first) and no longer is
+    if (breakevenMonth === null && savingsCents <= 0) {
+      const wasCheaper = points.length > 0 && points[points.length - 1].variableSavings > 0;
+      breakevenMonth = wasCheaper ? month : 0;
+    }
+
+    points.push({
+      month,
+      date,
+      fixedInterest: fromCents(fixedCursor.interestCents),
+      variableInterest: fromCents(variableCursor.interestCents),
+      fixedBalance: fromCents(fixedCursor.balanceCents),
+      variableBalance: fromCents(variableCursor.balanceCents),
+      fixedCost: fromCents(fixedCostCents),
+      variableCost: fromCents(variableCostCents),
+      variableSavings: fromCents(savingsCents)
+    });
+  }
+
+  // Bisect for the parallel shift in the variable path that equalizes cost
+  // at maturity (savings fall as the variable rate rises)
+  const maturityDate = getPaymentDate(startDate, 'monthly', termMonths);
+  const fixedCostAtMaturity = accumulateToDate(fixedSchedule, principalCents, maturityDate);
+  const fixedCostCents = fixedCostAtMaturity.interestCents + fixedCostAtMaturity.balanceCents;
+  const savingsAt = (shift: number) =>
+    getVariableSavingsAtMaturity(params, fixedCostCents, maturityDate, shift);
+
+  const savingsCents = savingsAt(0);
+  let breakevenRateIncrease: number | null = null;
+  let [low, high] = savingsCents > 0 ? [0, 20] : [-variable.initialRate, 0];
+
+  if (savingsCents === 0) {
+    breakevenRateIncrease = 0;
+  } else if (savingsAt(low) >= 0 && savingsAt(high) <= 0) {
+    for (let i = 0; i < 50 && high - low > 0.0001; i++) {
+      const mid = (low + high) / 2;
+      if (savingsAt(mid) > 0) {
+        low = mid;
+      } else {
+        high = mid;
+      }
+    }
+    breakevenRateIncrease = roundTo((low + high) / 2, 3);
+  }
 
-  const totalSavingsVariable = fixedTotalInterest - variableTotalInterest;
+  const fixedMonthlyPayment = convertToMonthlyPayment(fixedSchedule[0]?.payment ?? 0, frequency);
+  const initialVariableMonthlyPayment = convertToMonthlyPayment(variable.initialPayment, frequency);
 
   return {
-    monthlyDifference: Math.round(monthlyDifference * 100) / 100,
-    breakevenMonths: monthlyDifference > 0 ? 0 : Infinity,
-    totalSavingsVariable: Math.round(totalSavingsVariable * 100) / 100
+    termMonths,
+    fixedMonthlyPayment: roundMoney(fixedMonthlyPayment),
+    initialVariableRate: variable.initialRate,
+    initialVariableMonthlyPayment: roundMoney(initialVariableMonthlyPayment),
+    monthlyDifference: roundMoney(fixedMonthlyPayment - initialVariableMonthlyPayment),
+    points,
+    totalSavingsVariable: fromCents(savingsCents),
+    breakevenMonth,
+    breakevenRateIncrease
   };
 }
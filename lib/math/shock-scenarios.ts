@@ -0,0 +1,236 @@
+import type {
+  Borrower,
+  ScenarioShock,
+  ShockExpense,
+  ShockScenario,
+  ShockScenarioResult,
+  ShockTestParams,
+  ShockTestResult
+} from '@/types';
+import { calculateAffordability, resolveQualifyingFigures } from './affordability';
+import { DEFAULT_POLICY } from './policy';
+import { fromCents, roundMoney, roundTo, sumMoney, toCents } from './money';
+
+// Shocks are assumed to last six months unless stated
+export const DEFAULT_SHOCK_DURATION_MONTHS = 6;
+
+// Named shocks every file is reviewed against
+export const DEFAULT_SHOCK_SCENARIOS: ShockScenario[] = [
+  { id: 'rate-up-2', name: 'Rate +2%', shocks: [{ type: 'rate', change: 2 }] },
+  { id: 'income-down-20', name: 'Income -20%', shocks: [{ type: 'income', percentChange: -20 }] },
+  {
+    id: 'property-tax-up-20',
+    name: 'Property tax +20%',
+    shocks: [{ type: 'expense', expense: 'propertyTax', percentChange: 20 }]
+  },
+  {
+    id: 'condo-fees-double',
+    name: 'Condo fees double',
+    shocks: [{ type: 'expense', expense: 'condoFees', percentChange: 100 }]
+  },
+  {
+    id: 'rate-up-2-income-down-20',
+    name: 'Rate +2% and income -20%',
+    shocks: [
+      { type: 'rate', change: 2 },
+      { type: 'income', percentChange: -20 }
+    ]
+  }
+];
+
+/**
+ * Combine several scenarios into one that applies all of their shocks
+ */
+export function combineShockScenarios(
+  id: string,
+  name: string,
+  scenarios: ShockScenario[]
+): ShockScenario {
+  return { id, name, shocks: scenarios.flatMap(scenario => scenario.shocks) };
+}
+
+/**
+ * Build the scenario library for an application
+ * The default scenarios, plus one job loss per borrower when there is more
+ * than one borrower (a sole borrower losing their income always fails)
+ */
+export function buildShockScenarioLibrary(grossAnnualIncome: number | Borrower[]): ShockScenario[] {
+  const borrowers = Array.isArray(grossAnnualIncome) && grossAnnualIncome.length > 1
+    ? grossAnnualIncome
+    : [];
+
+  return [
+    ...DEFAULT_SHOCK_SCENARIOS,
+    ...borrowers.map((borrower, i) => ({
+      id: `income-loss-${borrower.id ?? i + 1}`,
+      name: `${borrower.name || `Borrower ${i + 1}`} loses their income`,
+      shocks: [{ type: 'borrower-income-loss' as const, borrower: borrower.id ?? borrower.name }]
+    }))
+  ];
+}
+
+/**
+ * Remove every income source of the named borrowers (matched by id or name)
+ */
+function removeBorrowerIncome(income: number | Borrower[], names: string[]): number | Borrower[] {
+  if (names.length === 0) return income;
+  if (!Array.isArray(income)) {
+    throw new Error('Removing a borrower\'s income needs the borrower list');
+  }
+
+  for (const name of names) {
+    if (!income.some(borrower => borrower.id === name || borrower.name === name)) {
+      throw new Error(`Borrower ${name} not found`);
+    }
+  }
+
+  return income.map(borrower =>
+    names.includes(borrower.id ?? '') || names.includes(borrower.name)
+      ? { ...borrower, incomeSources: [] }
+      : borrower
+  );
+}
+
+/**
+ * Apply every expense shock for one cost, in order
+ */
+function shockExpense(value: number, expense: ShockExpense, shocks: ScenarioShock[]): number {
+  const shocked = shocks.reduce((current, shock) => {
+    if (shock.type !== 'expense' || shock.expense !== expense) return current;
+    return current * (1 + (shock.percentChange ?? 0) / 100) + (shock.amountChange ?? 0);
+  }, value);
+  return Math.max(0, roundMoney(shocked));
+}
+
+/**
+ * Run one scenario through the affordability calculation
+ */
+function runShockScenario(
+  params: ShockTestParams,
+  scenario: ShockScenario,
+  shockDurationMonths: number,
+  baselineAnnualIncome: number
+): ShockScenarioResult {
+  const {
+    principal,
+    amortizationYears,
+    frequency,
+    monthlyDebts,
+    policy = DEFAULT_POLICY,
+    liquidAssets
+  } = params;
+  const { shocks } = scenario;
+
+  const annualRate = shocks.reduce(
+    (rate, shock) => (shock.type === 'rate' ? rate + shock.change : rate),
+    params.annualRate
+  );
+
+  // Borrowers lose their income before it is resolved, so a lost rental
+  // income also loses its offset
+  const removedBorrowers = shocks.flatMap(shock =>
+    shock.type === 'borrower-income-loss' ? [shock.borrower] : []
+  );
+  const income = removeBorrowerIncome(params.grossAnnualIncome, removedBorrowers);
+  const qualifying = resolveQualifyingFigures(income, monthlyDebts, policy);
+
+  const grossAnnualIncome = Math.max(
+    0,
+    roundMoney(
+      shocks.reduce(
+        (amount, shock) => (shock.type === 'income' ? amount * (1 + shock.percentChange / 100) : amount),
+        qualifying.annualIncome
+      )
+    )
+  );
+  const propertyTax = shockExpense(params.propertyTax ?? 0, 'propertyTax', shocks);
+  const heatingCost = shockExpense(params.heatingCost ?? 0, 'heatingCost', shocks);
+  const condoFees = shockExpense(params.condoFees ?? 0, 'condoFees', shocks);
+  const debts = shockExpense(qualifying.monthlyDebts, 'monthlyDebts', shocks);
+
+  const affordability = calculateAffordability(
+    principal,
+    annualRate,
+    amortizationYears,
+    frequency,
+    grossAnnualIncome,
+    debts,
+    propertyTax,
+    heatingCost,
+    condoFees,
+    policy
+  );
+
+  // Only half the condo fee counts for GDS/TDS, but all of it has to be paid
+  const monthlyObligations = sumMoney([affordability.monthlyHousingCosts, condoFees * 0.5, debts]);
+
+  // Take-home pay moves with qualifying income; without it, gross is used
+  const monthlyIncome = params.netMonthlyIncome !== undefined
+    ? roundMoney(
+        baselineAnnualIncome > 0
+          ? params.netMonthlyIncome * (grossAnnualIncome / baselineAnnualIncome)
+          : 0
+      )
+    : roundMoney(grossAnnualIncome / 12);
+
+  // Cash the household is short each month to keep every obligation current
+  const monthlyShortfall = fromCents(Math.max(0, toCents(monthlyObligations) - toCents(monthlyIncome)));
+  const reservesNeeded = fromCents(toCents(monthlyShortfall) * shockDurationMonths);
+
+  const passesGds = affordability.gdsRatio <= affordability.gdsThreshold;
+  const passesTds = affordability.tdsRatio <= affordability.tdsThreshold;
+
+  return {
+    scenario,
+    annualRate: roundTo(annualRate, 3),
+    grossAnnualIncome,
+    affordability,
+    passesGds,
+    passesTds,
+    passes: passesGds && passesTds,
+    monthlyObligations,
+    monthlyIncome,
+    monthlyShortfall,
+    reservesNeeded,
+    reserveMonthsNeeded: monthlyObligations > 0 ? roundTo(reservesNeeded / monthlyObligations, 1) : 0,
+    coveredByReserves: liquidAssets !== undefined ? liquidAssets >= reservesNeeded : null
+  };
+}
+
+/**
+ * Run income, expense and rate shocks against an application
+ *
+ * Each scenario applies its shocks together: rate changes add to the
+ * contract rate, borrowers named in an income loss have all their income
+ * removed, income changes scale the remaining qualifying income, and expense
+ * changes apply a percentage then a dollar amount to the monthly cost.
+ *
+ * Pass/fail is the post-shock GDS and TDS against the policy limits. The
+ * monthly shortfall is separate: full monthly obligations (housing costs with
+ * the whole condo fee, plus debts) less post-shock monthly income, which is
+ * take-home pay when a net income is given (scaled by the shock's change in
+ * qualifying income) and gross income otherwise. Reserves needed cover that
+ * shortfall for the length of the shock, and are also expressed as months of
+ * full obligations.
+ */
+export function runShockScenarios(params: ShockTestParams): ShockTestResult {
+  const shockDurationMonths = params.shockDurationMonths ?? DEFAULT_SHOCK_DURATION_MONTHS;
+  const scenarios = params.scenarios ?? buildShockScenarioLibrary(params.grossAnnualIncome);
+
+  const baselineAnnualIncome = resolveQualifyingFigures(
+    params.grossAnnualIncome,
+    params.monthlyDebts,
+    params.policy ?? DEFAULT_POLICY
+  ).annualIncome;
+  const run = (scenario: ShockScenario) =>
+    runShockScenario(params, scenario, shockDurationMonths, baselineAnnualIncome);
+
+  const results = scenarios.map(run);
+
+  return {
+    baseline: run({ id: 'baseline', name: 'No shock', shocks: [] }),
+    scenarios: results,
+    shockDurationMonths,
+    failingScenarios: results.filter(result => !result.passes).map(result => result.scenario.id)
+  };
+}
@@ -1,26 +1,33 @@
 import type {
   StressTestResult,
   PaymentFrequency,
-  AffordabilityResult
+  QualificationPolicy,
+  Liability,
+  Borrower
 } from '@/types';
 import { calculatePayment, convertToMonthlyPayment, calculateMaxMortgage } from './payment';
-import { calculateAffordability } from './affordability';
+import { calculateAffordability, resolveQualifyingFigures } from './affordability';
+import { DEFAULT_POLICY, getQualifyingRate } from './policy';
+import { roundMoney, roundTo } from './money';
 
 /**
  * Canadian mortgage stress test rate increase
  * Borrowers must qualify at the greater of:
  * - Contract rate + 2%
  * - 5.25% (Bank of Canada minimum qualifying rate)
+ * These are the default policy's values; other profiles set their own.
  */
-export const STRESS_TEST_RATE_INCREASE = 2.0; // 2%
-export const MINIMUM_QUALIFYING_RATE = 5.25; // 5.25%
+export const STRESS_TEST_RATE_INCREASE = DEFAULT_POLICY.qualifyingRate.buffer; // 2%
+export const MINIMUM_QUALIFYING_RATE = DEFAULT_POLICY.qualifyingRate.floorRate; // 5.25%
 
 /**
- * Calculate the stress test qualifying rate
+ * Calculate the stress test qualifying rate under a policy
  */
-export function getStressTestRate(contractRate: number): number {
-  const stressedRate = contractRate + STRESS_TEST_RATE_INCREASE;
-  return Math.max(stressedRate, MINIMUM_QUALIFYING_RATE);
+export function getStressTestRate(
+  contractRate: number,
+  policy: QualificationPolicy = DEFAULT_POLICY
+): number {
+  return getQualifyingRate(contractRate, policy);
 }
 
 /**
@@ -32,13 +39,19 @@ export function performStressTest(
   contractRate: number,
   amortizationYears: number,
   frequency: PaymentFrequency,
-  grossAnnualIncome: number,
-  monthlyDebts: number,
+  grossAnnualIncome: number | Borrower[], // Qualifying income or borrower list
+  monthlyDebts: number | Liability[], // Qualifying figure or liability list
   propertyTax: number = 0,
   heatingCost: number = 0,
-  condoFees: number = 0
+  condoFees: number = 0,
+  policy: QualificationPolicy = DEFAULT_POLICY
 ): StressTestResult {
-  const stressRate = getStressTestRate(contractRate);
+  const stressRate = getStressTestRate(contractRate, policy);
+  const { annualIncome, monthlyDebts: qualifyingDebts } = resolveQualifyingFigures(
+    grossAnnualIncome,
+    monthlyDebts,
+    policy
+  );
 
   // Calculate payment at contract rate
   const paymentAtContract = calculatePayment({
@@ -64,20 +77,22 @@ export function performStressTest(
     stressRate,
     amortizationYears,
     frequency,
-    grossAnnualIncome,
-    monthlyDebts,
+    annualIncome,
+    qualifyingDebts,
     propertyTax,
     heatingCost,
-    condoFees
+    condoFees,
+    policy
   );
 
   // Calculate maximum mortgage at each rate
   // (How much could they borrow if we work backwards from their income)
-  const grossMonthlyIncome = grossAnnualIncome / 12;
+  const grossMonthlyIncome = annualIncome / 12;
 
-  // Use TDS as the binding constraint (typically 40%)
-  const maxTotalDebt = 0.4 * grossMonthlyIncome;
-  const maxHousingCosts = maxTotalDebt - monthlyDebts;
+  // The more restrictive of the policy's GDS and TDS limits binds
+  const maxHousingCostsByGDS = (policy.gdsThreshold / 100) * grossMonthlyIncome;
+  const maxHousingCostsByTDS = (policy.tdsThreshold / 100) * grossMonthlyIncome - qualifyingDebts;
+  const maxHousingCosts = Math.min(maxHousingCostsByGDS, maxHousingCostsByTDS);
   const otherHousingCosts = propertyTax + heatingCost + (condoFees * 0.5);
   const maxPaymentAtContract = Math.max(0, maxHousingCosts - otherHousingCosts);
 
@@ -99,14 +114,17 @@ export function performStressTest(
   const passesStressTest = affordabilityAtStress.isAffordable;
 
   return {
-    contractRate: Math.round(contractRate * 100) / 100,
-    stressRate: Math.round(stressRate * 100) / 100,
-    monthlyPaymentAtContract: Math.round(monthlyPaymentAtContract * 100) / 100,
-    monthlyPaymentAtStress: Math.round(monthlyPaymentAtStress * 100) / 100,
-    maxMortgageAtContract: Math.round(maxMortgageAtContract * 100) / 100,
-    maxMortgageAtStress: Math.round(maxMortgageAtStress * 100) / 100,
+    contractRate: roundTo(contractRate),
+    stressRate: roundTo(stressRate),
+    monthlyPaymentAtContract: roundMoney(monthlyPaymentAtContract),
+    monthlyPaymentAtStress: roundMoney(monthlyPaymentAtStress),
+    maxMortgageAtContract: roundMoney(maxMortgageAtContract),
+    maxMortgageAtStress: roundMoney(maxMortgageAtStress),
     passesStressTest,
-    affordabilityAtStress
+    affordabilityAtStress,
+    policyId: policy.id,
+    policyVersion: policy.version,
+    policyName: policy.name
   };
 }
 
@@ -122,7 +140,7 @@ export function calculateStressTestImpact(
   const reduction = maxMortgageAtContract - maxMortgageAtStress;
   const percentageImpact = (reduction / maxMortgageAtContract) * 100;
 
-  return Math.round(percentageImpact * 100) / 100;
+  return roundTo(percentageImpact);
 }
 
 /**
@@ -133,11 +151,12 @@ export function qualifiesUnderStressTest(
   contractRate: number,
   amortizationYears: number,
   frequency: PaymentFrequency,
-  grossAnnualIncome: number,
-  monthlyDebts: number,
+  grossAnnualIncome: number | Borrower[], // Qualifying income or borrower list
+  monthlyDebts: number | Liability[], // Qualifying figure or liability list
   propertyTax: number = 0,
   heatingCost: number = 0,
-  condoFees: number = 0
+  condoFees: number = 0,
+  policy: QualificationPolicy = DEFAULT_POLICY
 ): boolean {
   const result = performStressTest(
     principal,
@@ -148,7 +167,8 @@ export function qualifiesUnderStressTest(
     monthlyDebts,
     propertyTax,
     heatingCost,
-    condoFees
+    condoFees,
+    policy
   );
 
   return result.passesStressTest;
@@ -0,0 +1,196 @@
+import type {
+  AmortizationEntry,
+  PrimeRateChange,
+  TriggerEvent,
+  VariableRateScheduleParams,
+  VariableRateScheduleResult
+} from '@/types';
+import {
+  calculatePayment,
+  getAnnualRateFromPeriodicRate,
+  getPaymentsPerYear,
+  getPeriodicRate
+} from './payment';
+import { calculateInterestCents, fromCents, roundTo, toCents } from './money';
+import { getScheduledPaymentDate } from './dates';
+
+/**
+ * Get the prime rate in effect on a date
+ * Dates before the first change use the first rate on the path
+ */
+export function getPrimeRateAt(primeRatePath: PrimeRateChange[], date: Date): number {
+  const sortedPath = [...primeRatePath].sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  let primeRate = sortedPath[0].primeRate;
+  for (const change of sortedPath) {
+    if (change.date.getTime() > date.getTime()) break;
+    primeRate = change.primeRate;
+  }
+
+  return primeRate;
+}
+
+/**
+ * Get the client's variable rate (prime minus discount) in effect on a date
+ */
+export function getVariableRateAt(
+  primeRatePath: PrimeRateChange[],
+  discountToPrime: number,
+  date: Date
+): number {
+  const rate = getPrimeRateAt(primeRatePath, date) - discountToPrime;
+  // Round to 3 decimals so prime - discount doesn't carry float noise
+  return Math.max(0, roundTo(rate, 3));
+}
+
+/**
+ * Calculate the trigger rate for a fixed-payment variable mortgage
+ * This is the annual rate at which the payment only covers interest
+ */
+export function calculateTriggerRate(
+  balance: number,
+  payment: number,
+  paymentsPerYear: number
+): number {
+  if (balance <= 0) return Infinity;
+  const periodicRate = payment / balance;
+  return roundTo(getAnnualRateFromPeriodicRate(periodicRate, paymentsPerYear), 3);
+}
+
+/**
+ * Generate an amortization schedule for a variable-rate mortgage following
+ * a prime rate path
+ *
+ * - Adjustable payment: the payment is recalculated on every rate change so
+ *   the mortgage still pays off over the remaining amortization
+ * - Fixed payment: the payment never changes; rate increases shift the split
+ *   towards interest. Once interest exceeds the payment the shortfall is added
+ *   to the balance (negative amortization). Any balance left at the end of the
+ *   amortization is settled with the final payment.
+ *
+ * Entries use the standard AmortizationEntry shape so the existing charts work.
+ */
+export function generateVariableRateSchedule(
+  params: VariableRateScheduleParams
+): VariableRateScheduleResult {
+  const {
+    principal,
+    amortizationYears,
+    frequency,
+    primeRatePath,
+    discountToPrime,
+    paymentType,
+    startDate = new Date()
+  } = params;
+
+  if (primeRatePath.length === 0) {
+    throw new Error('Prime rate path must contain at least one rate');
+  }
+
+  const schedule: AmortizationEntry[] = [];
+  const paymentsPerYear = getPaymentsPerYear(frequency);
+  const totalPayments = Math.round(amortizationYears * paymentsPerYear);
+
+  const initialRate = getVariableRateAt(primeRatePath, discountToPrime, startDate);
+  const initialPaymentCents = toCents(
+    calculatePayment({ principal, annualRate: initialRate, amortizationYears, frequency })
+  );
+  const principalCents = toCents(principal);
+
+  let currentRate = initialRate;
+  let paymentCents = initialPaymentCents;
+  let balanceCents = principalCents;
+  let triggerRateReached: TriggerEvent | null = null;
+  let triggerPointReached: TriggerEvent | null = null;
+
+  for (let i = 1; i <= totalPayments; i++) {
+    const paymentDate = getScheduledPaymentDate(startDate, frequency, i);
+    const rate = getVariableRateAt(primeRatePath, discountToPrime, paymentDate);
+
+    if (rate !== currentRate) {
+      currentRate = rate;
+
+      // Adjustable payments re-amortize the balance over what's left
+      if (paymentType === 'adjustable-payment') {
+        const remainingYears = (totalPayments - i + 1) / paymentsPerYear;
+        paymentCents = toCents(
+          calculatePayment({
+            principal: fromCents(balanceCents),
+            annualRate: currentRate,
+            amortizationYears: remainingYears,
+            frequency
+          })
+        );
+      }
+    }
+
+    const periodicRate = getPeriodicRate(currentRate, paymentsPerYear);
+    const interestCents = calculateInterestCents(balanceCents, periodicRate);
+    const principalPaidCents = paymentCents - interestCents;
+
+    // Final payment: whatever is left plus this period's interest
+    if (i === totalPayments || principalPaidCents >= balanceCents) {
+      schedule.push({
+        paymentNumber: i,
+        paymentDate: new Date(paymentDate),
+        payment: fromCents(balanceCents + interestCents),
+        principal: fromCents(balanceCents),
+        interest: fromCents(interestCents),
+        balance: 0,
+        annualRate: currentRate
+      });
+      break;
+    }
+
+    // Negative principal (interest above the payment) grows the balance
+    balanceCents -= principalPaidCents;
+
+    if (!triggerRateReached && interestCents >= paymentCents) {
+      triggerRateReached = {
+        paymentNumber: i,
+        paymentDate: new Date(paymentDate),
+        annualRate: currentRate,
+        balance: fromCents(balanceCents)
+      };
+    }
+
+    if (!triggerPointReached && balanceCents > principalCents) {
+      triggerPointReached = {
+        paymentNumber: i,
+        paymentDate: new Date(paymentDate),
+        annualRate: currentRate,
+        balance: fromCents(balanceCents)
+      };
+    }
+
+    schedule.push({
+      paymentNumber: i,
+      paymentDate: new Date(paymentDate),
+      payment: fromCents(paymentCents),
+      principal: fromCents(principalPaidCents),
+      interest: fromCents(interestCents),
+      balance: fromCents(balanceCents),
+      annualRate: currentRate
+    });
+  }
+
+  const isFixedPayment = paymentType === 'fixed-payment';
+  const initialPayment = fromCents(initialPaymentCents);
+  const triggerRate = isFixedPayment
+    ? calculateTriggerRate(principal, initialPayment, paymentsPerYear)
+    : null;
+  const totalInterestCents = schedule.reduce((sum, entry) => sum + toCents(entry.interest), 0);
+
+  return {
+    schedule,
+    paymentType,
+    initialRate,
+    initialPayment,
+    triggerRate,
+    triggerPrimeRate:
+      triggerRate !== null ? roundTo(triggerRate + discountToPrime, 3) : null,
+    triggerRateReached,
+    triggerPointReached,
+    totalInterest: fromCents(totalInterestCents)
+  };
+}
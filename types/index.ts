@@ -4,12 +4,108 @@ export interface Client {
   name: string;
   email: string;
   phone: string;
-  grossAnnualIncome: number;
-  monthlyDebts: number;
+  grossAnnualIncome: number; // Qualifying income (derived from borrowers when present)
+  monthlyDebts: number | null; // Entered monthly debt; null when itemized as liabilities
+  liabilities?: Liability[];
+  borrowers?: Borrower[]; // Everyone on the application, with their income sources
   createdAt: Date;
   updatedAt: Date;
 }
 
+export type LiabilityType =
+  | 'credit-card'
+  | 'line-of-credit'
+  | 'auto-loan'
+  | 'student-loan'
+  | 'personal-loan'
+  | 'support-payment'
+  | 'other';
+
+// A single debt obligation on the credit bureau or application
+export interface Liability {
+  id?: string;
+  type: LiabilityType;
+  description?: string;
+  balance: number;
+  limit?: number; // Credit limit for revolving debt
+  monthlyPayment: number; // Reported payment
+  interestRate?: number; // As percentage; used for interest-only LOC payments
+  remainingPayments?: number; // Installment loans
+  toBePaidOff: boolean; // Paid off from proceeds on or before closing
+}
+
+export type IncomeSourceType =
+  | 'salaried'
+  | 'hourly'
+  | 'bonus-commission'
+  | 'self-employed'
+  | 'pension'
+  | 'rental'
+  | 'child-benefit';
+
+// One stream of income for a borrower
+export interface IncomeSource {
+  id?: string;
+  type: IncomeSourceType;
+  description?: string;
+  annualAmount: number; // Current/most recent year gross (gross rents for rental)
+  previousYearAmount?: number; // Prior year, for two-year averaging
+  hourlyRate?: number; // Hourly: guaranteed base
+  guaranteedHoursPerWeek?: number;
+  overtimeAmount?: number; // Hourly: annual overtime on top of guaranteed hours
+  monthlyExpenses?: number; // Rental: mortgage payment, tax, heat, etc. on the rental
+}
+
+// A person on the application
+export interface Borrower {
+  id?: string;
+  name: string;
+  incomeSources: IncomeSource[];
+}
+
+// How a lender treats each kind of income
+export interface IncomeRules {
+  overtimeHaircutPercent: number; // % of overtime excluded
+  rentalMethod: 'add-back' | 'offset';
+  rentalAddBackPercent: number; // % of gross rent added to income (add-back)
+  rentalOffsetPercent: number; // % of gross rent offset against rental expenses (offset)
+  includeChildBenefit: boolean;
+}
+
+// Qualifying amount for one income source under a policy
+export interface QualifyingIncomeSource {
+  source: IncomeSource;
+  qualifyingAnnualIncome: number;
+  note?: string;
+}
+
+export interface QualifyingIncomeResult {
+  borrowers: Array<{
+    borrower: Borrower;
+    sources: QualifyingIncomeSource[];
+    qualifyingAnnualIncome: number;
+  }>;
+  totalQualifyingIncome: number; // Annual, feeds GDS/TDS
+  monthlyDebtAdjustment: number; // Rental offset: negative reduces debts, positive adds a shortfall
+}
+
+// How a lender turns liabilities into a qualifying monthly debt figure
+export interface LiabilityRules {
+  revolvingPaymentPercent: number; // % of credit card balance (if above the reported payment)
+  lineOfCreditMethod: 'percent-of-balance' | 'interest-only';
+  lineOfCreditPaymentPercent: number; // % of balance for the percent-of-balance method
+  lineOfCreditFallbackRate: number; // Rate for interest-only when none is reported
+  excludeInstallmentsUnderPayments: number; // Ignore loans with fewer payments left (0 = never)
+}
+
+// Qualifying payment for one liability under a policy
+export interface QualifyingLiability {
+  liability: Liability;
+  qualifyingPayment: number;
+  excluded: boolean;
+  reason?: string;
+}
+
 // Mortgage details
 export interface Mortgage {
   id: string;
@@ -17,12 +113,27 @@ export interface Mortgage {
   principal: number;
   interestRate: number; // Annual rate as percentage (e.g., 5.5)
   amortizationYears: number;
+  termYears: number; // Contract term (1-10 years) within the amortization
+  startDate: Date; // Start of the current term
   paymentFrequency: PaymentFrequency;
   mortgageType: MortgageType;
+  segments?: MortgageSegment[]; // Components of a 'mixed' mortgage
+  policyVersion: string | null; // Qualification policy version it was assessed under
+  assessedAt: Date; // "As of" date for the policy lookup
+  qualifyingSnapshot: QualifyingSnapshot | null; // Inputs as assessed (null on older files)
   createdAt: Date;
   updatedAt: Date;
 }
 
+// The qualifying inputs a mortgage was assessed with, saved on the mortgage so
+// re-opening it reproduces the decision after the client's file has changed
+export interface QualifyingSnapshot {
+  grossAnnualIncome: number;
+  monthlyDebts: number;
+  borrowers: Borrower[];
+  liabilities: Liability[];
+}
+
 export type PaymentFrequency =
   | 'monthly'
   | 'semi-monthly'
@@ -33,15 +144,428 @@ export type PaymentFrequency =
 
 export type MortgageType = 'fixed' | 'variable' | 'mixed';
 
+// Fixed and variable segments amortize; HELOC segments are revolving with
+// interest-only minimum payments
+export type MortgageSegmentType = 'fixed' | 'variable' | 'heloc';
+
+// One component of a multi-segment ("mixed") mortgage
+// Optional fields are null rather than absent on segments loaded from the database
+export interface MortgageSegment {
+  id?: string;
+  label?: string | null;
+  type: MortgageSegmentType;
+  principal: number; // Balance owing (amount drawn for a HELOC)
+  annualRate: number; // As percentage
+  amortizationYears?: number | null; // Amortizing segments only
+  termYears?: number | null; // Amortizing segments only
+  creditLimit?: number | null; // HELOC segments only
+}
+
+export interface MixedMortgageParams {
+  segments: MortgageSegment[];
+  frequency: PaymentFrequency; // Payment frequency of the amortizing segments
+  readvanceableLimit?: number; // Global limit shared by all segments (e.g. 80% of value)
+  grossAnnualIncome: number | Borrower[];
+  monthlyDebts: number | Liability[];
+  propertyTax?: number;
+  heatingCost?: number;
+  condoFees?: number;
+  policy?: QualificationPolicy;
+}
+
+export interface MortgageSegmentResult {
+  segment: MortgageSegment;
+  monthlyPayment: number; // Interest-only minimum for a HELOC
+  qualifyingRate: number;
+  stressMonthlyPayment: number; // HELOCs qualify amortized at the qualifying rate
+  availableCredit: number | null; // Undrawn HELOC limit today (before readvance)
+}
+
+// Credit that becomes available as the amortizing segments are paid down
+export interface ReadvanceableCreditPoint {
+  year: number;
+  amortizingBalance: number;
+  helocBalance: number;
+  availableCredit: number; // Global limit - everything owing
+}
+
+export interface MixedMortgageResult {
+  segments: MortgageSegmentResult[];
+  totalBalance: number;
+  combinedMonthlyPayment: number;
+  combinedStressMonthlyPayment: number;
+  affordability: AffordabilityResult; // Every segment at its contract rate
+  affordabilityAtStress: AffordabilityResult; // Every segment at its qualifying rate
+  passesStressTest: boolean;
+  readvanceableCredit: ReadvanceableCreditPoint[]; // Empty without a readvanceable limit
+}
+
+// Amortizing loans pay down principal (any balance left at maturity is a
+// balloon); interest-only loans repay the whole principal at maturity
+export type RepaymentType = 'amortizing' | 'interest-only';
+
+// Private lenders compound monthly; institutional lenders semi-annually
+export type LenderType = 'institutional' | 'private';
+
+// Interest-only, balloon and private loans (e.g. a private second mortgage)
+export interface AlternativeLoanParams {
+  principal: number; // Face amount of the loan; fees come off the advance
+  annualRate: number; // As percentage
+  termMonths: number; // Balance owing is due at maturity
+  repaymentType: RepaymentType;
+  lenderType?: LenderType; // Default institutional
+  amortizationYears?: number; // Amortizing loans only
+  frequency?: PaymentFrequency; // Default monthly
+  compoundingsPerYear?: number; // Default 12 (monthly) for private loans, otherwise 2 (semi-annual)
+  lenderFee?: number;
+  brokerFee?: number;
+  otherFees?: number; // Legal, appraisal etc. held back from the advance
+  startDate?: Date; // Interest adjustment date
+}
+
+export interface AlternativeLoanResult {
+  principal: number;
+  repaymentType: RepaymentType;
+  lenderType: LenderType;
+  compoundingsPerYear: number;
+  payment: number; // Regular payment at the chosen frequency
+  monthlyPayment: number;
+  totalFees: number;
+  netAdvance: number; // Principal less fees: what the borrower actually receives
+  schedule: AmortizationEntry[]; // Regular payments over the term (the balloon is not included)
+  balloonPayment: number; // Balance due at maturity
+  maturityDate: Date;
+  totalInterest: number; // Over the term
+  costOfBorrowing: number; // Interest plus fees
+  effectiveAPR: number; // Annual rate that discounts the payments and balloon back to the net advance
+}
+
+// A first mortgage and a second registered behind it on the same property
+export interface CombinedPositionParams {
+  propertyValue: number;
+  first: PaymentCalculationParams;
+  second: AlternativeLoanParams;
+  grossAnnualIncome: number | Borrower[];
+  monthlyDebts: number | Liability[];
+  propertyTax?: number;
+  heatingCost?: number;
+  condoFees?: number;
+  policy?: QualificationPolicy;
+}
+
+export interface CombinedPositionResult {
+  firstMonthlyPayment: number;
+  second: AlternativeLoanResult;
+  combinedBalance: number;
+  combinedMonthlyPayment: number;
+  firstLtv: number;
+  combinedLtv: number; // Both charges against the property value
+  affordability: AffordabilityResult; // Both payments counted as housing costs
+}
+
+export type Province =
+  | 'AB'
+  | 'BC'
+  | 'MB'
+  | 'NB'
+  | 'NL'
+  | 'NS'
+  | 'NT'
+  | 'NU'
+  | 'ON'
+  | 'PE'
+  | 'QC'
+  | 'SK'
+  | 'YT';
+
+// Qualifying (stress test) rate: greater of contract rate + buffer and the floor
+export interface QualifyingRateRule {
+  buffer: number; // Percentage points added to the contract rate
+  floorRate: number; // Minimum qualifying rate as percentage
+}
+
+export type PolicyProfileId =
+  | 'standard'
+  | 'osfi-b20-uninsured'
+  | 'cmhc-insured'
+  | 'b-lender';
+
+// Named bundle of lender qualification rules, as in effect for a date range
+export interface QualificationPolicy {
+  id: PolicyProfileId;
+  version: string; // e.g. 'cmhc-insured@2024-12-15'
+  effectiveFrom: Date;
+  effectiveTo: Date | null; // Exclusive; null while still in effect
+  name: string;
+  gdsThreshold: number; // As percentage
+  tdsThreshold: number; // As percentage
+  qualifyingRate: QualifyingRateRule;
+  maxAmortizationYears: number;
+  firstTimeBuyerMaxAmortizationYears: number;
+  insurance: 'insured' | 'uninsured' | 'either';
+  maxLtv: number; // As percentage
+  insuredPriceCap: number; // Purchases at or above this can't be insured
+  liabilityRules: LiabilityRules;
+  incomeRules: IncomeRules;
+}
+
 // Affordability calculation results
 export interface AffordabilityResult {
   gdsRatio: number; // Gross Debt Service ratio
   tdsRatio: number; // Total Debt Service ratio
   monthlyHousingCosts: number;
   monthlyPayment: number;
+  monthlyDebts: number; // Qualifying monthly debt used for TDS
+  grossAnnualIncome: number; // Qualifying income used for GDS/TDS
   isAffordable: boolean;
   gdsThreshold: number; // Typically 32%
   tdsThreshold: number; // Typically 40%
+  policyId: PolicyProfileId; // Policy profile that produced the result
+  policyVersion: string;
+  policyName: string;
+}
+
+// Mortgage default insurance (CMHC) results for a purchase
+export interface MortgageInsuranceResult {
+  purchasePrice: number;
+  downPayment: number;
+  downPaymentPercent: number;
+  minimumDownPayment: number;
+  meetsMinimumDownPayment: boolean;
+  baseMortgage: number; // Purchase price less down payment
+  ltv: number; // Loan-to-value as percentage
+  isHighRatio: boolean; // LTV above 80% requires insurance
+  isInsurable: boolean; // Under the insured price cap and LTV within 95%
+  premiumRate: number; // Premium as percentage of the base mortgage
+  premium: number; // Added to the mortgage
+  premiumTax: number; // Provincial sales tax, paid separately at closing
+  insuredPrincipal: number; // Base mortgage plus premium
+}
+
+// Marginal land transfer tax bracket: rate applies to the value up to `upTo`
+export interface TransferTaxBracket {
+  upTo: number;
+  rate: number; // As percentage
+}
+
+// First-time buyer relief on land transfer tax
+export interface FirstTimeBuyerRebateRule {
+  maxRebate?: number; // Cap on the rebate
+  exemptValue?: number; // Tax on this much of the price is forgiven
+  phaseOutStart?: number; // Rebate shrinks linearly from this price...
+  phaseOutEnd?: number; // ...to nothing at this price
+}
+
+// Land transfer tax (or title registration fee) scheme for one jurisdiction
+export interface TransferTaxSchedule {
+  brackets: TransferTaxBracket[];
+  baseFee?: number; // Flat registration fee
+  feePerUnit?: { unit: number; fee: number }; // e.g. $5 per $5,000 of value
+  firstTimeBuyerRebate?: FirstTimeBuyerRebateRule;
+}
+
+export interface LandTransferTaxResult {
+  province: Province;
+  provincialTax: number;
+  municipalTax: number; // Toronto MLTT
+  firstTimeBuyerRebate: number;
+  totalTax: number; // After rebates
+}
+
+// Configurable closing cost defaults
+export interface ClosingCostDefaults {
+  legalFees: number;
+  titleInsurance: number;
+  inspection: number;
+  adjustments: number; // Property tax / utility adjustments
+}
+
+export interface ClosingCostParams {
+  purchasePrice: number;
+  province: Province;
+  downPayment?: number;
+  isFirstTimeBuyer?: boolean;
+  isToronto?: boolean;
+  premiumTax?: number; // Sales tax on the insurance premium, due at closing
+  interestAdjustment?: number; // Stub-period interest collected at closing
+  costs?: Partial<ClosingCostDefaults>;
+}
+
+export interface ClosingCostResult extends ClosingCostDefaults {
+  landTransferTax: LandTransferTaxResult;
+  premiumTax: number;
+  interestAdjustment: number;
+  totalClosingCosts: number;
+  downPayment: number;
+  cashToClose: number; // Down payment plus closing costs
+}
+
+// Rent-vs-buy inputs; growth and return rates are annual percentages
+export interface RentVsBuyParams {
+  purchasePrice: number;
+  downPayment: number;
+  province?: Province; // For the insurance premium when buying with under 20% down
+  annualRate: number;
+  amortizationYears: number;
+  frequency: PaymentFrequency;
+  closingCosts: number; // Buyer's upfront costs (excluding the down payment)
+  monthlyRent: number;
+  rentGrowth?: number;
+  homeAppreciation?: number;
+  maintenancePercent?: number; // Of the home's value each year
+  propertyTax?: number; // First-year annual tax (default: propertyTaxRate × price)
+  propertyTaxGrowth?: number;
+  condoFees?: number; // Monthly
+  investmentReturn?: number; // Earned on the renter's down payment and any savings
+  sellingCostPercent?: number; // Deducted from the home's value in the owner's net worth
+  years?: number; // Defaults to the amortization
+  startDate?: Date;
+  policy?: QualificationPolicy; // For the insured price cap
+}
+
+export interface RentVsBuyYear {
+  year: number; // 0 = the day of purchase
+  homeValue: number;
+  mortgageBalance: number;
+  homeEquity: number; // Value less selling costs and the balance owing
+  ownerCosts: number; // Mortgage payments, tax, maintenance and condo fees for the year
+  rent: number; // Rent paid for the year
+  ownerPortfolio: number; // Savings invested when owning costs less than renting
+  renterPortfolio: number; // Down payment and closing costs, plus savings, invested
+  ownerNetWorth: number;
+  renterNetWorth: number;
+  difference: number; // Owner - renter
+}
+
+export interface RentVsBuyResult {
+  principal: number;
+  monthlyPayment: number;
+  years: RentVsBuyYear[];
+  crossoverYear: number | null; // First year owning is ahead; null if it never is
+  totalOwnerCosts: number;
+  totalRent: number;
+  finalDifference: number;
+}
+
+// One unit of a rental property
+export interface RentalUnit {
+  label?: string;
+  monthlyRent: number;
+}
+
+export interface InvestmentPropertyParams {
+  purchasePrice: number;
+  downPayment: number;
+  annualRate: number;
+  amortizationYears: number;
+  frequency: PaymentFrequency;
+  units: RentalUnit[];
+  vacancyPercent?: number; // Of gross rent (default 0)
+  operatingExpenses?: number; // Annual: property tax, insurance, utilities, repairs
+  managementFeePercent?: number; // Of rent collected after vacancy (default 0)
+  closingCosts?: number; // Added to the cash invested
+  rentalMethod?: IncomeRules['rentalMethod']; // Defaults to the policy's method
+  grossAnnualIncome: number | Borrower[]; // The investor's income, before the rental
+  monthlyDebts: number | Liability[];
+  ownerOccupiedHousingCosts?: number; // Monthly payment, tax and heat on the home lived in
+  policy?: QualificationPolicy;
+}
+
+// Rental income treatment and ratios with the rental in the application
+export interface RentalQualificationResult {
+  rentalMethod: IncomeRules['rentalMethod'];
+  rentalIncomeCounted: number; // Annual rent added to income (add-back)
+  rentalMonthlyExpenses: number; // Mortgage payment and operating expenses on the rental
+  monthlyDebtAdjustment: number; // Change to qualifying debts from the rental
+  affordability: AffordabilityResult; // Contract-rate payment on the rental
+  affordabilityAtStress: AffordabilityResult; // Rental payment at the qualifying rate
+  qualifyingRate: number;
+  qualifies: boolean; // Ratios within limits at the qualifying rate
+}
+
+export interface InvestmentPropertyResult {
+  principal: number;
+  monthlyPayment: number;
+  grossAnnualRent: number;
+  vacancyLoss: number;
+  effectiveGrossIncome: number; // Gross rent less vacancy
+  managementFees: number;
+  operatingExpenses: number; // Including management fees
+  netOperatingIncome: number;
+  capRate: number; // NOI / purchase price, as percentage
+  annualDebtService: number;
+  debtServiceCoverageRatio: number | null; // NOI / debt service; null without a mortgage
+  annualCashFlow: number; // NOI - debt service
+  monthlyCashFlow: number;
+  cashInvested: number; // Down payment and closing costs
+  cashOnCashReturn: number | null; // Annual cash flow / cash invested, as percentage
+  qualification: RentalQualificationResult;
+}
+
+// Goal seek: hold every input fixed except one and solve for it
+export interface GoalSeekScenario {
+  principal: number; // Ignored when purchasePrice is set (derived from price - down payment)
+  purchasePrice?: number;
+  downPayment?: number;
+  province?: Province; // For the insurance premium when buying with under 20% down
+  annualRate: number;
+  amortizationYears: number;
+  frequency: PaymentFrequency;
+  grossAnnualIncome: number;
+  monthlyDebts: number;
+  propertyTax?: number;
+  heatingCost?: number;
+  condoFees?: number;
+}
+
+export type GoalSeekVariable =
+  | 'principal'
+  | 'purchasePrice'
+  | 'downPayment'
+  | 'grossAnnualIncome'
+  | 'monthlyDebts'
+  | 'annualRate'
+  | 'amortizationYears';
+
+// 'minimum-down-payment' is always applied when the scenario has a purchase price
+export type GoalSeekConstraint = 'gds' | 'tds' | 'stress-test' | 'payment-cap' | 'minimum-down-payment';
+
+export interface GoalSeekParams {
+  scenario: GoalSeekScenario;
+  solveFor: GoalSeekVariable;
+  constraints?: GoalSeekConstraint[]; // All must hold (default: GDS, TDS and stress test)
+  gdsLimit?: number; // Defaults to the policy's GDS threshold
+  tdsLimit?: number; // Defaults to the policy's TDS threshold
+  paymentCap?: number; // Maximum monthly-equivalent payment for 'payment-cap'
+  policy?: QualificationPolicy;
+  bounds?: { min: number; max: number }; // Search range for the unknown
+}
+
+// Ratios and payment for a scenario at the contract and qualifying rates
+export interface GoalSeekMetrics {
+  principal: number;
+  monthlyPayment: number;
+  gdsRatio: number;
+  tdsRatio: number;
+  qualifyingRate: number;
+  stressGdsRatio: number;
+  stressTdsRatio: number;
+  meetsMinimumDownPayment: boolean; // Always true without a purchase price
+}
+
+export interface GoalSeekConstraintResult {
+  constraint: GoalSeekConstraint;
+  boundary: number | null; // Value of the unknown that exactly meets this constraint
+  feasible: boolean; // Whether the constraint can be met within the bounds
+}
+
+export interface GoalSeekResult {
+  solveFor: GoalSeekVariable;
+  value: number | null; // null when no value within the bounds meets every constraint
+  bindingConstraint: GoalSeekConstraint | null;
+  constraints: GoalSeekConstraintResult[];
+  scenario: GoalSeekScenario; // Inputs with the solved value filled in
+  metrics: GoalSeekMetrics | null;
 }
 
 // Stress test results
@@ -54,6 +578,380 @@ export interface StressTestResult {
   maxMortgageAtStress: number;
   passesStressTest: boolean;
   affordabilityAtStress: AffordabilityResult;
+  policyId: PolicyProfileId;
+  policyVersion: string;
+  policyName: string;
+}
+
+// Costs a shock scenario can change (monthly amounts)
+export type ShockExpense = 'propertyTax' | 'heatingCost' | 'condoFees' | 'monthlyDebts';
+
+// One change applied in a shock scenario; a scenario can combine any number
+export type ScenarioShock =
+  | { type: 'rate'; change: number } // Percentage points added to the contract rate
+  | { type: 'income'; percentChange: number } // Applied to total qualifying income (e.g. -20)
+  | { type: 'borrower-income-loss'; borrower: string } // Borrower id or name; all their income is removed
+  | { type: 'expense'; expense: ShockExpense; percentChange?: number; amountChange?: number };
+
+// Named set of shocks applied together
+export interface ShockScenario {
+  id: string;
+  name: string;
+  shocks: ScenarioShock[];
+}
+
+export interface ShockTestParams {
+  principal: number;
+  annualRate: number;
+  amortizationYears: number;
+  frequency: PaymentFrequency;
+  grossAnnualIncome: number | Borrower[];
+  monthlyDebts: number | Liability[];
+  propertyTax?: number; // Monthly
+  heatingCost?: number; // Monthly
+  condoFees?: number; // Monthly
+  policy?: QualificationPolicy;
+  scenarios?: ShockScenario[]; // Defaults to the built-in library
+  shockDurationMonths?: number; // How long each shock is assumed to last (default 6)
+  liquidAssets?: number; // Savings available to cover a shortfall
+  netMonthlyIncome?: number; // Household take-home pay before the shock; gross income is used without it
+}
+
+export interface ShockScenarioResult {
+  scenario: ShockScenario;
+  annualRate: number; // After the shock
+  grossAnnualIncome: number; // Qualifying income after the shock
+  affordability: AffordabilityResult;
+  passesGds: boolean;
+  passesTds: boolean;
+  passes: boolean;
+  monthlyObligations: number; // Housing costs (full condo fees) plus debts
+  monthlyIncome: number; // Post-shock net (or gross) monthly income
+  monthlyShortfall: number; // Obligations above monthly income
+  reservesNeeded: number; // Shortfall over the shock duration
+  reserveMonthsNeeded: number; // Reserves needed, in months of obligations
+  coveredByReserves: boolean | null; // null without liquid assets
+}
+
+// Pass/fail matrix: one row per scenario
+export interface ShockTestResult {
+  baseline: ShockScenarioResult; // No shocks applied
+  scenarios: ShockScenarioResult[];
+  shockDurationMonths: number;
+  failingScenarios: string[]; // ids of scenarios that fail GDS or TDS
+}
+
+// Position at the end of a mortgage term
+export interface TermSummary {
+  termYears: number;
+  startDate: Date;
+  maturityDate: Date;
+  openingBalance: number;
+  payment: number; // Per-period payment during the term
+  monthlyPayment: number;
+  interestPaid: number;
+  principalPaid: number;
+  balanceAtMaturity: number;
+}
+
+// Assumed rate and term for a future renewal
+export interface RenewalAssumption {
+  annualRate: number; // As percentage
+  termYears: number;
+}
+
+// One term within a multi-renewal projection
+export interface RenewalTerm extends TermSummary {
+  termNumber: number; // 1 = current term
+  annualRate: number;
+  remainingAmortizationYears: number; // At the start of the term
+}
+
+// Projected path of a mortgage across its renewals
+export interface RenewalProjection {
+  terms: RenewalTerm[];
+  totalInterest: number;
+  finalBalance: number; // Non-zero if the renewals end before payoff
+}
+
+// Mean-reverting (Vasicek) model for simulated mortgage rates, all in percent
+export interface RateModelConfig {
+  longTermRate: number; // Level rates revert towards
+  meanReversionSpeed: number; // Share of the gap to the long-term rate closed per year
+  volatility: number; // Standard deviation of rate shocks per √year (percentage points)
+  floorRate: number; // Simulated rates never fall below this
+  stepsPerYear: number; // Time steps per year when stepping each path
+  simulations: number; // Default number of paths
+  seed: number; // Default seed, so runs are reproducible
+}
+
+export interface RenewalRiskParams {
+  principal: number;
+  annualRate: number; // Contract rate for the current term, and each path's starting rate
+  amortizationYears: number;
+  frequency: PaymentFrequency;
+  termYears: number; // Every renewal is assumed to be for the same term
+  comfortLimit?: number; // Highest monthly payment the client is comfortable with
+  simulations?: number; // Defaults to the model config
+  seed?: number; // Defaults to the model config
+  model?: Partial<RateModelConfig>; // Overrides for the model config
+}
+
+export interface PercentileBand {
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+// Distribution of one term's rate and payment across all simulated paths
+export interface RenewalRiskTerm {
+  termNumber: number; // 1 = current term (known rate)
+  yearsFromStart: number;
+  annualRate: PercentileBand;
+  monthlyPayment: PercentileBand;
+  probabilityAboveComfort: number | null; // 0-1; null without a comfort limit
+}
+
+export interface RenewalRiskResult {
+  simulations: number;
+  seed: number;
+  model: RateModelConfig;
+  terms: RenewalRiskTerm[];
+  totalInterest: PercentileBand;
+  comfortLimit: number | null;
+  probabilityExceedsComfort: number | null; // 0-1: payment above the limit at any renewal
+}
+
+// Prime rate change on a given date
+export interface PrimeRateChange {
+  date: Date;
+  primeRate: number; // As percentage
+}
+
+// Adjustable-payment (ARM) products re-amortize on every rate change;
+// fixed-payment (VRM) products keep the payment and shift the principal/interest split
+export type VariablePaymentType = 'adjustable-payment' | 'fixed-payment';
+
+export interface VariableRateScheduleParams {
+  principal: number;
+  amortizationYears: number;
+  frequency: PaymentFrequency;
+  primeRatePath: PrimeRateChange[];
+  discountToPrime: number; // e.g. 0.9 for prime - 0.90%; negative for a premium
+  paymentType: VariablePaymentType;
+  startDate?: Date;
+}
+
+// Payment at which a trigger condition was first met
+export interface TriggerEvent {
+  paymentNumber: number;
+  paymentDate: Date;
+  annualRate: number;
+  balance: number;
+}
+
+export interface VariableRateScheduleResult {
+  schedule: AmortizationEntry[];
+  paymentType: VariablePaymentType;
+  initialRate: number;
+  initialPayment: number;
+  triggerRate: number | null; // Rate where interest equals the payment (fixed-payment only)
+  triggerPrimeRate: number | null; // Prime rate that produces the trigger rate
+  triggerRateReached: TriggerEvent | null; // Interest first exceeds the payment
+  triggerPointReached: TriggerEvent | null; // Balance first rises above the original principal
+  totalInterest: number;
+}
+
+export interface RateBreakevenParams {
+  principal: number;
+  amortizationYears: number;
+  frequency: PaymentFrequency;
+  termYears: number; // Both options are compared over this term
+  fixedRate: number;
+  primeRatePath: PrimeRateChange[]; // Expected prime path for the variable option
+  discountToPrime: number;
+  paymentType?: VariablePaymentType; // Defaults to adjustable-payment
+  startDate?: Date;
+}
+
+// Cumulative position of both options at the end of a month of the term
+// Cost = interest paid so far + balance still owing
+export interface RateBreakevenPoint {
+  month: number;
+  date: Date;
+  fixedInterest: number;
+  variableInterest: number;
+  fixedBalance: number;
+  variableBalance: number;
+  fixedCost: number;
+  variableCost: number;
+  variableSavings: number; // Fixed cost - variable cost (positive = variable cheaper)
+}
+
+export interface RateBreakevenResult {
+  termMonths: number;
+  fixedMonthlyPayment: number;
+  initialVariableRate: number;
+  initialVariableMonthlyPayment: number;
+  monthlyDifference: number; // Fixed - initial variable monthly payment
+  points: RateBreakevenPoint[];
+  totalSavingsVariable: number; // Variable savings at maturity
+  breakevenMonth: number | null; // First month the variable stops being cheaper; null if it never does
+  breakevenRateIncrease: number | null; // Parallel rise in the variable path that makes both cost the same at maturity (negative = fall); null if out of range
+}
+
+// How the IRD comparison rate is chosen:
+// posted-rate - current posted rate minus the discount received at signing
+// discounted-rate - lender's current discounted rate for the remaining term
+export type IRDMethod = 'posted-rate' | 'discounted-rate';
+
+export interface PrepaymentPenaltyParams {
+  principal: number; // Original principal
+  contractRate: number; // As percentage
+  amortizationYears: number;
+  frequency: PaymentFrequency;
+  startDate: Date;
+  penaltyDate?: Date; // Date the mortgage is broken (default: today)
+  remainingTermMonths: number;
+  comparisonRate: number; // Current rate for the term closest to the remaining term
+  irdMethod: IRDMethod;
+  originalPostedRate?: number; // Posted rate at signing (posted-rate method)
+  mortgageType?: MortgageType; // Variable mortgages only pay three months' interest
+}
+
+export interface PrepaymentPenaltyResult {
+  balance: number; // Balance owing on the penalty date
+  remainingTermMonths: number;
+  threeMonthsInterest: number;
+  ird: number;
+  irdMethod: IRDMethod;
+  irdComparisonRate: number; // Comparison rate after any discount adjustment
+  rateDifferential: number; // Contract rate minus comparison rate
+  penalty: number; // Greater of the two
+  penaltyType: 'three-months-interest' | 'ird';
+}
+
+// Full refinance: break the mortgage and pay the penalty
+// Blend-and-extend: keep the lender, blend the old rate with the new one and
+// extend the term, without a penalty
+export type RefinanceType = 'full-refinance' | 'blend-and-extend';
+
+// The mortgage being refinanced, as it stands today
+export interface ExistingMortgage {
+  balance: number;
+  annualRate: number;
+  remainingAmortizationYears: number; // May be fractional (e.g. 22.5)
+  remainingTermMonths: number;
+  frequency: PaymentFrequency;
+  mortgageType?: MortgageType; // Variable mortgages only pay three months' interest
+  irdMethod?: IRDMethod; // Defaults to discounted-rate
+  irdComparisonRate?: number; // Lender's rate for the remaining term (default: the new rate)
+  originalPostedRate?: number; // Posted rate at signing (posted-rate method)
+}
+
+export interface RefinanceParams {
+  existing: ExistingMortgage;
+  type: RefinanceType;
+  newRate: number; // Rate for the new mortgage, or for the new term when blending
+  newTermYears: number;
+  newAmortizationYears: number;
+  newFrequency?: PaymentFrequency; // Defaults to the existing frequency
+  propertyValue: number;
+  cashOut?: number; // Requested equity take-out; capped at the maximum LTV
+  maxLtv?: number; // As percentage (default 80)
+  refinanceCosts?: number; // Legal, appraisal etc., added to the new mortgage
+  penaltyOverride?: number; // Lender's quoted penalty, used instead of the estimate
+  grossAnnualIncome: number | Borrower[];
+  liabilities?: Liability[]; // Those marked toBePaidOff are consolidated into the mortgage
+  propertyTax?: number;
+  heatingCost?: number;
+  condoFees?: number;
+  policy?: QualificationPolicy;
+}
+
+export interface RefinanceResult {
+  type: RefinanceType;
+  existingBalance: number;
+  penalty: number; // 0 for a blend-and-extend
+  penaltyType: 'three-months-interest' | 'ird' | 'quoted' | null;
+  consolidatedDebt: number; // Balances of consolidated liabilities
+  consolidatedLiabilities: Liability[];
+  refinanceCosts: number;
+  requestedCashOut: number;
+  cashOut: number; // Cash-out actually available under the LTV limit
+  newPrincipal: number;
+  maxMortgage: number; // Property value × maximum LTV
+  ltv: number;
+  exceedsMaxLtv: boolean; // Even without cash-out, the new mortgage is over the limit
+  newRate: number; // Blended rate for a blend-and-extend
+  existingMonthlyPayment: number;
+  newMonthlyPayment: number;
+  consolidatedMonthlyPayments: number; // Payments on the debts being paid off
+  monthlyCashFlowChange: number; // Before (mortgage + consolidated debts) - after; positive = saves
+  affordabilityBefore: AffordabilityResult;
+  affordabilityAfter: AffordabilityResult;
+  breakevenMonths: number | null; // Months of interest savings to recover the penalty and costs
+  recoversWithinTerm: boolean; // Break-even comes within the new term
+  existingLifetimeInterest: number;
+  newLifetimeInterest: number;
+  lifetimeInterestDifference: number; // New - existing (positive = more interest)
+}
+
+// Short-term loan against a sold home's equity, from the purchase closing to the sale closing
+export interface BridgeLoanParams {
+  salePrice: number; // Firm sale price of the current home
+  existing: ExistingMortgage; // Paid out when the sale closes
+  penaltyOverride?: number; // Lender's quoted payout penalty, used instead of the estimate
+  sellingCostPercent?: number; // Commission etc., as % of the sale price
+  sellingCosts?: number; // Flat selling costs (legal, moving out)
+  amountNeeded?: number; // Funds needed on the purchase; default: all the equity available
+  bridgeRate: number; // As percentage
+  bridgeDays: number; // Purchase closing to sale closing
+  bridgeFee?: number; // Lender's administration fee
+}
+
+export interface BridgeLoanResult {
+  salePrice: number;
+  sellingCosts: number;
+  mortgageBalance: number;
+  penalty: number;
+  penaltyType: 'three-months-interest' | 'ird' | 'quoted';
+  mortgagePayout: number; // Balance plus penalty
+  netSaleProceeds: number; // Sale price less selling costs and the payout
+  maxBridgeAmount: number; // Largest bridge the net proceeds can repay with interest and fee
+  bridgeAmount: number;
+  shortfall: number; // Funds needed beyond the maximum bridge
+  bridgeInterest: number;
+  bridgeFee: number;
+  totalBridgeCost: number; // Interest plus fee
+  proceedsAfterBridge: number; // Left over once the bridge is repaid from the sale
+}
+
+// Port the existing mortgage to a new home, adding new money at today's rate
+export interface PortMortgageParams {
+  existing: ExistingMortgage; // Balance and rate carry over
+  newMortgageAmount: number; // Total mortgage on the new home
+  newMoneyRate: number; // As percentage
+  amortizationYears: number; // For the blended mortgage
+  frequency?: PaymentFrequency; // Defaults to the existing frequency
+  propertyValue?: number; // For the LTV
+}
+
+export interface PortMortgageResult {
+  portedBalance: number;
+  portedRate: number;
+  newMoney: number;
+  newMoneyRate: number;
+  blendedRate: number; // Weighted by amount over the remaining term
+  termMonths: number; // The blended mortgage matures with the existing term
+  portedPayment: number; // Ported balance on its own, at the existing rate
+  newMoneyPayment: number; // New money on its own, at the new rate
+  blendedPayment: number; // Whole mortgage at the blended rate
+  monthlyBlendedPayment: number;
+  existingMonthlyPayment: number; // Before the move
+  monthlyPaymentIncrease: number;
+  penaltyAvoided: number; // Estimated penalty for paying out instead of porting
+  ltv: number | null; // null without a property value
 }
 
 // Sensitivity analysis data point
@@ -64,7 +962,77 @@ export interface SensitivityDataPoint {
   totalCost: number;
 }
 
+// One axis of a two-way sensitivity grid: the input varied and its values
+export interface SensitivityGridAxis {
+  variable: GoalSeekVariable;
+  values: number[];
+}
+
+export interface SensitivityGridParams {
+  scenario: GoalSeekScenario; // Base inputs; the two axis variables are overridden per cell
+  x: SensitivityGridAxis;
+  y: SensitivityGridAxis;
+  gdsLimit?: number; // Defaults to the policy's GDS threshold
+  tdsLimit?: number; // Defaults to the policy's TDS threshold
+  policy?: QualificationPolicy;
+}
+
+export interface SensitivityGridCell {
+  x: number;
+  y: number;
+  principal: number;
+  monthlyPayment: number;
+  gdsRatio: number;
+  tdsRatio: number;
+  stressGdsRatio: number;
+  stressTdsRatio: number;
+  passesGds: boolean;
+  passesTds: boolean;
+  passesStressTest: boolean; // Both ratios within limits at the qualifying rate
+  meetsMinimumDownPayment: boolean; // Always true without a purchase price
+  qualifies: boolean; // Passes every check above
+}
+
+export interface SensitivityGrid {
+  xVariable: GoalSeekVariable;
+  yVariable: GoalSeekVariable;
+  xValues: number[];
+  yValues: number[];
+  baseX: number; // The scenario's own values, to mark where the client is now
+  baseY: number;
+  cells: SensitivityGridCell[][]; // cells[row][column]: one row per y value
+}
+
+// One payment frequency in a side-by-side comparison
+export interface FrequencyComparison {
+  frequency: PaymentFrequency;
+  payment: number;
+  monthlyEquivalent: number;
+  numberOfPayments: number; // Actual payments until the balance reaches 0
+  effectiveAmortizationYears: number;
+  payoffDate: Date;
+  totalInterest: number;
+  interestSaved: number; // vs. monthly payments
+}
+
 // Amortization schedule entry
+// One year of an amortization schedule, totalled for charts
+export interface YearlyAmortizationSummary {
+  year: number;
+  principalPaid: number; // Includes any prepayments made in the year
+  interestPaid: number;
+  balance: number; // At the end of the year
+  totalPaid: number;
+}
+
+// Cost of the same mortgage over one amortization period
+export interface AmortizationPeriodComparison {
+  years: number;
+  monthlyPayment: number;
+  totalInterest: number;
+  totalCost: number;
+}
+
 export interface AmortizationEntry {
   paymentNumber: number;
   paymentDate: Date;
@@ -72,6 +1040,92 @@ export interface AmortizationEntry {
   principal: number;
   interest: number;
   balance: number;
+  prepayment?: number; // Extra principal paid alongside this payment
+  annualRate?: number; // Rate in effect for this payment (variable-rate schedules)
+}
+
+// Interest for the stub period between funding and the interest adjustment date
+export interface InterestAdjustment {
+  fundingDate: Date;
+  interestAdjustmentDate: Date; // Regular schedule starts here; first payment one period later
+  days: number;
+  amount: number;
+}
+
+// Fees disclosed as part of the cost of borrowing
+export interface BorrowingFees {
+  appraisalFee?: number;
+  brokerFee?: number;
+  insurancePremium?: number; // Mortgage default insurance, added to the mortgage
+  otherFees?: number; // e.g. lender administration fees
+}
+
+export interface BorrowingCostDisclosureParams {
+  principal: number; // Amount borrowed, before any insurance premium
+  annualRate: number; // As percentage
+  amortizationYears: number;
+  termYears: number;
+  frequency: PaymentFrequency;
+  fundingDate: Date; // Date the funds are advanced
+  fees?: BorrowingFees;
+}
+
+// Figures for the cost-of-borrowing disclosure, over the term
+export interface BorrowingCostDisclosure {
+  principal: number;
+  insurancePremium: number;
+  totalLoanAmount: number; // Principal plus premium; interest is charged on this
+  annualRate: number;
+  frequency: PaymentFrequency;
+  termYears: number;
+  amortizationYears: number;
+  fundingDate: Date;
+  interestAdjustmentDate: Date;
+  firstPaymentDate: Date;
+  termEndDate: Date; // Date of the last payment in the term
+  payment: number; // Regular payment
+  numberOfPayments: number; // Payments in the term
+  totalPayments: number; // Sum of every payment in the term
+  interestAdjustment: number; // Stub-period interest, collected on the IAD
+  totalInterest: number; // Interest in the payments plus the interest adjustment
+  fees: number; // Appraisal, broker and other fees (the premium is shown separately)
+  balanceAtTermEnd: number;
+  costOfBorrowing: number; // Interest, fees and premium
+  apr: number; // As percentage, semi-annual compounding
+}
+
+// One-time lump sum applied with the first payment on or after `date`
+export interface LumpSumPrepayment {
+  date: Date;
+  amount: number;
+}
+
+// Lump sum applied with the last payment of every mortgage year
+export interface RecurringLumpSumPrepayment {
+  amount: number;
+  startYear?: number; // First mortgage year to apply it (default 1)
+  endYear?: number; // Last mortgage year to apply it (default: until payoff)
+}
+
+// Prepayment inputs for the amortization engine
+export interface PrepaymentOptions {
+  lumpSums?: LumpSumPrepayment[];
+  annualLumpSum?: RecurringLumpSumPrepayment;
+  paymentIncrease?: number; // Permanent increase to every payment ($)
+}
+
+// Prepayment scenario compared with the baseline schedule
+export interface PrepaymentComparison {
+  baselineSchedule: AmortizationEntry[];
+  prepaymentSchedule: AmortizationEntry[];
+  baselineTotalInterest: number;
+  prepaymentTotalInterest: number;
+  totalPrepaid: number;
+  interestSaved: number;
+  paymentsSaved: number;
+  monthsSaved: number;
+  baselinePayoffDate: Date;
+  prepaymentPayoffDate: Date;
 }
 
 // AI Document extraction result
@@ -93,6 +1147,7 @@ export interface PaymentCalculationParams {
   annualRate: number; // As percentage
   amortizationYears: number;
   frequency: PaymentFrequency;
+  compoundingsPerYear?: number; // Default 2 (semi-annual)
 }
 
 // Dashboard data aggregate